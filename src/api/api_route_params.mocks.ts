@@ -1,9 +1,9 @@
 import { mock } from 'node:test';
 
 import { fastify } from 'fastify';
-import NodeCache from 'node-cache';
-import type { Browser } from 'playwright';
+import type { Browser, BrowserContextOptions } from 'playwright';
 
+import { MemoryCache } from '../cache/index.js';
 import type { Config } from '../config.js';
 import { configure } from '../config.js';
 import { createBrowserMock } from '../mocks.js';
@@ -19,8 +19,11 @@ export function createMock({
 }: MockOptions = {}) {
   return {
     server: fastify({ logger: { level: 'warn' } }),
-    cache: new NodeCache({ stdTTL: 0 }),
+    cache: new MemoryCache({ ttlSec: 0 }),
     config,
-    acquireBrowser: mock.fn(() => Promise.resolve(browser)),
+    acquireBrowserContext: mock.fn(async (contextOptions?: BrowserContextOptions) => {
+      const context = await browser.newContext(contextOptions);
+      return { context, release: mock.fn(() => context.close()) };
+    }),
   };
 }
@@ -1,12 +1,13 @@
 import type { FastifyInstance } from 'fastify';
-import type NodeCache from 'node-cache';
-import type { Browser } from 'playwright';
+import type { BrowserContextOptions } from 'playwright';
 
+import type { BrowserContextLease } from '../browser_pool.js';
+import type { Cache } from '../cache/index.js';
 import type { Config } from '../config.js';
 
 export interface ApiRouteParams {
   server: FastifyInstance;
-  cache: NodeCache;
+  cache: Cache;
   config: Config;
-  acquireBrowser: () => Promise<Browser>;
+  acquireBrowserContext: (contextOptions?: BrowserContextOptions) => Promise<BrowserContextLease>;
 }
@@ -0,0 +1,57 @@
+import type { CacheEntryDescriptor } from '../../cache/index.js';
+
+/**
+ * Describes a cache entry without its value.
+ */
+export interface CacheEntryInfo {
+  /**
+   * Key the entry is stored under.
+   */
+  key: string;
+
+  /**
+   * API route that produced the entry, if known.
+   */
+  route?: string;
+
+  /**
+   * URL of the web page the entry was created for, if known.
+   */
+  url?: string;
+
+  /**
+   * Size of the serialized entry value, in bytes.
+   */
+  size: number;
+
+  /**
+   * Age of the entry, in seconds.
+   */
+  ageSec: number;
+
+  /**
+   * Number of seconds left until the entry expires, if it ever expires.
+   */
+  ttlSec?: number;
+}
+
+export const CACHE_ENTRY_INFO_SCHEMA_PROPERTIES = {
+  key: { type: 'string' },
+  route: { type: 'string' },
+  url: { type: 'string' },
+  size: { type: 'number' },
+  ageSec: { type: 'number' },
+  ttlSec: { type: 'number' },
+};
+
+export function getCacheEntryInfo({ key, size, createdAt, expiresAt, metadata }: CacheEntryDescriptor): CacheEntryInfo {
+  const now = Date.now();
+  return {
+    key,
+    route: metadata?.route,
+    url: metadata?.url,
+    size,
+    ageSec: Math.max(Math.floor((now - createdAt) / 1000), 0),
+    ttlSec: expiresAt ? Math.max(Math.ceil((expiresAt - now) / 1000), 0) : undefined,
+  };
+}
@@ -0,0 +1,39 @@
+import * as assert from 'node:assert';
+import { test } from 'node:test';
+
+import { registerCacheGetRoutes } from './get.js';
+import { createMock } from '../api_route_params.mocks.js';
+
+await test('[/api/cache/:key] can successfully create route', () => {
+  assert.doesNotThrow(() => registerCacheGetRoutes(createMock()));
+});
+
+await test('[/api/cache/:key] returns cache entry', async (t) => {
+  t.mock.method(Date, 'now', () => 123000);
+
+  const routeParamsMock = createMock();
+  await routeParamsMock.cache.set(
+    'key-one',
+    { content: 'one' },
+    { route: '/api/web_page/content', url: 'https://a.dev' },
+  );
+
+  const route = registerCacheGetRoutes(routeParamsMock);
+  let response = await route.inject({ method: 'GET', url: '/api/cache/key-one' });
+  assert.strictEqual(response.statusCode, 200);
+  assert.strictEqual(
+    response.body,
+    JSON.stringify({
+      key: 'key-one',
+      route: '/api/web_page/content',
+      url: 'https://a.dev',
+      size: 17,
+      ageSec: 0,
+      value: { content: 'one' },
+    }),
+  );
+
+  response = await route.inject({ method: 'GET', url: '/api/cache/key-two' });
+  assert.strictEqual(response.statusCode, 404);
+  assert.strictEqual(response.body, JSON.stringify({ message: 'Cache entry "key-two" is not found.' }));
+});
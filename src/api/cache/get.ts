@@ -0,0 +1,33 @@
+import { CACHE_ENTRY_INFO_SCHEMA_PROPERTIES, getCacheEntryInfo } from './cache_entry_info.js';
+import { getCacheValueSize } from '../../cache/index.js';
+import type { ApiRouteParams } from '../api_route_params.js';
+
+export function registerCacheGetRoutes({ server, cache }: ApiRouteParams) {
+  return server.get<{ Params: { key: string } }>(
+    '/api/cache/:key',
+    {
+      schema: {
+        params: {
+          key: { type: 'string' },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              ...CACHE_ENTRY_INFO_SCHEMA_PROPERTIES,
+              value: {},
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const entry = await cache.get(request.params.key);
+      if (!entry) {
+        return reply.code(404).send({ message: `Cache entry "${request.params.key}" is not found.` });
+      }
+
+      return { ...getCacheEntryInfo({ ...entry, size: getCacheValueSize(entry.value) }), value: entry.value };
+    },
+  );
+}
@@ -0,0 +1,10 @@
+import { registerCacheGetRoutes } from './get.js';
+import { registerCacheListRoutes } from './list.js';
+import { registerCachePurgeRoutes } from './purge.js';
+import type { ApiRouteParams } from '../api_route_params.js';
+
+export function registerRoutes(params: ApiRouteParams) {
+  registerCacheListRoutes(params);
+  registerCacheGetRoutes(params);
+  registerCachePurgeRoutes(params);
+}
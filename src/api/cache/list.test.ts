@@ -0,0 +1,39 @@
+import * as assert from 'node:assert';
+import { test } from 'node:test';
+
+import { registerCacheListRoutes } from './list.js';
+import { createMock } from '../api_route_params.mocks.js';
+
+await test('[/api/cache] can successfully create route', () => {
+  assert.doesNotThrow(() => registerCacheListRoutes(createMock()));
+});
+
+await test('[/api/cache] lists cache entries', async (t) => {
+  const dateNowMock = t.mock.method(Date, 'now', () => 123000);
+
+  const routeParamsMock = createMock();
+  const entriesMock = t.mock.method(routeParamsMock.cache, 'entries');
+  await routeParamsMock.cache.set(
+    'key-one',
+    { content: 'one' },
+    { route: '/api/web_page/content', url: 'https://a.dev' },
+  );
+  dateNowMock.mock.mockImplementation(() => 133000);
+  await routeParamsMock.cache.set('key-two', { content: 'two' });
+
+  const response = await registerCacheListRoutes(routeParamsMock).inject({ method: 'GET', url: '/api/cache' });
+
+  assert.strictEqual(response.statusCode, 200);
+  assert.strictEqual(
+    response.body,
+    JSON.stringify({
+      entries: [
+        { key: 'key-two', size: 17, ageSec: 0 },
+        { key: 'key-one', route: '/api/web_page/content', url: 'https://a.dev', size: 17, ageSec: 10 },
+      ],
+    }),
+  );
+
+  // Entry values shouldn't be loaded to list entries.
+  assert.strictEqual(entriesMock.mock.callCount(), 0);
+});
@@ -0,0 +1,32 @@
+import type { CacheEntryInfo } from './cache_entry_info.js';
+import { CACHE_ENTRY_INFO_SCHEMA_PROPERTIES, getCacheEntryInfo } from './cache_entry_info.js';
+import type { ApiRouteParams } from '../api_route_params.js';
+
+/**
+ * List of cache entries.
+ */
+interface OutputBodyType {
+  entries: CacheEntryInfo[];
+}
+
+export function registerCacheListRoutes({ server, cache }: ApiRouteParams) {
+  return server.get(
+    '/api/cache',
+    {
+      schema: {
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              entries: { type: 'array', items: { type: 'object', properties: CACHE_ENTRY_INFO_SCHEMA_PROPERTIES } },
+            },
+          },
+        },
+      },
+    },
+    async (): Promise<OutputBodyType> => {
+      const entries = (await cache.list()).map(getCacheEntryInfo);
+      return { entries: entries.sort((entryA, entryB) => entryA.ageSec - entryB.ageSec) };
+    },
+  );
+}
@@ -0,0 +1,52 @@
+import * as assert from 'node:assert';
+import { test } from 'node:test';
+
+import { registerCachePurgeRoutes } from './purge.js';
+import { createMock } from '../api_route_params.mocks.js';
+
+await test('[/api/cache] can successfully create purge route', () => {
+  assert.doesNotThrow(() => registerCachePurgeRoutes(createMock()));
+});
+
+await test('[/api/cache] purges cache entries', async (t) => {
+  const routeParamsMock = createMock();
+  await routeParamsMock.cache.set('key-one', 'one', { url: 'https://a.dev/one' });
+  await routeParamsMock.cache.set('key-two', 'two', { url: 'https://a.dev/two' });
+  await routeParamsMock.cache.set('key-three', 'three', { url: 'https://b.dev' });
+  await routeParamsMock.cache.set('key-four', 'four', { url: 'https://c.dev' });
+
+  const entriesMock = t.mock.method(routeParamsMock.cache, 'entries');
+  const route = registerCachePurgeRoutes(routeParamsMock);
+
+  let response = await route.inject({ method: 'DELETE', url: '/api/cache?key=key-one' });
+  assert.strictEqual(response.statusCode, 200);
+  assert.strictEqual(response.body, JSON.stringify({ purged: 1 }));
+
+  response = await route.inject({ method: 'DELETE', url: '/api/cache?url=https%3A%2F%2Fb.dev' });
+  assert.strictEqual(response.statusCode, 200);
+  assert.strictEqual(response.body, JSON.stringify({ purged: 1 }));
+
+  response = await route.inject({ method: 'DELETE', url: '/api/cache?urlPrefix=https%3A%2F%2Fa.dev%2F' });
+  assert.strictEqual(response.statusCode, 200);
+  assert.strictEqual(response.body, JSON.stringify({ purged: 1 }));
+
+  // Entry values shouldn't be loaded to find entries to purge.
+  assert.strictEqual(entriesMock.mock.callCount(), 0);
+  assert.deepEqual(
+    (await routeParamsMock.cache.list()).map((entry) => entry.key),
+    ['key-four'],
+  );
+});
+
+await test('[/api/cache] rejects ambiguous purge requests', async () => {
+  const route = registerCachePurgeRoutes(createMock());
+
+  for (const url of ['/api/cache', '/api/cache?key=key-one&url=https%3A%2F%2Fa.dev']) {
+    const response = await route.inject({ method: 'DELETE', url });
+    assert.strictEqual(response.statusCode, 400);
+    assert.strictEqual(
+      response.body,
+      JSON.stringify({ message: 'Exactly one of "key", "url" or "urlPrefix" should be specified.' }),
+    );
+  }
+});
@@ -0,0 +1,77 @@
+import type { ApiRouteParams } from '../api_route_params.js';
+
+/**
+ * Defines type of the input parameters. Only one of the parameters is expected.
+ */
+interface InputQueryParamsType {
+  /**
+   * Key of the cache entry to purge.
+   */
+  key?: string;
+
+  /**
+   * URL of the web page to purge all cache entries for.
+   */
+  url?: string;
+
+  /**
+   * URL prefix of the web pages to purge all cache entries for.
+   */
+  urlPrefix?: string;
+}
+
+/**
+ * Number of purged cache entries.
+ */
+interface OutputBodyType {
+  purged: number;
+}
+
+export function registerCachePurgeRoutes({ server, cache }: ApiRouteParams) {
+  const log = server.log.child({ provider: 'cache_purge' });
+  return server.delete<{ Querystring: InputQueryParamsType }>(
+    '/api/cache',
+    {
+      schema: {
+        querystring: {
+          key: { type: 'string' },
+          url: { type: 'string' },
+          urlPrefix: { type: 'string' },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              purged: { type: 'number' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply): Promise<OutputBodyType | undefined> => {
+      const { key, url, urlPrefix } = request.query;
+      if ([key, url, urlPrefix].filter((param) => param !== undefined).length !== 1) {
+        return reply.code(400).send({ message: 'Exactly one of "key", "url" or "urlPrefix" should be specified.' });
+      }
+
+      if (key !== undefined) {
+        const purged = (await cache.delete(key)) ? 1 : 0;
+        log.info(`Purged ${purged} cache entries with key "${key}".`);
+        return { purged };
+      }
+
+      let purged = 0;
+      for (const entry of await cache.list()) {
+        const entryUrl = entry.metadata?.url;
+        if (entryUrl !== undefined && (url !== undefined ? entryUrl === url : entryUrl.startsWith(urlPrefix!))) {
+          purged += (await cache.delete(entry.key)) ? 1 : 0;
+        }
+      }
+
+      log.info(
+        `Purged ${purged} cache entries for ${url !== undefined ? `URL "${url}"` : `URL prefix "${urlPrefix}"`}.`,
+      );
+      return { purged };
+    },
+  );
+}
@@ -0,0 +1,46 @@
+/**
+ * Request-level cache controls.
+ */
+export interface CachePolicy {
+  /**
+   * If `true`, the cached entry is ignored and the result is always fetched anew (the cache is still updated).
+   */
+  bypass?: boolean;
+
+  /**
+   * Maximum acceptable age of the cached entry, in seconds. Older entries are treated as missing unless
+   * `refreshInBackground` is set.
+   */
+  maxAgeSec?: number;
+
+  /**
+   * If `true`, the cached entry that is older than `maxAgeSec` is served as is, while a fresh result is fetched in the
+   * background to update the cache.
+   */
+  refreshInBackground?: boolean;
+}
+
+/**
+ * Describes whether the response was served from cache and how old the cached entry is.
+ */
+export interface CacheStatus {
+  hit: boolean;
+  ageSec: number;
+}
+
+export const CACHE_POLICY_SCHEMA = {
+  type: 'object',
+  properties: {
+    bypass: { type: 'boolean' },
+    maxAgeSec: { type: 'number', minimum: 0 },
+    refreshInBackground: { type: 'boolean' },
+  },
+};
+
+export const CACHE_STATUS_SCHEMA = {
+  type: 'object',
+  properties: {
+    hit: { type: 'boolean' },
+    ageSec: { type: 'number' },
+  },
+};
@@ -0,0 +1,87 @@
+import type { FastifyBaseLogger } from 'fastify';
+
+import type { ApiResult } from './api_result.js';
+import type { CachePolicy, CacheStatus } from './cache_policy.js';
+import { Diagnostics } from './diagnostics.js';
+import type { Cache } from '../cache/index.js';
+import { SingleFlight } from '../utilities/index.js';
+
+interface CachedFetcherOptions {
+  cache: Cache;
+  log: FastifyBaseLogger;
+  /**
+   * API route the fetcher serves, recorded in the cache entry metadata.
+   */
+  route: string;
+}
+
+interface CachedFetchRequest {
+  key: string;
+  url: string;
+  policy?: CachePolicy;
+  /**
+   * If `true`, the result is neither read from nor written to the cache, and isn't shared with concurrent requests for
+   * the same key. Used for requests that carry secrets, e.g. authentication details.
+   */
+  isPrivate?: boolean;
+}
+
+/**
+ * Serves results from the cache according to the request cache policy, and fetches fresh results when needed.
+ * Concurrent fetches for the same cache key are coalesced into a single one.
+ */
+export class CachedFetcher<T extends object> {
+  private readonly inFlightRequests = new SingleFlight<ApiResult<T>>();
+  constructor(private readonly options: CachedFetcherOptions) {}
+
+  public async fetch(
+    { key, url, policy, isPrivate }: CachedFetchRequest,
+    fetch: () => Promise<ApiResult<T>>,
+  ): Promise<ApiResult<T & { cache: CacheStatus }>> {
+    if (isPrivate) {
+      const result = await fetch();
+      return result.type === 'success'
+        ? { type: 'success', data: { ...result.data, cache: { hit: false, ageSec: 0 } } }
+        : result;
+    }
+
+    if (!policy?.bypass) {
+      const entry = await this.options.cache.get<T>(key);
+      if (entry) {
+        const ageSec = Math.max(Math.floor((Date.now() - entry.createdAt) / 1000), 0);
+        const isFresh = policy?.maxAgeSec === undefined || ageSec <= policy.maxAgeSec;
+        if (isFresh || policy?.refreshInBackground) {
+          if (!isFresh) {
+            this.options.log.debug(`Cache entry "${key}" is stale (age: ${ageSec}s), refreshing in background.`);
+            this.refresh(key, url, fetch).catch((err) => {
+              this.options.log.error(`Failed to refresh cache entry "${key}": ${Diagnostics.errorMessage(err)}`);
+            });
+          }
+
+          return { type: 'success', data: { ...entry.value, cache: { hit: true, ageSec } } };
+        }
+      }
+    }
+
+    if (this.inFlightRequests.has(key)) {
+      this.options.log.debug(`Request for cache entry "${key}" is already in progress, waiting...`);
+    }
+
+    const result = await this.refresh(key, url, fetch);
+    return result.type === 'success'
+      ? { type: 'success', data: { ...result.data, cache: { hit: false, ageSec: 0 } } }
+      : result;
+  }
+
+  private refresh(key: string, url: string, fetch: () => Promise<ApiResult<T>>) {
+    return this.inFlightRequests.run(key, async () => {
+      const result = await fetch();
+      if (result.type === 'success') {
+        await this.options.cache.set(key, result.data, { route: this.options.route, url }).catch((err) => {
+          this.options.log.error(`Failed to store cache entry "${key}": ${Diagnostics.errorMessage(err)}`);
+        });
+      }
+      return result;
+    });
+  }
+}
@@ -1,16 +1,16 @@
 import type { FastifyBaseLogger } from 'fastify';
-import type { Browser } from 'playwright';
+import type { BrowserContext } from 'playwright';
 
 export class Diagnostics {
-  public static async screenshot(log: FastifyBaseLogger, browser: Browser) {
+  public static async screenshot(log: FastifyBaseLogger, context: BrowserContext) {
     log.info('Capturing screenshots...');
-    if (!browser.isConnected()) {
+    if (!context.browser()?.isConnected()) {
       log.error('Browser is not connected, bailing out...');
       return;
     }
 
     try {
-      const pages = browser.contexts().flatMap((context) => context.pages());
+      const pages = context.pages();
       log.debug(`Retrieved ${pages.length} pages.`);
       for (const page of pages) {
         if (page.isClosed()) {
@@ -1,8 +1,12 @@
 import type { ApiRouteParams } from './api_route_params.js';
+import * as cache from './cache/index.js';
 import * as status from './status/index.js';
+import * as tlsh from './tlsh/index.js';
 import * as web_page from './web_page/index.js';
 
 export function registerRoutes(params: ApiRouteParams) {
   web_page.registerRoutes(params);
   status.registerRoutes(params);
+  cache.registerRoutes(params);
+  tlsh.registerRoutes(params);
 }
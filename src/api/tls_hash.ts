@@ -10,3 +10,53 @@ export function tlsHash(text: string) {
   hasher.finale(text);
   return `T1${hasher.hash().toString()}`;
 }
+
+/**
+ * Calculates the distance between two TLS hashes (`T1...`), `0` means that hashes are identical. The larger the
+ * distance, the more different the data the hashes were calculated for.
+ */
+export function tlsHashDiff(left: string, right: string, { includeLength = true }: { includeLength?: boolean } = {}) {
+  return parseTlsHash(left).totalDiff(parseTlsHash(right), includeLength);
+}
+
+function parseTlsHash(hash: string) {
+  if (!hash.startsWith('T1')) {
+    throw new Error(`TLS hash "${hash}" should start with "T1".`);
+  }
+
+  const hasher = new Tlsh();
+  try {
+    hasher.fromTlshStr(hash.slice(2));
+  } catch (err) {
+    throw new Error(`TLS hash "${hash}" is not valid: ${(err as Error).message}.`);
+  }
+  return hasher;
+}
+
+/**
+ * Thresholds used to classify the distance between two TLS hashes.
+ */
+export interface TlsHashDiffThresholds {
+  /**
+   * Maximum distance at which data is considered identical. Default is 0.
+   */
+  identical?: number;
+
+  /**
+   * Maximum distance at which data is considered slightly changed, larger distances are considered major changes.
+   */
+  minor: number;
+}
+
+export type TlsHashDiffClassification = 'identical' | 'minor-change' | 'major-change';
+
+export function classifyTlsHashDiff(
+  distance: number,
+  { identical = 0, minor }: TlsHashDiffThresholds,
+): TlsHashDiffClassification {
+  if (distance <= identical) {
+    return 'identical';
+  }
+
+  return distance <= minor ? 'minor-change' : 'major-change';
+}
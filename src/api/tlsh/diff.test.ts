@@ -0,0 +1,84 @@
+import * as assert from 'node:assert';
+import { test } from 'node:test';
+
+import { registerTlshDiffRoutes } from './diff.js';
+import { createMock } from '../api_route_params.mocks.js';
+
+const HASH_A = 'T156A002B39256197413252E602EA57AC67D66540474113459D79DB004B1608C7C8EEEDD';
+const HASH_B = 'T1A1A002B3929619B413252D603EA576C6BD66540474113458D75DB004B1508C7C8EFEED';
+const HASH_C = 'T196A022F3A2020E3003222F202EA83AC23C2200083020300AC38CF000B0308C3C8EEECC';
+
+await test('[/api/tlsh/diff] can successfully create route', () => {
+  assert.doesNotThrow(() => registerTlshDiffRoutes(createMock()));
+});
+
+await test('[/api/tlsh/diff] calculates distances for pairs', async () => {
+  const response = await registerTlshDiffRoutes(createMock()).inject({
+    method: 'POST',
+    url: '/api/tlsh/diff',
+    payload: {
+      pairs: [
+        { left: HASH_A, right: HASH_A },
+        { left: HASH_A, right: HASH_B },
+        { left: HASH_A, right: HASH_C },
+      ],
+      thresholds: { minor: 30 },
+    },
+  });
+
+  assert.strictEqual(response.statusCode, 200);
+  assert.strictEqual(
+    response.body,
+    JSON.stringify({
+      pairs: [
+        { left: HASH_A, right: HASH_A, distance: 0, classification: 'identical' },
+        { left: HASH_A, right: HASH_B, distance: 12, classification: 'minor-change' },
+        { left: HASH_A, right: HASH_C, distance: 60, classification: 'major-change' },
+      ],
+    }),
+  );
+});
+
+await test('[/api/tlsh/diff] calculates distance matrix', async () => {
+  const response = await registerTlshDiffRoutes(createMock()).inject({
+    method: 'POST',
+    url: '/api/tlsh/diff',
+    payload: { hashes: [HASH_A, HASH_B, HASH_C] },
+  });
+
+  assert.strictEqual(response.statusCode, 200);
+  assert.strictEqual(
+    response.body,
+    JSON.stringify({
+      matrix: {
+        hashes: [HASH_A, HASH_B, HASH_C],
+        distances: [
+          [0, 12, 60],
+          [12, 0, 71],
+          [60, 71, 0],
+        ],
+      },
+    }),
+  );
+});
+
+await test('[/api/tlsh/diff] reports invalid hashes', async () => {
+  const route = registerTlshDiffRoutes(createMock());
+
+  let response = await route.inject({ method: 'POST', url: '/api/tlsh/diff', payload: {} });
+  assert.strictEqual(response.statusCode, 400);
+  assert.strictEqual(response.body, JSON.stringify({ message: 'Either "pairs" or "hashes" should be specified.' }));
+
+  response = await route.inject({
+    method: 'POST',
+    url: '/api/tlsh/diff',
+    payload: { pairs: [{ left: HASH_A, right: 'T1XYZ' }] },
+  });
+  assert.strictEqual(response.statusCode, 400);
+  assert.strictEqual(
+    response.body,
+    JSON.stringify({
+      message: 'TLS hash "T1XYZ" is not valid: Invalid TLSH string length: 3 is not equal to 70.',
+    }),
+  );
+});
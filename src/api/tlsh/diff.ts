@@ -0,0 +1,153 @@
+import type { ApiResult } from '../api_result.js';
+import type { ApiRouteParams } from '../api_route_params.js';
+import { Diagnostics } from '../diagnostics.js';
+import type { TlsHashDiffClassification, TlsHashDiffThresholds } from '../tls_hash.js';
+import { classifyTlsHashDiff, tlsHashDiff } from '../tls_hash.js';
+
+// Maximum number of hashes in a single request to keep the matrix size reasonable.
+const MAX_HASHES = 100;
+
+/**
+ * Defines type of the input parameters.
+ */
+interface InputBodyParamsType {
+  /**
+   * Optional list of TLS hash pairs to calculate distances for.
+   */
+  pairs?: Array<{ left: string; right: string }>;
+
+  /**
+   * Optional list of TLS hashes to calculate the distance matrix for (every hash against every other hash).
+   */
+  hashes?: string[];
+
+  /**
+   * Whether the difference in data length should be included in distance. Default is `true`.
+   */
+  includeLength?: boolean;
+
+  /**
+   * Optional thresholds to classify the distances with.
+   */
+  thresholds?: TlsHashDiffThresholds;
+}
+
+interface TlsHashPairDiff {
+  left: string;
+  right: string;
+  distance: number;
+  classification?: TlsHashDiffClassification;
+}
+
+/**
+ * Distances between TLS hashes.
+ */
+interface OutputBodyType {
+  pairs?: TlsHashPairDiff[];
+  matrix?: {
+    hashes: string[];
+    distances: number[][];
+    classifications?: TlsHashDiffClassification[][];
+  };
+}
+
+export function registerTlshDiffRoutes({ server }: ApiRouteParams) {
+  const log = server.log.child({ provider: 'tlsh_diff' });
+  return server.post<{ Body: InputBodyParamsType }>(
+    '/api/tlsh/diff',
+    {
+      schema: {
+        body: {
+          pairs: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: { left: { type: 'string' }, right: { type: 'string' } },
+              required: ['left', 'right'],
+            },
+          },
+          hashes: { type: 'array', items: { type: 'string' } },
+          includeLength: { type: 'boolean' },
+          thresholds: {
+            type: 'object',
+            properties: { identical: { type: 'number', minimum: 0 }, minor: { type: 'number', minimum: 0 } },
+            required: ['minor'],
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              pairs: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    left: { type: 'string' },
+                    right: { type: 'string' },
+                    distance: { type: 'number' },
+                    classification: { type: 'string' },
+                  },
+                },
+              },
+              matrix: {
+                type: 'object',
+                properties: {
+                  hashes: { type: 'array', items: { type: 'string' } },
+                  distances: { type: 'array', items: { type: 'array', items: { type: 'number' } } },
+                  classifications: { type: 'array', items: { type: 'array', items: { type: 'string' } } },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    (request, reply) => {
+      const result = diffTlsHashes(request.body);
+      if (result.type === 'client-error') {
+        log.error(`Cannot calculate TLS hash distances due to client error: ${result.error}`);
+        return reply.code(400).send({ message: result.error });
+      }
+
+      return result.data;
+    },
+  );
+}
+
+function diffTlsHashes({ pairs, hashes, includeLength, thresholds }: InputBodyParamsType): ApiResult<OutputBodyType> {
+  if (!pairs && !hashes) {
+    return { type: 'client-error', error: 'Either "pairs" or "hashes" should be specified.' };
+  }
+
+  if ((pairs?.length ?? 0) > MAX_HASHES || (hashes?.length ?? 0) > MAX_HASHES) {
+    return { type: 'client-error', error: `Too many hashes, maximum is ${MAX_HASHES}.` };
+  }
+
+  try {
+    const output: OutputBodyType = {};
+    if (pairs) {
+      output.pairs = pairs.map(({ left, right }) => {
+        const distance = tlsHashDiff(left, right, { includeLength });
+        return thresholds
+          ? { left, right, distance, classification: classifyTlsHashDiff(distance, thresholds) }
+          : { left, right, distance };
+      });
+    }
+
+    if (hashes) {
+      const distances = hashes.map((left) => hashes.map((right) => tlsHashDiff(left, right, { includeLength })));
+      output.matrix = thresholds
+        ? {
+            hashes,
+            distances,
+            classifications: distances.map((row) => row.map((distance) => classifyTlsHashDiff(distance, thresholds))),
+          }
+        : { hashes, distances };
+    }
+
+    return { type: 'success', data: output };
+  } catch (err) {
+    return { type: 'client-error', error: Diagnostics.errorMessage(err) };
+  }
+}
@@ -0,0 +1,6 @@
+import { registerTlshDiffRoutes } from './diff.js';
+import type { ApiRouteParams } from '../api_route_params.js';
+
+export function registerRoutes(params: ApiRouteParams) {
+  registerTlshDiffRoutes(params);
+}
@@ -0,0 +1,217 @@
+import type { FastifyBaseLogger } from 'fastify';
+import type { Page } from 'playwright';
+
+import { DEFAULT_ACTION_TIMEOUT_MS } from './constants.js';
+import type { ApiResult } from '../api_result.js';
+import { Diagnostics } from '../diagnostics.js';
+
+// Maximum number of actions that can be performed on the page.
+const MAX_ACTIONS = 50;
+
+interface PageActionBase {
+  /**
+   * Number of milliseconds to wait for the action to complete. Default is 5000ms.
+   */
+  timeout?: number;
+}
+
+/**
+ * Describes a single step performed on the page after it's loaded, but before anything is extracted from it.
+ */
+export type PageAction = PageActionBase &
+  (
+    | { type: 'click'; selector: string }
+    | { type: 'fill'; selector: string; value: string }
+    | { type: 'select'; selector: string; values: string[] }
+    | {
+        type: 'press';
+        /**
+         * Key to press, e.g. `Enter` or `Control+A`.
+         */
+        key: string;
+        /**
+         * Optional selector of the element to focus before pressing the key, otherwise the key is pressed on the page.
+         */
+        selector?: string;
+      }
+    | { type: 'hover'; selector: string }
+    | {
+        type: 'scroll';
+        /**
+         * Optional selector of the element to scroll into view, otherwise the page is scrolled by `x` and `y` pixels
+         * (by default, one viewport height down).
+         */
+        selector?: string;
+        x?: number;
+        y?: number;
+      }
+    | { type: 'waitForSelector'; selector: string; state?: 'attached' | 'detached' | 'visible' | 'hidden' }
+    | {
+        type: 'waitForURL';
+        /**
+         * URL or URL glob pattern (e.g. `**\/dashboard`) to wait for.
+         */
+        url: string;
+      }
+    | {
+        type: 'waitForFunction';
+        /**
+         * JavaScript expression that is evaluated in the page until it returns a truthy value.
+         */
+        expression: string;
+      }
+  );
+
+const TIMEOUT_SCHEMA = { type: 'number', minimum: 0 };
+export const PAGE_ACTIONS_SCHEMA = {
+  type: 'array',
+  maxItems: MAX_ACTIONS,
+  items: {
+    oneOf: [
+      {
+        type: 'object',
+        properties: { type: { const: 'click' }, selector: { type: 'string' }, timeout: TIMEOUT_SCHEMA },
+        required: ['type', 'selector'],
+      },
+      {
+        type: 'object',
+        properties: {
+          type: { const: 'fill' },
+          selector: { type: 'string' },
+          value: { type: 'string' },
+          timeout: TIMEOUT_SCHEMA,
+        },
+        required: ['type', 'selector', 'value'],
+      },
+      {
+        type: 'object',
+        properties: {
+          type: { const: 'select' },
+          selector: { type: 'string' },
+          values: { type: 'array', items: { type: 'string' } },
+          timeout: TIMEOUT_SCHEMA,
+        },
+        required: ['type', 'selector', 'values'],
+      },
+      {
+        type: 'object',
+        properties: {
+          type: { const: 'press' },
+          key: { type: 'string' },
+          selector: { type: 'string' },
+          timeout: TIMEOUT_SCHEMA,
+        },
+        required: ['type', 'key'],
+      },
+      {
+        type: 'object',
+        properties: { type: { const: 'hover' }, selector: { type: 'string' }, timeout: TIMEOUT_SCHEMA },
+        required: ['type', 'selector'],
+      },
+      {
+        type: 'object',
+        properties: {
+          type: { const: 'scroll' },
+          selector: { type: 'string' },
+          x: { type: 'number' },
+          y: { type: 'number' },
+          timeout: TIMEOUT_SCHEMA,
+        },
+        required: ['type'],
+      },
+      {
+        type: 'object',
+        properties: {
+          type: { const: 'waitForSelector' },
+          selector: { type: 'string' },
+          state: { type: 'string', enum: ['attached', 'detached', 'visible', 'hidden'] },
+          timeout: TIMEOUT_SCHEMA,
+        },
+        required: ['type', 'selector'],
+      },
+      {
+        type: 'object',
+        properties: { type: { const: 'waitForURL' }, url: { type: 'string' }, timeout: TIMEOUT_SCHEMA },
+        required: ['type', 'url'],
+      },
+      {
+        type: 'object',
+        properties: { type: { const: 'waitForFunction' }, expression: { type: 'string' }, timeout: TIMEOUT_SCHEMA },
+        required: ['type', 'expression'],
+      },
+    ],
+  },
+};
+
+/**
+ * Performs actions on the page one by one, stops at the first failed action and returns a client error that names it.
+ */
+export async function runPageActions(
+  page: Page,
+  log: FastifyBaseLogger,
+  actions: PageAction[],
+): Promise<ApiResult<undefined>> {
+  for (const [index, action] of actions.entries()) {
+    const actionName = `#${index + 1} (${describePageAction(action)})`;
+    try {
+      log.debug(`Performing action ${actionName}.`);
+      await runPageAction(page, action);
+    } catch (err) {
+      const errorMessage = `Failed to perform action ${actionName} on page "${page.url()}": ${Diagnostics.errorMessage(
+        err,
+      )}`;
+      log.error(errorMessage);
+      return { type: 'client-error', error: errorMessage };
+    }
+  }
+
+  return { type: 'success', data: undefined };
+}
+
+async function runPageAction(page: Page, action: PageAction) {
+  const timeout = action.timeout ?? DEFAULT_ACTION_TIMEOUT_MS;
+  switch (action.type) {
+    case 'click':
+      return await page.locator(action.selector).click({ timeout });
+    case 'fill':
+      return await page.locator(action.selector).fill(action.value, { timeout });
+    case 'select':
+      return await page.locator(action.selector).selectOption(action.values, { timeout });
+    case 'press':
+      return action.selector
+        ? await page.locator(action.selector).press(action.key, { timeout })
+        : await page.keyboard.press(action.key);
+    case 'hover':
+      return await page.locator(action.selector).hover({ timeout });
+    case 'scroll': {
+      if (action.selector) {
+        return await page.locator(action.selector).scrollIntoViewIfNeeded({ timeout });
+      }
+
+      // Pass `window` handle as parameter to be able to shim/mock DOM APIs that aren't available in Node.js.
+      const targetWindow = await page.evaluateHandle<Window>('window');
+      return await page.evaluate(([targetWindow, x, y]) => targetWindow.scrollBy(x, y ?? targetWindow.innerHeight), [
+        targetWindow,
+        action.x ?? 0,
+        action.y,
+      ] as const);
+    }
+    case 'waitForSelector':
+      return await page.locator(action.selector).waitFor({ state: action.state, timeout });
+    case 'waitForURL':
+      return await page.waitForURL(action.url, { timeout });
+    case 'waitForFunction':
+      return await page.waitForFunction(action.expression, undefined, { timeout });
+  }
+}
+
+function describePageAction(action: PageAction) {
+  switch (action.type) {
+    case 'waitForURL':
+      return `${action.type} "${action.url}"`;
+    case 'waitForFunction':
+      return action.type;
+    default:
+      return action.selector ? `${action.type} "${action.selector}"` : action.type;
+  }
+}
@@ -0,0 +1,248 @@
+import type { BrowserContextOptions } from 'playwright';
+
+import type { BrowserContextLease } from '../../browser_pool.js';
+import type { ApiResult } from '../api_result.js';
+import type { ApiRouteParams } from '../api_route_params.js';
+
+// Version prefix of the opaque session state, allows changing the format without breaking existing session states.
+const SESSION_STATE_PREFIX = 'v1.';
+
+type StorageState = Exclude<BrowserContextOptions['storageState'], string | undefined>;
+
+/**
+ * Describes cookie that should be set in the browser context before the page is loaded.
+ */
+export interface WebPageAuthenticationCookie {
+  name: string;
+  value: string;
+  /**
+   * Either `url` or both `domain` and `path` are required.
+   */
+  url?: string;
+  domain?: string;
+  path?: string;
+  /**
+   * Unix timestamp (in seconds) when the cookie expires, the cookie is a session cookie if not specified.
+   */
+  expires?: number;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+}
+
+/**
+ * Describes client TLS certificate the browser should present to the server of the specific origin.
+ */
+export interface WebPageAuthenticationClientCertificate {
+  /**
+   * Exact origin (`https://host:port`) the certificate is presented to.
+   */
+  origin: string;
+  /**
+   * Certificate and its private key in PEM format, either both of them or `pfx` are required.
+   */
+  cert?: string;
+  key?: string;
+  /**
+   * Base64-encoded PFX (PKCS12) bundle with the private key and certificate chain.
+   */
+  pfx?: string;
+  /**
+   * Optional passphrase for the encrypted private key or PFX bundle.
+   */
+  passphrase?: string;
+}
+
+/**
+ * Describes how the browser should authenticate to the web page. Authentication details are never logged or cached.
+ */
+export interface WebPageAuthentication {
+  /**
+   * Credentials for HTTP Basic or Digest authentication, the scheme is negotiated with the server.
+   */
+  credentials?: {
+    username: string;
+    password: string;
+    /**
+     * Optional origin (`scheme://host:port`) to restrict sending credentials to.
+     */
+    origin?: string;
+  };
+
+  /**
+   * Optional list of cookies to inject into the browser context.
+   */
+  cookies?: WebPageAuthenticationCookie[];
+
+  /**
+   * Optional list of client TLS certificates (mutual TLS), not supported with outbound proxy.
+   */
+  clientCertificates?: WebPageAuthenticationClientCertificate[];
+
+  /**
+   * Optional Playwright storage state (cookies and local storage) to initialize the browser context with.
+   */
+  storageState?: StorageState;
+
+  /**
+   * Opaque session state returned by the `/api/web_page/session` endpoint. Takes precedence over `storageState`.
+   */
+  sessionState?: string;
+}
+
+const COOKIE_SCHEMA = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    value: { type: 'string' },
+    url: { type: 'string' },
+    domain: { type: 'string' },
+    path: { type: 'string' },
+    expires: { type: 'number' },
+    httpOnly: { type: 'boolean' },
+    secure: { type: 'boolean' },
+    sameSite: { type: 'string', enum: ['Strict', 'Lax', 'None'] },
+  },
+  required: ['name', 'value'],
+};
+
+const CLIENT_CERTIFICATE_SCHEMA = {
+  type: 'object',
+  properties: {
+    origin: { type: 'string' },
+    cert: { type: 'string' },
+    key: { type: 'string' },
+    pfx: { type: 'string' },
+    passphrase: { type: 'string' },
+  },
+  required: ['origin'],
+};
+
+export const AUTHENTICATION_SCHEMA = {
+  type: 'object',
+  properties: {
+    credentials: {
+      type: 'object',
+      properties: {
+        username: { type: 'string' },
+        password: { type: 'string' },
+        origin: { type: 'string' },
+      },
+      required: ['username', 'password'],
+    },
+    cookies: { type: 'array', items: COOKIE_SCHEMA },
+    clientCertificates: { type: 'array', items: CLIENT_CERTIFICATE_SCHEMA },
+    storageState: {
+      type: 'object',
+      properties: {
+        cookies: { type: 'array', items: { type: 'object', additionalProperties: true } },
+        origins: { type: 'array', items: { type: 'object', additionalProperties: true } },
+      },
+      required: ['cookies', 'origins'],
+    },
+    sessionState: { type: 'string' },
+  },
+};
+
+/**
+ * Serializes browser storage state into an opaque session state string.
+ */
+export function serializeSessionState(storageState: StorageState) {
+  return `${SESSION_STATE_PREFIX}${Buffer.from(JSON.stringify(storageState)).toString('base64url')}`;
+}
+
+/**
+ * Deserializes opaque session state string, throws if the session state is malformed.
+ */
+export function deserializeSessionState(sessionState: string): StorageState {
+  if (!sessionState.startsWith(SESSION_STATE_PREFIX)) {
+    throw new Error('Session state has unsupported format.');
+  }
+
+  let storageState: Partial<StorageState> | null;
+  try {
+    storageState = JSON.parse(
+      Buffer.from(sessionState.slice(SESSION_STATE_PREFIX.length), 'base64url').toString(),
+    ) as Partial<StorageState> | null;
+  } catch {
+    throw new Error('Session state is malformed.');
+  }
+
+  if (!Array.isArray(storageState?.cookies) || !Array.isArray(storageState?.origins)) {
+    throw new Error('Session state is malformed.');
+  }
+
+  return { cookies: storageState.cookies, origins: storageState.origins };
+}
+
+/**
+ * Acquires browser context with the specified authentication applied. Returns client error if authentication details
+ * are invalid, the error message never includes authentication details.
+ */
+export async function acquireAuthenticatedBrowserContext(
+  acquireBrowserContext: ApiRouteParams['acquireBrowserContext'],
+  contextOptions: BrowserContextOptions,
+  authentication?: WebPageAuthentication,
+): Promise<ApiResult<BrowserContextLease>> {
+  if (!authentication) {
+    return { type: 'success', data: await acquireBrowserContext(contextOptions) };
+  }
+
+  let storageState: StorageState | undefined;
+  try {
+    storageState = authentication.sessionState
+      ? deserializeSessionState(authentication.sessionState)
+      : authentication.storageState;
+  } catch (err) {
+    return { type: 'client-error', error: `Invalid authentication: ${(err as Error).message}` };
+  }
+
+  if (authentication.cookies?.some((cookie) => !cookie.url && (!cookie.domain || !cookie.path))) {
+    return {
+      type: 'client-error',
+      error: 'Invalid authentication: every cookie should have either "url" or "domain" and "path".',
+    };
+  }
+
+  const clientCertificates = authentication.clientCertificates ?? [];
+  if (clientCertificates.some(({ cert, key, pfx }) => (pfx ? cert || key : !cert || !key))) {
+    return {
+      type: 'client-error',
+      error: 'Invalid authentication: every client certificate should have either "cert" and "key", or "pfx".',
+    };
+  }
+
+  // Browser doesn't support client certificates for the connections established through the proxy.
+  if (clientCertificates.length > 0 && contextOptions.proxy) {
+    return {
+      type: 'client-error',
+      error: 'Invalid authentication: client certificates are not supported with outbound proxy.',
+    };
+  }
+
+  const lease = await acquireBrowserContext({
+    ...contextOptions,
+    ...(authentication.credentials ? { httpCredentials: authentication.credentials } : {}),
+    ...(clientCertificates.length > 0
+      ? {
+          clientCertificates: clientCertificates.map(({ origin, cert, key, pfx, passphrase }) => ({
+            origin,
+            ...(pfx ? { pfx: Buffer.from(pfx, 'base64') } : { cert: Buffer.from(cert!), key: Buffer.from(key!) }),
+            ...(passphrase !== undefined ? { passphrase } : {}),
+          })),
+        }
+      : {}),
+    ...(storageState ? { storageState } : {}),
+  });
+
+  if (authentication.cookies && authentication.cookies.length > 0) {
+    try {
+      await lease.context.addCookies(authentication.cookies);
+    } catch {
+      await lease.release();
+      return { type: 'client-error', error: 'Invalid authentication: cookies cannot be set.' };
+    }
+  }
+
+  return { type: 'success', data: lease };
+}
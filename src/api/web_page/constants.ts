@@ -7,3 +7,8 @@ export const DEFAULT_TIMEOUT_MS = 10000;
  * Default delay to wait after page load, in ms.
  */
 export const DEFAULT_DELAY_MS = 2000;
+
+/**
+ * Default timeout for a single page action, in ms.
+ */
+export const DEFAULT_ACTION_TIMEOUT_MS = 5000;
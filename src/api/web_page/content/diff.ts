@@ -0,0 +1,59 @@
+import { createTwoFilesPatch } from 'diff';
+import jsonPatch from 'fast-json-patch';
+import type { Operation } from 'fast-json-patch';
+import jsonStableStringify from 'fast-json-stable-stringify';
+
+/**
+ * Describes the difference between previous and current web page content. Text content (e.g. beautified HTML) is
+ * compared line by line and described with a unified diff, and any other JSON content is described with a JSON Patch
+ * (RFC 6902).
+ */
+export interface WebPageContentDiff {
+  changed: boolean;
+  unifiedDiff?: string;
+  jsonPatch?: Operation[];
+}
+
+// Number of unchanged lines to include around every changed hunk of the unified diff.
+const UNIFIED_DIFF_CONTEXT_LINES = 3;
+
+/**
+ * Compares serialized (JSON) previous and current web page content.
+ */
+export function diffWebPageContent(previousContent: string, currentContent: string): WebPageContentDiff {
+  const previous = parseContent(previousContent);
+  const current = parseContent(currentContent);
+  if (jsonStableStringify(previous) === jsonStableStringify(current)) {
+    return { changed: false };
+  }
+
+  if (typeof previous === 'string' && typeof current === 'string') {
+    return {
+      changed: true,
+      unifiedDiff: createTwoFilesPatch('previous', 'current', previous, current, undefined, undefined, {
+        context: UNIFIED_DIFF_CONTEXT_LINES,
+      }),
+    };
+  }
+
+  return {
+    changed: true,
+    jsonPatch:
+      isObject(previous) && isObject(current)
+        ? jsonPatch.compare(previous, current)
+        : [{ op: 'replace', path: '', value: current }],
+  };
+}
+
+function parseContent(content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch {
+    // Content that was produced outside the scraper may not be serialized, treat it as plain text then.
+    return content;
+  }
+}
+
+function isObject(value: unknown): value is object {
+  return typeof value === 'object' && value !== null;
+}
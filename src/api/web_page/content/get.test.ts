@@ -1,6 +1,7 @@
 import * as assert from 'node:assert';
 import { mock, test } from 'node:test';
 
+import { devices } from 'playwright';
 import type { Browser } from 'playwright/index.js';
 
 import { registerWebPageContentGetRoutes } from './get.js';
@@ -10,9 +11,12 @@ import {
   createBrowserContextMock,
   createBrowserMock,
   createCDPSessionMock,
+  createLocatorMock,
   createPageMock,
+  createResponseMock,
   createWindowMock,
 } from '../../../mocks.js';
+import type { LocatorMock } from '../../../mocks.js';
 import { createMock } from '../../api_route_params.mocks.js';
 
 await test('[/api/web_page/content] can successfully create route', () => {
@@ -45,7 +49,9 @@ await test('[/api/web_page/content] can extract content', async (t) => {
     response.body,
     JSON.stringify({
       timestamp: 123,
+      mode: 'browser',
       content: '"<body>\\n    <div>Hello Secutils.dev and world!</div>\\n    <div>Hello World</div>\\n</body>"',
+      cache: { hit: false, ageSec: 0 },
     }),
   );
 
@@ -156,7 +162,9 @@ await test('[/api/web_page/content] can inject content extractor', async (t) =>
     response.body,
     JSON.stringify({
       timestamp: 123,
+      mode: 'browser',
       content: '{"message":"HELLO"}',
+      cache: { hit: false, ageSec: 0 },
     }),
   );
 
@@ -226,3 +234,727 @@ await test('[/api/web_page/content] reports errors in content extractor', async
     { previous: 'previous', externalResources: [], responseHeaders: {} },
   ]);
 });
+
+await test('[/api/web_page/content] coalesces concurrent requests for the same page', async (t) => {
+  t.mock.method(Date, 'now', () => 123000);
+
+  const pageMock = createPageMock({ content: '<body><div>Hello Secutils.dev and world!</div></body>' });
+  const browserContextMock = createBrowserContextMock(pageMock);
+  const browserMock = createBrowserMock(browserContextMock);
+
+  const routeParamsMock = createMock({ browser: browserMock as unknown as Browser });
+  const route = registerWebPageContentGetRoutes(routeParamsMock);
+  const responses = await Promise.all([
+    route.inject({ method: 'POST', url: '/api/web_page/content', payload: { url: 'https://secutils.dev', delay: 0 } }),
+    route.inject({ method: 'POST', url: '/api/web_page/content', payload: { url: 'https://secutils.dev', delay: 0 } }),
+  ]);
+
+  for (const response of responses) {
+    assert.strictEqual(response.statusCode, 200);
+    assert.strictEqual(
+      response.body,
+      JSON.stringify({
+        timestamp: 123,
+        mode: 'browser',
+        content: '"<body>\\n    <div>Hello Secutils.dev and world!</div>\\n</body>"',
+        cache: { hit: false, ageSec: 0 },
+      }),
+    );
+  }
+
+  // Make sure we loaded the page only once.
+  assert.strictEqual(routeParamsMock.acquireBrowserContext.mock.callCount(), 1);
+  assert.strictEqual(pageMock.goto.mock.callCount(), 1);
+});
+
+await test('[/api/web_page/content] respects request cache policy', async (t) => {
+  const dateNowMock = t.mock.method(Date, 'now', () => 123000);
+
+  const pageMock = createPageMock({ content: '<body><div>Hello Secutils.dev and world!</div></body>' });
+  const routeParamsMock = createMock({
+    browser: createBrowserMock(createBrowserContextMock(pageMock)) as unknown as Browser,
+  });
+  const route = registerWebPageContentGetRoutes(routeParamsMock);
+  const fetchContent = (cache?: Record<string, unknown>) =>
+    route.inject({
+      method: 'POST',
+      url: '/api/web_page/content',
+      payload: { url: 'https://secutils.dev', delay: 0, cache },
+    });
+
+  const content = '"<body>\\n    <div>Hello Secutils.dev and world!</div>\\n</body>"';
+  let response = await fetchContent();
+  assert.strictEqual(
+    response.body,
+    JSON.stringify({ timestamp: 123, mode: 'browser', content, cache: { hit: false, ageSec: 0 } }),
+  );
+
+  // Fresh enough entry should be served from cache.
+  dateNowMock.mock.mockImplementation(() => 183000);
+  response = await fetchContent({ maxAgeSec: 60 });
+  assert.strictEqual(
+    response.body,
+    JSON.stringify({ timestamp: 123, mode: 'browser', content, cache: { hit: true, ageSec: 60 } }),
+  );
+  assert.strictEqual(pageMock.goto.mock.callCount(), 1);
+
+  // Too old entry should be re-fetched.
+  response = await fetchContent({ maxAgeSec: 30 });
+  assert.strictEqual(
+    response.body,
+    JSON.stringify({ timestamp: 183, mode: 'browser', content, cache: { hit: false, ageSec: 0 } }),
+  );
+  assert.strictEqual(pageMock.goto.mock.callCount(), 2);
+
+  // Bypassed cache should always be re-fetched.
+  response = await fetchContent({ bypass: true });
+  assert.strictEqual(
+    response.body,
+    JSON.stringify({ timestamp: 183, mode: 'browser', content, cache: { hit: false, ageSec: 0 } }),
+  );
+  assert.strictEqual(pageMock.goto.mock.callCount(), 3);
+});
+
+await test('[/api/web_page/content] can diff content against previous content', async (t) => {
+  t.mock.method(Date, 'now', () => 123000);
+
+  const pageMock = createPageMock({ content: '<body><div>Hello Secutils.dev and world!</div></body>' });
+  const route = registerWebPageContentGetRoutes(
+    createMock({ browser: createBrowserMock(createBrowserContextMock(pageMock)) as unknown as Browser }),
+  );
+
+  let response = await route.inject({
+    method: 'POST',
+    url: '/api/web_page/content',
+    payload: {
+      url: 'https://secutils.dev',
+      delay: 0,
+      diff: true,
+      previousContent: JSON.stringify('<body>\n    <div>Hello Secutils.dev and World!</div>\n</body>'),
+    },
+  });
+
+  assert.strictEqual(response.statusCode, 200);
+  assert.deepStrictEqual((JSON.parse(response.body) as { diff: unknown }).diff, {
+    changed: true,
+    unifiedDiff: [
+      '===================================================================',
+      '--- previous',
+      '+++ current',
+      '@@ -1,3 +1,3 @@',
+      ' <body>',
+      '-    <div>Hello Secutils.dev and World!</div>',
+      '+    <div>Hello Secutils.dev and world!</div>',
+      ' </body>',
+      '\\ No newline at end of file',
+      '',
+    ].join('\n'),
+  });
+
+  response = await route.inject({
+    method: 'POST',
+    url: '/api/web_page/content',
+    payload: {
+      url: 'https://secutils.dev',
+      delay: 0,
+      diff: true,
+      previousContent: JSON.stringify('<body>\n    <div>Hello Secutils.dev and world!</div>\n</body>'),
+    },
+  });
+  assert.deepStrictEqual((JSON.parse(response.body) as { diff: unknown }).diff, { changed: false });
+});
+
+await test('[/api/web_page/content] can diff extracted JSON content against previous content', async (t) => {
+  t.mock.method(Date, 'now', () => 123000);
+
+  const windowMock = createWindowMock({
+    __secutils: { extractContent: mock.fn(() => Promise.resolve({ message: 'HELLO', items: [1, 3] })) },
+  });
+  const pageMock = createPageMock({ window: windowMock });
+  const response = await registerWebPageContentGetRoutes(
+    createMock({ browser: createBrowserMock(createBrowserContextMock(pageMock)) as unknown as Browser }),
+  ).inject({
+    method: 'POST',
+    url: '/api/web_page/content',
+    payload: {
+      url: 'https://secutils.dev',
+      delay: 0,
+      diff: true,
+      previousContent: '{"items":[1,2],"message":"hello","removed":true}',
+      scripts: { extractContent: 'script' },
+    },
+  });
+
+  assert.strictEqual(response.statusCode, 200);
+  assert.deepStrictEqual((JSON.parse(response.body) as { diff: unknown }).diff, {
+    changed: true,
+    jsonPatch: [
+      { op: 'remove', path: '/removed' },
+      { op: 'replace', path: '/message', value: 'HELLO' },
+      { op: 'replace', path: '/items/1', value: 3 },
+    ],
+  });
+});
+
+await test('[/api/web_page/content] can audit security headers', async () => {
+  const pageMock = createPageMock();
+  const responseMock = createResponseMock({ url: 'https://secutils.dev', type: 'document' });
+  responseMock.allHeaders.mock.mockImplementation(() =>
+    Promise.resolve({
+      'content-security-policy': "default-src 'self'; script-src 'self' 'unsafe-inline'; object-src 'none'",
+      'strict-transport-security': 'max-age=31536000',
+      'x-frame-options': 'DENY',
+      'x-content-type-options': 'nosniff',
+      'referrer-policy': 'strict-origin-when-cross-origin',
+      'permissions-policy': 'camera=(), geolocation=(self)',
+      'cross-origin-opener-policy': 'same-origin',
+      'cross-origin-embedder-policy': 'require-corp',
+      'cross-origin-resource-policy': 'same-origin',
+      'set-cookie': 'sid=1; Secure; HttpOnly; SameSite=Lax\ntracker=2; SameSite=None',
+    }),
+  );
+  pageMock.goto.mock.mockImplementation(() => Promise.resolve(responseMock));
+
+  const response = await registerWebPageContentGetRoutes(
+    createMock({ browser: createBrowserMock(createBrowserContextMock(pageMock)) as unknown as Browser }),
+  ).inject({
+    method: 'POST',
+    url: '/api/web_page/content',
+    payload: { url: 'https://secutils.dev', delay: 0, auditHeaders: true },
+  });
+
+  assert.strictEqual(response.statusCode, 200);
+  assert.deepStrictEqual((JSON.parse(response.body) as { securityHeaders: unknown }).securityHeaders, {
+    grade: 'D',
+    score: 65,
+    findings: [
+      {
+        header: 'content-security-policy',
+        severity: 'medium',
+        message: 'Inline scripts are allowed ("script-src").',
+      },
+      { header: 'content-security-policy', severity: 'low', message: 'Base URL is not restricted ("base-uri").' },
+      {
+        header: 'strict-transport-security',
+        severity: 'low',
+        message: 'Subdomains are not covered ("includeSubDomains").',
+      },
+      { header: 'set-cookie', severity: 'high', message: 'Cookie "tracker" has "SameSite=None" without "Secure".' },
+      { header: 'set-cookie', severity: 'low', message: 'Cookie "tracker" is missing "HttpOnly" attribute.' },
+    ],
+  });
+});
+
+await test('[/api/web_page/content] can audit cookies', async () => {
+  const firstPartyResponse = createResponseMock({ url: 'https://secutils.dev/', type: 'document' });
+  firstPartyResponse.allHeaders.mock.mockImplementation(() =>
+    Promise.resolve({ 'set-cookie': 'sid=1; Secure; HttpOnly; Path=/' }),
+  );
+  const thirdPartyResponse = createResponseMock({ url: 'https://ads.tracker.com/pixel.js', type: 'script' });
+  thirdPartyResponse.allHeaders.mock.mockImplementation(() =>
+    Promise.resolve({
+      'set-cookie': 'uid=2; Domain=.tracker.com; SameSite=None; Expires=Wed, 21 Oct 2037 07:28:00 GMT',
+    }),
+  );
+
+  const pageMock = createPageMock({ responses: [firstPartyResponse, thirdPartyResponse] });
+  const browserContextMock = createBrowserContextMock(pageMock);
+  browserContextMock.cookies.mock.mockImplementation(() =>
+    Promise.resolve([
+      {
+        name: 'sid',
+        value: '1',
+        domain: 'secutils.dev',
+        path: '/',
+        expires: -1,
+        httpOnly: true,
+        secure: true,
+        sameSite: 'Lax',
+      },
+      {
+        name: '__Host-session',
+        value: '3',
+        domain: '.app.secutils.dev',
+        path: '/',
+        expires: 2139722880.5,
+        httpOnly: false,
+        secure: true,
+        sameSite: 'Strict',
+      },
+    ]),
+  );
+
+  const response = await registerWebPageContentGetRoutes(
+    createMock({ browser: createBrowserMock(browserContextMock) as unknown as Browser }),
+  ).inject({
+    method: 'POST',
+    url: '/api/web_page/content',
+    payload: { url: 'https://secutils.dev', delay: 0, auditCookies: true },
+  });
+
+  assert.strictEqual(response.statusCode, 200);
+  assert.deepStrictEqual((JSON.parse(response.body) as { cookies: unknown }).cookies, [
+    {
+      name: 'sid',
+      domain: 'secutils.dev',
+      hostOnly: true,
+      path: '/',
+      secure: true,
+      httpOnly: true,
+      sameSite: 'Lax',
+      party: 'first-party',
+      stored: true,
+      flags: [],
+    },
+    {
+      name: '__Host-session',
+      domain: 'app.secutils.dev',
+      hostOnly: false,
+      path: '/',
+      expires: 2139722880,
+      secure: true,
+      httpOnly: false,
+      sameSite: 'Strict',
+      party: 'first-party',
+      stored: true,
+      flags: ['host-prefix-invalid'],
+    },
+    {
+      name: 'uid',
+      domain: 'tracker.com',
+      hostOnly: false,
+      path: '/',
+      expires: 2139722880,
+      secure: false,
+      httpOnly: false,
+      sameSite: 'None',
+      party: 'third-party',
+      stored: false,
+      flags: ['samesite-none-without-secure', 'missing-secure'],
+    },
+  ]);
+});
+
+await test('[/api/web_page/content] audits cookies against the redirected page', async () => {
+  const documentResponse = createResponseMock({
+    url: 'https://secutils.dev/',
+    type: 'document',
+    headers: { 'set-cookie': 'sid=; Path=/; Max-Age=0\nlegacy=; Path=/; Expires=Thu, 01 Jan 1970 00:00:00 GMT' },
+  });
+
+  const pageMock = createPageMock({ responses: [documentResponse] });
+  pageMock.goto.mock.mockImplementation(() => Promise.resolve(documentResponse));
+  const browserContextMock = createBrowserContextMock(pageMock);
+  browserContextMock.cookies.mock.mockImplementation(() =>
+    Promise.resolve([
+      {
+        name: 'lang',
+        value: 'en',
+        domain: 'secutils.dev',
+        path: '/',
+        expires: -1,
+        httpOnly: false,
+        secure: false,
+        sameSite: 'Lax',
+      },
+    ]),
+  );
+
+  const response = await registerWebPageContentGetRoutes(
+    createMock({ browser: createBrowserMock(browserContextMock) as unknown as Browser }),
+  ).inject({
+    method: 'POST',
+    url: '/api/web_page/content',
+    payload: { url: 'http://secutils.com', delay: 0, auditCookies: true },
+  });
+
+  // Cookie belongs to the site of the final document served over HTTPS, and deleted cookies aren't reported.
+  assert.strictEqual(response.statusCode, 200);
+  assert.deepStrictEqual((JSON.parse(response.body) as { cookies: unknown }).cookies, [
+    {
+      name: 'lang',
+      domain: 'secutils.dev',
+      hostOnly: true,
+      path: '/',
+      secure: false,
+      httpOnly: false,
+      sameSite: 'Lax',
+      party: 'first-party',
+      stored: true,
+      flags: ['missing-secure'],
+    },
+  ]);
+});
+
+await test('[/api/web_page/content] can include TLS details', async (t) => {
+  t.mock.method(Date, 'now', () => 1700000000000);
+
+  const cdpSessionMock = createCDPSessionMock();
+  const pageMock = createPageMock();
+  const responseMock = createResponseMock({ url: 'https://secutils.dev/', type: 'document' });
+  responseMock.securityDetails.mock.mockImplementation(() =>
+    Promise.resolve({
+      protocol: 'TLS 1.3',
+      issuer: 'R3',
+      subjectName: 'secutils.dev',
+      validFrom: 1690000000,
+      validTo: 1705000000,
+    }),
+  );
+  pageMock.goto.mock.mockImplementation(() => {
+    // Browser reports security details via CDP while the page is loading.
+    const responseReceivedCall = cdpSessionMock.on.mock.calls.find(
+      ({ arguments: [eventName] }) => eventName === 'Network.responseReceived',
+    );
+    void responseReceivedCall?.arguments[1]({
+      type: 'Document',
+      response: {
+        url: 'https://secutils.dev/',
+        securityDetails: {
+          sanList: ['secutils.dev', '*.secutils.dev'],
+          cipher: 'AES_128_GCM',
+          keyExchange: '',
+        },
+      },
+    });
+    return Promise.resolve(responseMock);
+  });
+
+  const response = await registerWebPageContentGetRoutes(
+    createMock({
+      browser: createBrowserMock(createBrowserContextMock(pageMock, cdpSessionMock)) as unknown as Browser,
+    }),
+  ).inject({
+    method: 'POST',
+    url: '/api/web_page/content',
+    payload: { url: 'https://secutils.dev', delay: 0, includeTlsDetails: true },
+  });
+
+  assert.strictEqual(response.statusCode, 200);
+  assert.deepStrictEqual((JSON.parse(response.body) as { tlsDetails: unknown }).tlsDetails, {
+    protocol: 'TLS 1.3',
+    issuer: 'R3',
+    subject: 'secutils.dev',
+    sanList: ['secutils.dev', '*.secutils.dev'],
+    validFrom: 1690000000,
+    validTo: 1705000000,
+    daysToExpiry: 57,
+    cipher: 'AES_128_GCM',
+  });
+  assert.deepEqual(cdpSessionMock.send.mock.calls[3].arguments, ['Network.enable']);
+
+  // Security details are collected while the page is still open, they aren't accessible once it's closed.
+  assert.strictEqual(responseMock.securityDetails.mock.callCount(), 1);
+  assert.strictEqual(pageMock.close.mock.callCount(), 1);
+  await assert.rejects(() => responseMock.securityDetails(), /Target page, context or browser has been closed/);
+});
+
+await test('[/api/web_page/content] can perform actions before extracting content', async () => {
+  const locators: LocatorMock[] = [];
+  const pageMock = createPageMock({ content: '<body>Loaded more</body>' });
+  pageMock.locator.mock.mockImplementation((selector: string) => {
+    const locatorMock = createLocatorMock(selector);
+    locators.push(locatorMock);
+    return locatorMock;
+  });
+
+  const response = await registerWebPageContentGetRoutes(
+    createMock({ browser: createBrowserMock(createBrowserContextMock(pageMock)) as unknown as Browser }),
+  ).inject({
+    method: 'POST',
+    url: '/api/web_page/content',
+    payload: {
+      url: 'https://secutils.dev',
+      delay: 0,
+      actions: [
+        { type: 'fill', selector: '#search', value: 'secutils' },
+        { type: 'press', key: 'Enter' },
+        { type: 'click', selector: '.load-more', timeout: 1000 },
+        { type: 'waitForURL', url: '**/results' },
+        { type: 'waitForSelector', selector: '.results', state: 'visible' },
+      ],
+    },
+  });
+
+  assert.strictEqual(response.statusCode, 200);
+  assert.strictEqual((JSON.parse(response.body) as { content: string }).content, '"<body>Loaded more</body>"');
+
+  // Every action should be performed in order with its own timeout.
+  assert.deepStrictEqual(
+    locators.map(({ selector }) => selector),
+    ['#search', '.load-more', '.results'],
+  );
+  assert.deepStrictEqual(locators[0].fill.mock.calls[0].arguments, ['secutils', { timeout: 5000 }]);
+  assert.deepStrictEqual(pageMock.keyboard.press.mock.calls[0].arguments, ['Enter']);
+  assert.deepStrictEqual(locators[1].click.mock.calls[0].arguments, [{ timeout: 1000 }]);
+  assert.deepStrictEqual(pageMock.waitForURL.mock.calls[0].arguments, ['**/results', { timeout: 5000 }]);
+  assert.deepStrictEqual(locators[2].waitFor.mock.calls[0].arguments, [{ state: 'visible', timeout: 5000 }]);
+});
+
+await test('[/api/web_page/content] reports failed actions', async () => {
+  const pageMock = createPageMock();
+  pageMock.locator.mock.mockImplementation((selector: string) => {
+    const locatorMock = createLocatorMock(selector);
+    locatorMock.click.mock.mockImplementation(() => Promise.reject(new Error('Timeout 1000ms exceeded.')));
+    return locatorMock;
+  });
+
+  const response = await registerWebPageContentGetRoutes(
+    createMock({ browser: createBrowserMock(createBrowserContextMock(pageMock)) as unknown as Browser }),
+  ).inject({
+    method: 'POST',
+    url: '/api/web_page/content',
+    payload: {
+      url: 'https://secutils.dev',
+      delay: 0,
+      actions: [
+        { type: 'scroll', selector: '.footer' },
+        { type: 'click', selector: '.load-more', timeout: 1000 },
+        { type: 'hover', selector: '.menu' },
+      ],
+    },
+  });
+
+  assert.strictEqual(response.statusCode, 400);
+  assert.strictEqual(
+    response.body,
+    JSON.stringify({
+      message:
+        'Failed to perform action #2 (click ".load-more") on page "https://secutils.dev/": Timeout 1000ms exceeded.',
+    }),
+  );
+});
+
+await test('[/api/web_page/content] can load page through proxy', async () => {
+  const defaultProxy = { server: 'http://proxy.secutils.dev:3128', username: 'user', password: 'secret' };
+  const routeParams = createMock({ config: { ...configure(), proxy: defaultProxy } });
+  const route = registerWebPageContentGetRoutes(routeParams);
+  const getCacheStatus = async (proxy?: unknown) => {
+    const response = await route.inject({
+      method: 'POST',
+      url: '/api/web_page/content',
+      payload: { url: 'https://secutils.dev', delay: 0, proxy },
+    });
+    assert.strictEqual(response.statusCode, 200);
+    return (JSON.parse(response.body) as { cache: { hit: boolean } }).cache.hit;
+  };
+
+  // Proxy identity is a part of the cache key.
+  const euProxy = { server: 'socks5://eu.proxy.secutils.dev:1080', bypass: '.secutils.dev' };
+  assert.strictEqual(await getCacheStatus(), false);
+  assert.strictEqual(await getCacheStatus(), true);
+  assert.strictEqual(await getCacheStatus(euProxy), false);
+  assert.strictEqual(await getCacheStatus(euProxy), true);
+
+  // Responses fetched with different proxy credentials aren't shared.
+  assert.strictEqual(await getCacheStatus({ ...defaultProxy, password: 'another-secret' }), false);
+  assert.strictEqual(await getCacheStatus({ ...defaultProxy, password: 'another-secret' }), true);
+
+  assert.strictEqual(routeParams.acquireBrowserContext.mock.callCount(), 3);
+  assert.deepEqual(routeParams.acquireBrowserContext.mock.calls[0].arguments, [
+    { extraHTTPHeaders: undefined, bypassCSP: false, userAgent: undefined, proxy: defaultProxy },
+  ]);
+  assert.deepEqual(routeParams.acquireBrowserContext.mock.calls[1].arguments, [
+    { extraHTTPHeaders: undefined, bypassCSP: false, userAgent: undefined, proxy: euProxy },
+  ]);
+
+  // SOCKS5 proxy authentication isn't supported.
+  const response = await route.inject({
+    method: 'POST',
+    url: '/api/web_page/content',
+    payload: { url: 'https://secutils.dev', delay: 0, proxy: { ...euProxy, username: 'user', password: 'secret' } },
+  });
+  assert.strictEqual(response.statusCode, 400);
+});
+
+await test('[/api/web_page/content] can emulate device and environment', async () => {
+  const routeParams = createMock({ config: { ...configure(), userAgent: 'secutils/1.0' } });
+  const route = registerWebPageContentGetRoutes(routeParams);
+  const getCacheStatus = async (emulation?: unknown) => {
+    const response = await route.inject({
+      method: 'POST',
+      url: '/api/web_page/content',
+      payload: { url: 'https://secutils.dev', delay: 0, emulation },
+    });
+    assert.strictEqual(response.statusCode, 200);
+    return (JSON.parse(response.body) as { cache: { hit: boolean } }).cache.hit;
+  };
+
+  // Emulation options are a part of the cache key.
+  const emulation = {
+    device: 'iPhone 13',
+    viewport: { width: 800, height: 600 },
+    locale: 'de-DE',
+    timezoneId: 'Europe/Berlin',
+    geolocation: { latitude: 52.52, longitude: 13.405 },
+    colorScheme: 'dark',
+    reducedMotion: 'reduce',
+    javaScriptEnabled: false,
+  };
+  assert.strictEqual(await getCacheStatus(), false);
+  assert.strictEqual(await getCacheStatus(emulation), false);
+  assert.strictEqual(await getCacheStatus(emulation), true);
+
+  assert.strictEqual(routeParams.acquireBrowserContext.mock.callCount(), 2);
+  assert.deepEqual(routeParams.acquireBrowserContext.mock.calls[0].arguments, [
+    { extraHTTPHeaders: undefined, bypassCSP: false, userAgent: 'secutils/1.0' },
+  ]);
+
+  // Device preset overrides default user agent, explicit options override device preset.
+  const { defaultBrowserType, ...iPhone } = devices['iPhone 13'];
+  assert.strictEqual(defaultBrowserType, 'webkit');
+  assert.deepEqual(routeParams.acquireBrowserContext.mock.calls[1].arguments, [
+    {
+      extraHTTPHeaders: undefined,
+      bypassCSP: false,
+      ...iPhone,
+      viewport: { width: 800, height: 600 },
+      locale: 'de-DE',
+      timezoneId: 'Europe/Berlin',
+      geolocation: { latitude: 52.52, longitude: 13.405 },
+      permissions: ['geolocation'],
+      colorScheme: 'dark',
+      reducedMotion: 'reduce',
+      javaScriptEnabled: false,
+    },
+  ]);
+
+  // Unknown device presets are rejected.
+  const response = await route.inject({
+    method: 'POST',
+    url: '/api/web_page/content',
+    payload: { url: 'https://secutils.dev', delay: 0, emulation: { device: 'Nokia 3310' } },
+  });
+  assert.strictEqual(response.statusCode, 400);
+});
+
+await test('[/api/web_page/content] can extract content from static page', async (t) => {
+  t.mock.method(Date, 'now', () => 123000);
+  const fetchMock = t.mock.method(globalThis, 'fetch', () =>
+    Promise.resolve(
+      new Response('<body><div>Hello Secutils.dev and world!</div><div>Hello World</div></body>', {
+        headers: { 'x-frame-options': 'DENY' },
+      }),
+    ),
+  );
+
+  const routeParams = createMock();
+  const route = registerWebPageContentGetRoutes(routeParams);
+  const response = await route.inject({
+    method: 'POST',
+    url: '/api/web_page/content',
+    payload: { url: 'https://secutils.dev', mode: 'static', headers: { 'User-Agent': 'secutils/2.0' } },
+  });
+
+  assert.strictEqual(response.statusCode, 200);
+  assert.strictEqual(
+    response.body,
+    JSON.stringify({
+      timestamp: 123,
+      mode: 'static',
+      content: '"<body>\\n    <div>Hello Secutils.dev and world!</div>\\n    <div>Hello World</div>\\n</body>"',
+      cache: { hit: false, ageSec: 0 },
+    }),
+  );
+
+  assert.strictEqual(routeParams.acquireBrowserContext.mock.callCount(), 0);
+  assert.strictEqual(fetchMock.mock.callCount(), 1);
+  assert.strictEqual(fetchMock.mock.calls[0].arguments[0], 'https://secutils.dev');
+  assert.strictEqual(
+    (fetchMock.mock.calls[0].arguments[1] as { headers: Headers }).headers.get('user-agent'),
+    'secutils/2.0',
+  );
+
+  // Static mode shouldn't silently bypass the outbound proxy.
+  const proxyResponse = await registerWebPageContentGetRoutes(
+    createMock({ config: { ...configure(), proxy: { server: 'http://proxy.secutils.dev:3128' } } }),
+  ).inject({
+    method: 'POST',
+    url: '/api/web_page/content',
+    payload: { url: 'https://secutils.dev', mode: 'static' },
+  });
+  assert.strictEqual(proxyResponse.statusCode, 400);
+  assert.strictEqual(
+    proxyResponse.body,
+    JSON.stringify({ message: 'Static mode is not supported when outbound proxy is configured.' }),
+  );
+});
+
+await test('[/api/web_page/content] audits security headers of the redirected page', async (t) => {
+  const headers = {
+    'content-security-policy': "default-src 'self'; object-src 'none'; base-uri 'none'",
+    'strict-transport-security': 'max-age=31536000; includeSubDomains',
+  };
+
+  // Browser mode: page requested over HTTP is redirected to HTTPS.
+  const pageMock = createPageMock();
+  const responseMock = createResponseMock({ url: 'https://secutils.dev/', type: 'document', headers });
+  pageMock.goto.mock.mockImplementation(() => Promise.resolve(responseMock));
+  const route = registerWebPageContentGetRoutes(
+    createMock({ browser: createBrowserMock(createBrowserContextMock(pageMock)) as unknown as Browser }),
+  );
+  const getFindings = async (mode: string) => {
+    const response = await route.inject({
+      method: 'POST',
+      url: '/api/web_page/content',
+      payload: { url: 'http://secutils.dev', mode, delay: 0, auditHeaders: true },
+    });
+    assert.strictEqual(response.statusCode, 200);
+    return (JSON.parse(response.body) as { securityHeaders: { findings: Array<{ header: string }> } }).securityHeaders
+      .findings;
+  };
+
+  const hstsFindings = (findings: Array<{ header: string }>) =>
+    findings.filter(({ header }) => header === 'strict-transport-security');
+  assert.deepStrictEqual(hstsFindings(await getFindings('browser')), []);
+
+  // Static mode: fetch follows the redirect and reports the final URL.
+  t.mock.method(globalThis, 'fetch', () => {
+    const response = new Response('<body></body>', { headers });
+    Object.defineProperty(response, 'url', { value: 'https://secutils.dev/' });
+    return Promise.resolve(response);
+  });
+  assert.deepStrictEqual(hstsFindings(await getFindings('static')), []);
+});
+
+await test('[/api/web_page/content] rejects too large static page', async (t) => {
+  const route = registerWebPageContentGetRoutes(createMock());
+  const fetchContent = async () => {
+    const response = await route.inject({
+      method: 'POST',
+      url: '/api/web_page/content',
+      payload: { url: 'https://secutils.dev', mode: 'static', cache: { bypass: true } },
+    });
+    assert.strictEqual(response.statusCode, 400);
+    return (JSON.parse(response.body) as { message: string }).message;
+  };
+
+  // Size is known from the `Content-Length` header.
+  const fetchMock = t.mock.method(globalThis, 'fetch', () =>
+    Promise.resolve(new Response('<body></body>', { headers: { 'content-length': `${1024 * 1024 * 10}` } })),
+  );
+  assert.strictEqual(
+    await fetchContent(),
+    'Failed to load page "https://secutils.dev": Response body is too large (10485760 bytes, max: 5242880 bytes).',
+  );
+
+  // Size is only known once enough of the body is received.
+  let receivedChunks = 0;
+  fetchMock.mock.mockImplementation(() =>
+    Promise.resolve(
+      new Response(
+        new ReadableStream({
+          pull(controller) {
+            receivedChunks++;
+            controller.enqueue(new Uint8Array(1024 * 1024));
+          },
+        }),
+      ),
+    ),
+  );
+  assert.strictEqual(
+    await fetchContent(),
+    'Failed to load page "https://secutils.dev": Response body is too large (more than 5242880 bytes).',
+  );
+  assert.ok(receivedChunks < 10);
+});
@@ -1,24 +1,58 @@
 import { createHash } from 'node:crypto';
-import { setTimeout as setTimeoutAsync } from 'timers/promises';
 
 import jsonStableStringify from 'fast-json-stable-stringify';
 import type { FastifyBaseLogger } from 'fastify';
 import jsBeautify from 'js-beautify';
-import type { Browser, JSHandle, Page, Response } from 'playwright';
+import type { BrowserContext, JSHandle, Page } from 'playwright';
 
+import { diffWebPageContent } from './diff.js';
 import type { WebPageContext } from './web_page_context.js';
-import type { Config } from '../../../config.js';
 import { createObjectHash } from '../../../utilities/index.js';
 import type { ApiResult } from '../../api_result.js';
 import type { ApiRouteParams } from '../../api_route_params.js';
+import type { CachePolicy } from '../../cache_policy.js';
+import { CACHE_POLICY_SCHEMA, CACHE_STATUS_SCHEMA } from '../../cache_policy.js';
+import { CachedFetcher } from '../../cached_fetcher.js';
 import { Diagnostics } from '../../diagnostics.js';
-import { DEFAULT_DELAY_MS, DEFAULT_TIMEOUT_MS } from '../constants.js';
+import type { PageAction } from '../actions.js';
+import { PAGE_ACTIONS_SCHEMA } from '../actions.js';
+import type { WebPageAuthentication } from '../authentication.js';
+import { acquireAuthenticatedBrowserContext, AUTHENTICATION_SCHEMA } from '../authentication.js';
+import { DEFAULT_TIMEOUT_MS } from '../constants.js';
+import type { SetCookieHeader, WebPageCookie } from '../cookies.js';
+import { COOKIES_SCHEMA, inventoryCookies } from '../cookies.js';
+import type { CspViolation, CspViolationCollectorOptions } from '../csp_violation_collector.js';
+import { CSP_VIOLATIONS_SCHEMA, CspViolationCollector } from '../csp_violation_collector.js';
+import type { WebPageEmulation } from '../emulation.js';
+import { EMULATION_SCHEMA, getEmulationContextOptions } from '../emulation.js';
 import { FetchInterceptor } from '../fetch_interceptor.js';
 import type { SecutilsWindow } from '../index.js';
+import { loadPage } from '../navigation.js';
+import type { WebPageProxy } from '../proxy.js';
+import { getProxyIdentity, PROXY_SCHEMA } from '../proxy.js';
+import type { SecurityHeadersAudit } from '../security_headers.js';
+import { auditSecurityHeaders, SECURITY_HEADERS_AUDIT_SCHEMA } from '../security_headers.js';
+import type { WebPageMode } from '../static_page.js';
+import { fetchStaticPage, WEB_PAGE_MODE_SCHEMA } from '../static_page.js';
+import type { TlsDetails } from '../tls_details.js';
+import { TLS_DETAILS_SCHEMA, TlsDetailsCollector } from '../tls_details.js';
 
 // Maximum size of the content in bytes (200KB).
 const MAX_CONTENT_SIZE_BYTES = 1024 * 200;
 
+// Options that require a browser and hence aren't supported in the static mode.
+const BROWSER_ONLY_OPTIONS = [
+  'waitSelector',
+  'actions',
+  'scripts',
+  'authentication',
+  'proxy',
+  'emulation',
+  'cspViolations',
+  'auditCookies',
+  'includeTlsDetails',
+] as const;
+
 /**
  * Defines type of the input parameters.
  */
@@ -28,6 +62,13 @@ interface InputBodyParamsType {
    */
   url: string;
 
+  /**
+   * Defines how the page is loaded. In `static` mode the document is fetched over plain HTTP without a browser, which
+   * is much faster, but the content is the document HTML as served, before any scripts run. Options that require a
+   * browser aren't supported in this mode. Default is `browser`.
+   */
+  mode?: WebPageMode;
+
   /**
    * Number of milliseconds to wait until page enters "idle" state. Default is 10000ms.
    */
@@ -43,6 +84,11 @@ interface InputBodyParamsType {
    */
   waitSelector?: string;
 
+  /**
+   * Optional list of actions (e.g. clicks or form inputs) to perform on the page before extracting anything from it.
+   */
+  actions?: PageAction[];
+
   /**
    * Optional web page content that has been extracted previously.
    */
@@ -63,6 +109,54 @@ interface InputBodyParamsType {
    * Optional list of HTTP headers that should be sent with the tracker requests.
    */
   headers?: Record<string, string>;
+
+  /**
+   * Optional authentication details (HTTP credentials, cookies or session state). Requests with authentication details
+   * bypass the cache.
+   */
+  authentication?: WebPageAuthentication;
+
+  /**
+   * Optional outbound proxy to load the page through. If not specified, the server-wide default proxy is used, if any.
+   */
+  proxy?: WebPageProxy;
+
+  /**
+   * Optional device and environment emulation, e.g. device preset, viewport, locale or time zone.
+   */
+  emulation?: WebPageEmulation;
+
+  /**
+   * Optional cache policy for the request.
+   */
+  cache?: CachePolicy;
+
+  /**
+   * If `true` and `previousContent` is specified, the response will include the diff between previous and extracted
+   * content.
+   */
+  diff?: boolean;
+
+  /**
+   * If `true`, the response will include the audit of the security headers of the web page main document response.
+   */
+  auditHeaders?: boolean;
+
+  /**
+   * If specified, the response will include Content Security Policy violations observed during page load.
+   */
+  cspViolations?: CspViolationCollectorOptions;
+
+  /**
+   * If `true`, the response will include the inventory of all cookies set during the page load.
+   */
+  auditCookies?: boolean;
+
+  /**
+   * If `true`, the response will include TLS connection and certificate details of the web page main document, if it
+   * was loaded over TLS.
+   */
+  includeTlsDetails?: boolean;
 }
 
 /**
@@ -70,17 +164,29 @@ interface InputBodyParamsType {
  */
 interface OutputBodyType {
   timestamp: number;
+  /**
+   * Mode the content was extracted in.
+   */
+  mode: WebPageMode;
   content: string;
+  securityHeaders?: SecurityHeadersAudit;
+  cspViolations?: CspViolation[];
+  cookies?: WebPageCookie[];
+  tlsDetails?: TlsDetails;
 }
 
-export function registerWebPageContentGetRoutes({ server, cache, acquireBrowser, config }: ApiRouteParams) {
+export function registerWebPageContentGetRoutes({ server, cache, acquireBrowserContext, config }: ApiRouteParams) {
+  const log = server.log.child({ provider: 'web_page_content_get' });
+  const cachedFetcher = new CachedFetcher<OutputBodyType>({ cache, log, route: '/api/web_page/content' });
   return server.post<{ Body: InputBodyParamsType }>(
     '/api/web_page/content',
     {
       schema: {
         body: {
           url: { type: 'string' },
+          mode: WEB_PAGE_MODE_SCHEMA,
           waitSelector: { type: 'string' },
+          actions: PAGE_ACTIONS_SCHEMA,
           previousContent: { type: 'string' },
           delay: { type: 'number' },
           scripts: {
@@ -90,70 +196,169 @@ export function registerWebPageContentGetRoutes({ server, cache, acquireBrowser,
             },
           },
           headers: { type: 'object' },
+          authentication: AUTHENTICATION_SCHEMA,
+          proxy: PROXY_SCHEMA,
+          emulation: EMULATION_SCHEMA,
+          cache: CACHE_POLICY_SCHEMA,
+          diff: { type: 'boolean' },
+          auditHeaders: { type: 'boolean' },
+          auditCookies: { type: 'boolean' },
+          includeTlsDetails: { type: 'boolean' },
+          cspViolations: { type: 'object', properties: { includeReportOnly: { type: 'boolean' } } },
         },
         response: {
           200: {
             type: 'object',
             properties: {
               timestamp: { type: 'number' },
+              mode: { type: 'string' },
               content: { type: 'string' },
+              cache: CACHE_STATUS_SCHEMA,
+              diff: {
+                type: 'object',
+                properties: {
+                  changed: { type: 'boolean' },
+                  unifiedDiff: { type: 'string' },
+                  jsonPatch: { type: 'array', items: { type: 'object', additionalProperties: true } },
+                },
+              },
+              securityHeaders: SECURITY_HEADERS_AUDIT_SCHEMA,
+              cspViolations: CSP_VIOLATIONS_SCHEMA,
+              cookies: COOKIES_SCHEMA,
+              tlsDetails: TLS_DETAILS_SCHEMA,
             },
           },
         },
       },
     },
     async (request, reply) => {
+      const proxy = request.body.proxy ?? config.proxy;
+      if (request.body.mode === 'static') {
+        const browserOnlyOption = BROWSER_ONLY_OPTIONS.find((option) => request.body[option] !== undefined);
+        if (browserOnlyOption) {
+          return reply.code(400).send({ message: `Option "${browserOnlyOption}" is not supported in static mode.` });
+        }
+
+        // Static mode requests would bypass the outbound proxy, and that's not something we should do silently.
+        if (proxy) {
+          return reply.code(400).send({ message: 'Static mode is not supported when outbound proxy is configured.' });
+        }
+      }
+
       const cacheKey = createObjectHash({
+        route: '/api/web_page/content',
         url: request.body.url,
+        mode: request.body.mode,
+        timeout: request.body.timeout,
+        delay: request.body.delay,
+        waitSelector: request.body.waitSelector,
+        actions: request.body.actions,
         headers: request.body.headers,
+        proxy: getProxyIdentity(proxy),
+        emulation: request.body.emulation,
         scripts: request.body.scripts,
+        auditHeaders: request.body.auditHeaders,
+        cspViolations: request.body.cspViolations,
+        auditCookies: request.body.auditCookies,
+        includeTlsDetails: request.body.includeTlsDetails,
       });
-      if (!cache.has(cacheKey)) {
-        const browser = await acquireBrowser();
-        const log = server.log.child({ provider: 'web_page_content_get' });
-        try {
-          const result = await getContent(config, browser, log, request.body);
-          if (result.type === 'client-error') {
-            log.error(`Cannot retrieve content for page "${request.body.url}" due to client error: ${result.error}`);
-            await Diagnostics.screenshot(log, browser);
-            return reply.code(400).send({ message: result.error });
-          }
-
-          cache.set(cacheKey, result.data);
-          log.debug(`Successfully fetched content for page "${request.body.url}".`);
-        } catch (err) {
-          log.error(`Cannot retrieve content for page "${request.body.url}": ${Diagnostics.errorMessage(err)}`);
-          await Diagnostics.screenshot(log, browser);
-          return reply.code(500).send({
-            message: `Cannot retrieve content for page "${request.body.url}". Check the server logs for more details.`,
-          });
+
+      try {
+        const result = await cachedFetcher.fetch(
+          {
+            key: cacheKey,
+            url: request.body.url,
+            policy: request.body.cache,
+            isPrivate: !!request.body.authentication,
+          },
+          async () => {
+            if (request.body.mode === 'static') {
+              const result = await getStaticContent(log, request.body, config.userAgent);
+              if (result.type === 'client-error') {
+                log.error(
+                  `Cannot retrieve content for static page "${request.body.url}" due to client error: ${result.error}`,
+                );
+              } else {
+                log.debug(`Successfully fetched content for static page "${request.body.url}".`);
+              }
+              return result;
+            }
+
+            const leaseResult = await acquireAuthenticatedBrowserContext(
+              acquireBrowserContext,
+              {
+                extraHTTPHeaders: request.body.headers,
+                bypassCSP: false,
+                userAgent: config.userAgent,
+                ...getEmulationContextOptions(request.body.emulation),
+                ...(proxy ? { proxy } : {}),
+              },
+              request.body.authentication,
+            );
+            if (leaseResult.type === 'client-error') {
+              return leaseResult;
+            }
+
+            const { context, release } = leaseResult.data;
+            try {
+              const result = await getContent(context, log, request.body);
+              if (result.type === 'client-error') {
+                log.error(
+                  `Cannot retrieve content for page "${request.body.url}" due to client error: ${result.error}`,
+                );
+                // Screenshots of the authenticated pages shouldn't end up in the logs.
+                if (!request.body.authentication) {
+                  await Diagnostics.screenshot(log, context);
+                }
+              } else {
+                log.debug(`Successfully fetched content for page "${request.body.url}".`);
+              }
+              return result;
+            } catch (err) {
+              if (!request.body.authentication) {
+                await Diagnostics.screenshot(log, context);
+              }
+              throw err;
+            } finally {
+              await release();
+            }
+          },
+        );
+
+        if (result.type === 'client-error') {
+          return reply.code(400).send({ message: result.error });
         }
-      }
 
-      return cache.get(cacheKey);
+        return request.body.diff && request.body.previousContent !== undefined
+          ? { ...result.data, diff: diffWebPageContent(request.body.previousContent, result.data.content) }
+          : result.data;
+      } catch (err) {
+        log.error(`Cannot retrieve content for page "${request.body.url}": ${Diagnostics.errorMessage(err)}`);
+        return reply.code(500).send({
+          message: `Cannot retrieve content for page "${request.body.url}". Check the server logs for more details.`,
+        });
+      }
     },
   );
 }
 
 async function getContent(
-  config: Config,
-  browser: Browser,
+  context: BrowserContext,
   log: FastifyBaseLogger,
   {
     url,
     waitSelector,
-    timeout = DEFAULT_TIMEOUT_MS,
-    delay = DEFAULT_DELAY_MS,
+    actions,
+    timeout,
+    delay,
     scripts,
     previousContent,
-    headers,
+    auditHeaders,
+    cspViolations,
+    auditCookies,
+    includeTlsDetails,
   }: InputBodyParamsType,
 ): Promise<ApiResult<OutputBodyType>> {
-  const context = await browser.newContext({
-    extraHTTPHeaders: headers,
-    bypassCSP: false,
-    userAgent: config.userAgent,
-  });
   const page = await context.newPage();
 
   // Disable browser cache.
@@ -164,6 +369,9 @@ async function getContent(
   const fetchInterceptor = new FetchInterceptor({ log, pageUrl: url, session: cdpSession });
   await fetchInterceptor.start();
 
+  const tlsDetailsCollector = includeTlsDetails ? new TlsDetailsCollector(cdpSession) : undefined;
+  await tlsDetailsCollector?.start();
+
   // Set up a proxy URL to load resources bypassing CORS and CSP.
   await page.route('**/proxy.secutils.dev/*', async (route) => {
     const response = await route.fetch({
@@ -192,33 +400,33 @@ async function getContent(
     }
   });
 
-  log.debug(`Fetching content for "${url}" (timeout: ${timeout}ms).`);
-  let response: Response | null;
-  try {
-    response = await page.goto(url, { timeout });
-    log.debug(`Page "${url}" is loaded.`);
-  } catch (err) {
-    const errorMessage = `Failed to load page "${url}": ${Diagnostics.errorMessage(err)}`;
-    log.error(errorMessage);
-    return { type: 'client-error', error: errorMessage };
+  // Cookies rejected by the browser are only visible in the `Set-Cookie` headers.
+  const setCookieHeaders: Array<Promise<SetCookieHeader[]>> = [];
+  if (auditCookies) {
+    page.on('response', (response) => {
+      setCookieHeaders.push(
+        response.allHeaders().then(
+          (headers) => headers['set-cookie']?.split('\n').map((value) => ({ url: response.url(), value })) ?? [],
+          (err) => {
+            log.error(`Failed to retrieve headers for "${response.url()}": ${Diagnostics.errorMessage(err)}`);
+            return [];
+          },
+        ),
+      );
+    });
   }
 
-  if (waitSelector) {
-    try {
-      log.debug(`Waiting for selector "${waitSelector} (timeout: ${timeout}ms)".`);
-      await page.waitForSelector(waitSelector, { timeout });
-      log.debug(`Retrieved selector "${waitSelector}".`);
-    } catch (err) {
-      const errorMessage = `Failed to retrieve selector "${waitSelector}" for page "${url}": ${Diagnostics.errorMessage(
-        err,
-      )}`;
-      log.error(errorMessage);
-      return { type: 'client-error', error: errorMessage };
-    }
-  }
+  const cspViolationCollector = cspViolations ? new CspViolationCollector(log, cspViolations) : undefined;
+  await cspViolationCollector?.start(page);
 
-  log.debug(`Delaying content extraction for ${delay}ms.`);
-  await setTimeoutAsync(delay);
+  const navigationResult = await loadPage(page, log, { url, waitSelector, actions, timeout, delay });
+  if (navigationResult.type === 'client-error') {
+    return navigationResult;
+  }
+  const response = navigationResult.data;
+  const responseHeaders = (await response?.allHeaders()) ?? {};
+  // Page may be redirected, e.g. from HTTP to HTTPS, audits should use the URL of the final document.
+  const documentUrl = response?.url() || url;
 
   const timestamp = Math.floor(Date.now() / 1000);
   let extractedContent: string;
@@ -226,11 +434,7 @@ async function getContent(
     const externalResources = await fetchInterceptor.stop();
     extractedContent = jsonStableStringify(
       scripts?.extractContent
-        ? await extractContent(page, {
-            previous: previousContent,
-            externalResources,
-            responseHeaders: (await response?.allHeaders()) ?? {},
-          })
+        ? await extractContent(page, { previous: previousContent, externalResources, responseHeaders })
         : jsBeautify.html_beautify(await page.content()),
     );
   } catch (err) {
@@ -238,31 +442,79 @@ async function getContent(
     return { type: 'client-error', error: Diagnostics.errorMessage(err) };
   }
 
-  const contentSize = Buffer.byteLength(extractedContent, 'utf8');
+  extractedContent = limitContentSize(log, url, extractedContent);
+
+  // Response details are only available until the page is closed.
+  const tlsDetails = response && tlsDetailsCollector ? await tlsDetailsCollector.collect(response, timestamp) : null;
+
+  try {
+    await page.close();
+    log.debug(`Closed page "${url}".`);
+  } catch (err) {
+    log.error(`Failed to close page "${url}": ${Diagnostics.errorMessage(err)}`);
+  }
+
+  const data: OutputBodyType = { timestamp, mode: 'browser', content: extractedContent };
+  if (auditHeaders) {
+    data.securityHeaders = auditSecurityHeaders(documentUrl, responseHeaders);
+  }
+
+  if (cspViolationCollector) {
+    data.cspViolations = cspViolationCollector.collect();
+  }
+
+  if (tlsDetails) {
+    data.tlsDetails = tlsDetails;
+  }
+
+  if (auditCookies) {
+    data.cookies = inventoryCookies(documentUrl, await context.cookies(), (await Promise.all(setCookieHeaders)).flat());
+  }
+
+  return { type: 'success', data };
+}
+
+async function getStaticContent(
+  log: FastifyBaseLogger,
+  { url, timeout = DEFAULT_TIMEOUT_MS, headers, auditHeaders }: InputBodyParamsType,
+  userAgent?: string,
+): Promise<ApiResult<OutputBodyType>> {
+  const pageResult = await fetchStaticPage(log, url, { headers, userAgent, signal: AbortSignal.timeout(timeout) });
+  if (pageResult.type === 'client-error') {
+    return pageResult;
+  }
+
+  const timestamp = Math.floor(Date.now() / 1000);
+  const content = limitContentSize(log, url, jsonStableStringify(jsBeautify.html_beautify(pageResult.data.html)));
+
+  const data: OutputBodyType = { timestamp, mode: 'static', content };
+  if (auditHeaders) {
+    data.securityHeaders = auditSecurityHeaders(pageResult.data.url, pageResult.data.headers);
+  }
+
+  return { type: 'success', data };
+}
+
+/**
+ * Replaces too large content with its SHA-1 hash.
+ */
+function limitContentSize(log: FastifyBaseLogger, url: string, content: string) {
+  const contentSize = Buffer.byteLength(content, 'utf8');
   if (contentSize > MAX_CONTENT_SIZE_BYTES) {
     log.error(
       `Extracted content for "${url}" is too large (size: ${contentSize} bytes, max: ${MAX_CONTENT_SIZE_BYTES} bytes).`,
     );
-    extractedContent = jsonStableStringify(
+    return jsonStableStringify(
       `Extracted content was too large (${contentSize} bytes) and has been replaced with the SHA-1 hash: ${createHash(
         'sha1',
       )
-        .update(extractedContent)
+        .update(content)
         .digest('hex')}`,
     );
-  } else {
-    log.debug(`Successfully extracted content for "${url}" (${contentSize} bytes).`);
-  }
-
-  try {
-    await page.close();
-    await context.close();
-    log.debug(`Closed page "${url}".`);
-  } catch (err) {
-    log.error(`Failed to close page "${url}": ${Diagnostics.errorMessage(err)}`);
   }
 
-  return { type: 'success', data: { timestamp, content: extractedContent } };
+  log.debug(`Successfully extracted content for "${url}" (${contentSize} bytes).`);
+  return content;
 }
 
 async function extractContent(page: Page, context: WebPageContext<string>): Promise<unknown> {
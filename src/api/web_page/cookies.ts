@@ -0,0 +1,223 @@
+import type { Cookie } from 'playwright';
+import { getDomain } from 'tldts';
+
+/**
+ * Describes cookie set during the page load.
+ */
+export interface WebPageCookie {
+  name: string;
+  /**
+   * Domain the cookie is sent to, without the leading dot.
+   */
+  domain: string;
+  /**
+   * Whether the cookie is only sent to the exact domain it was set by (i.e. `Domain` attribute is not specified).
+   */
+  hostOnly: boolean;
+  path: string;
+  /**
+   * Unix timestamp (in seconds) when the cookie expires, not specified for session cookies.
+   */
+  expires?: number;
+  secure: boolean;
+  httpOnly: boolean;
+  sameSite: 'Strict' | 'Lax' | 'None';
+  /**
+   * Whether the cookie belongs to the same site as the page (`first-party`) or not (`third-party`).
+   */
+  party: 'first-party' | 'third-party';
+  /**
+   * Whether the browser accepted the cookie. Cookies that are only seen in `Set-Cookie` headers were rejected, e.g.
+   * because of the `SameSite=None` without `Secure`. `Set-Cookie` headers that delete cookies aren't included.
+   */
+  stored: boolean;
+  /**
+   * List of insecure attribute combinations, e.g. `samesite-none-without-secure`.
+   */
+  flags: string[];
+}
+
+/**
+ * Describes a single `Set-Cookie` header value and the URL of the response it was received with.
+ */
+export interface SetCookieHeader {
+  url: string;
+  value: string;
+}
+
+export const COOKIES_SCHEMA = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      domain: { type: 'string' },
+      hostOnly: { type: 'boolean' },
+      path: { type: 'string' },
+      expires: { type: 'number' },
+      secure: { type: 'boolean' },
+      httpOnly: { type: 'boolean' },
+      sameSite: { type: 'string' },
+      party: { type: 'string' },
+      stored: { type: 'boolean' },
+      flags: { type: 'array', items: { type: 'string' } },
+    },
+  },
+};
+
+type CookieAttributes = Omit<WebPageCookie, 'party' | 'stored' | 'flags'>;
+
+/**
+ * Combines cookies stored by the browser with the cookies received via `Set-Cookie` headers, classifies them relative
+ * to the page URL and flags insecure attribute combinations. Cookie values are never included.
+ */
+export function inventoryCookies(pageUrl: string, storedCookies: Cookie[], setCookieHeaders: SetCookieHeader[]) {
+  const pageHostname = new URL(pageUrl).hostname;
+  const pageSite = getDomain(pageHostname) ?? pageHostname;
+  const isPageSecure = new URL(pageUrl).protocol === 'https:';
+
+  const cookies = new Map<string, WebPageCookie>();
+  const addCookie = (attributes: CookieAttributes, stored: boolean) => {
+    const key = `${attributes.name};${attributes.domain};${attributes.path}`;
+    if (cookies.has(key)) {
+      return;
+    }
+
+    const cookieSite = getDomain(attributes.domain) ?? attributes.domain;
+    cookies.set(key, {
+      ...attributes,
+      party: cookieSite === pageSite ? 'first-party' : 'third-party',
+      stored,
+      flags: getCookieFlags(attributes, isPageSecure),
+    });
+  };
+
+  for (const cookie of storedCookies) {
+    const isHostOnly = !cookie.domain.startsWith('.');
+    addCookie(
+      {
+        name: cookie.name,
+        domain: isHostOnly ? cookie.domain : cookie.domain.slice(1),
+        hostOnly: isHostOnly,
+        path: cookie.path,
+        // Playwright uses `-1` for session cookies.
+        ...(cookie.expires >= 0 ? { expires: Math.floor(cookie.expires) } : {}),
+        secure: cookie.secure,
+        httpOnly: cookie.httpOnly,
+        sameSite: cookie.sameSite,
+      },
+      true,
+    );
+  }
+
+  for (const header of setCookieHeaders) {
+    const attributes = parseSetCookieHeader(header);
+    if (attributes) {
+      addCookie(attributes, false);
+    }
+  }
+
+  return Array.from(cookies.values());
+}
+
+/**
+ * Parses `Set-Cookie` header value according to RFC 6265, returns `undefined` if the value is malformed or if it
+ * deletes the cookie (i.e. cookie is already expired).
+ */
+function parseSetCookieHeader({ url, value }: SetCookieHeader): CookieAttributes | undefined {
+  const [nameValue, ...attributes] = value.split(';');
+  const separatorIndex = nameValue.indexOf('=');
+  const name = separatorIndex >= 0 ? nameValue.slice(0, separatorIndex).trim() : '';
+  if (!name) {
+    return;
+  }
+
+  const responseUrl = new URL(url);
+  const cookie: CookieAttributes = {
+    name,
+    domain: responseUrl.hostname,
+    hostOnly: true,
+    // Default path is the "directory" of the response URL path.
+    path: responseUrl.pathname.slice(0, Math.max(responseUrl.pathname.lastIndexOf('/'), 1)),
+    secure: false,
+    httpOnly: false,
+    // Browsers treat cookies without `SameSite` as `Lax`.
+    sameSite: 'Lax',
+  };
+
+  let maxAge: number | undefined;
+  for (const attribute of attributes) {
+    const [attributeName, ...attributeValueParts] = attribute.split('=');
+    const attributeValue = attributeValueParts.join('=').trim();
+    switch (attributeName.trim().toLowerCase()) {
+      case 'domain':
+        if (attributeValue) {
+          cookie.domain = attributeValue.replace(/^\./, '').toLowerCase();
+          cookie.hostOnly = false;
+        }
+        break;
+      case 'path':
+        if (attributeValue.startsWith('/')) {
+          cookie.path = attributeValue;
+        }
+        break;
+      case 'expires': {
+        const expires = Date.parse(attributeValue);
+        if (!Number.isNaN(expires)) {
+          cookie.expires = Math.floor(expires / 1000);
+        }
+        break;
+      }
+      case 'max-age':
+        if (/^-?\d+$/.test(attributeValue)) {
+          maxAge = Number(attributeValue);
+        }
+        break;
+      case 'secure':
+        cookie.secure = true;
+        break;
+      case 'httponly':
+        cookie.httpOnly = true;
+        break;
+      case 'samesite': {
+        const sameSite = attributeValue.toLowerCase();
+        cookie.sameSite = sameSite === 'strict' ? 'Strict' : sameSite === 'none' ? 'None' : 'Lax';
+        break;
+      }
+    }
+  }
+
+  // `Max-Age` takes precedence over `Expires`.
+  const now = Math.floor(Date.now() / 1000);
+  if (maxAge !== undefined) {
+    cookie.expires = now + maxAge;
+  }
+
+  // Servers delete cookies by setting them with `Max-Age` of zero or less, or with `Expires` in the past.
+  if (cookie.expires !== undefined && cookie.expires <= now) {
+    return;
+  }
+
+  return cookie;
+}
+
+function getCookieFlags(cookie: CookieAttributes, isPageSecure: boolean) {
+  const flags: string[] = [];
+  if (cookie.sameSite === 'None' && !cookie.secure) {
+    flags.push('samesite-none-without-secure');
+  }
+
+  if (isPageSecure && !cookie.secure) {
+    flags.push('missing-secure');
+  }
+
+  if (cookie.name.startsWith('__Secure-') && !cookie.secure) {
+    flags.push('secure-prefix-without-secure');
+  }
+
+  if (cookie.name.startsWith('__Host-') && (!cookie.secure || !cookie.hostOnly || cookie.path !== '/')) {
+    flags.push('host-prefix-invalid');
+  }
+
+  return flags;
+}
@@ -0,0 +1,74 @@
+/**
+ * Parsed Content-Security-Policy, maps lowercased directive names to the list of their values.
+ */
+export type ContentSecurityPolicy = Map<string, string[]>;
+
+/**
+ * Directives that fall back to `default-src` when they aren't specified.
+ */
+const FETCH_DIRECTIVES = new Set([
+  'child-src',
+  'connect-src',
+  'font-src',
+  'frame-src',
+  'img-src',
+  'manifest-src',
+  'media-src',
+  'object-src',
+  'prefetch-src',
+  'script-src',
+  'script-src-elem',
+  'script-src-attr',
+  'style-src',
+  'style-src-elem',
+  'style-src-attr',
+  'worker-src',
+]);
+
+/**
+ * Parses Content-Security-Policy header value. Header can contain multiple comma-separated policies, and all of them
+ * are enforced, hence a list of policies is returned. If the directive is specified multiple times within the policy,
+ * only the first occurrence is used as browsers do.
+ */
+export function parseContentSecurityPolicies(headerValue: string): ContentSecurityPolicy[] {
+  const policies: ContentSecurityPolicy[] = [];
+  for (const serializedPolicy of headerValue.split(',')) {
+    const policy: ContentSecurityPolicy = new Map();
+    for (const serializedDirective of serializedPolicy.split(';')) {
+      const [name, ...values] = serializedDirective.trim().split(/\s+/);
+      if (name && !policy.has(name.toLowerCase())) {
+        policy.set(name.toLowerCase(), values);
+      }
+    }
+
+    if (policy.size > 0) {
+      policies.push(policy);
+    }
+  }
+
+  return policies;
+}
+
+/**
+ * Returns the values of the fetch directive taking `default-src` fallback into account, `undefined` if neither the
+ * directive nor `default-src` is specified (i.e. everything is allowed).
+ */
+export function getEffectiveDirectiveValues(policy: ContentSecurityPolicy, directive: string) {
+  const values = policy.get(directive);
+  if (values || !FETCH_DIRECTIVES.has(directive)) {
+    return values;
+  }
+
+  // Specific `-elem` and `-attr` directives fall back to the generic one first.
+  const genericDirective = directive.replace(/-(elem|attr)$/, '');
+  return (genericDirective !== directive ? policy.get(genericDirective) : undefined) ?? policy.get('default-src');
+}
+
+/**
+ * Serializes policy back to the header value.
+ */
+export function serializeContentSecurityPolicy(policy: ContentSecurityPolicy) {
+  return Array.from(policy)
+    .map(([name, values]) => [name, ...values].join(' '))
+    .join('; ');
+}
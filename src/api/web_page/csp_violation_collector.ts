@@ -0,0 +1,116 @@
+import type { FastifyBaseLogger } from 'fastify/fastify.js';
+import type { Page } from 'playwright';
+
+// Maximum number of violations to collect per page to protect against pages that violate CSP in a loop.
+const MAX_VIOLATIONS = 500;
+
+// Name of the binding the browser reports violations through.
+const REPORT_VIOLATION_BINDING = '__secutilsReportCspViolation';
+
+/**
+ * Describes Content Security Policy violation observed during page load.
+ */
+export interface CspViolation {
+  /**
+   * URL of the document (or frame) in which the violation occurred.
+   */
+  documentURI: string;
+  /**
+   * URI of the resource that was blocked, or a keyword such as `inline` or `eval`.
+   */
+  blockedURI: string;
+  violatedDirective: string;
+  effectiveDirective: string;
+  /**
+   * Whether the violated policy is enforced (`enforce`) or only reported (`report`).
+   */
+  disposition: 'enforce' | 'report';
+  sourceFile?: string;
+  lineNumber?: number;
+  columnNumber?: number;
+  /**
+   * First 40 characters of the inline script, event handler, or style that caused the violation, if available.
+   */
+  sample?: string;
+}
+
+export interface CspViolationCollectorOptions {
+  /**
+   * Whether to collect violations of the report-only policies.
+   */
+  includeReportOnly?: boolean;
+}
+
+export const CSP_VIOLATIONS_SCHEMA = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      documentURI: { type: 'string' },
+      blockedURI: { type: 'string' },
+      violatedDirective: { type: 'string' },
+      effectiveDirective: { type: 'string' },
+      disposition: { type: 'string' },
+      sourceFile: { type: 'string' },
+      lineNumber: { type: 'number' },
+      columnNumber: { type: 'number' },
+      sample: { type: 'string' },
+    },
+  },
+};
+
+/**
+ * Collects `securitypolicyviolation` events dispatched in all frames of the page.
+ */
+export class CspViolationCollector {
+  private readonly violations: CspViolation[] = [];
+  constructor(
+    private readonly log: FastifyBaseLogger,
+    private readonly options: CspViolationCollectorOptions = {},
+  ) {}
+
+  /**
+   * Starts collecting violations, must be called before page navigation.
+   */
+  public async start(page: Page) {
+    await page.exposeBinding(REPORT_VIOLATION_BINDING, (_, violation: CspViolation) => {
+      if (violation.disposition === 'report' && !this.options.includeReportOnly) {
+        return;
+      }
+
+      if (this.violations.length >= MAX_VIOLATIONS) {
+        this.log.warn(`Too many CSP violations, ignoring violation of "${violation.effectiveDirective}".`);
+        return;
+      }
+
+      this.log.debug(
+        `CSP violation of "${violation.effectiveDirective}" (${violation.disposition}): ${violation.blockedURI}.`,
+      );
+      this.violations.push(violation);
+    });
+
+    // Init scripts and bindings are applied to every frame, including cross-origin ones.
+    await page.addInitScript(`
+      document.addEventListener('securitypolicyviolation', (event) => {
+        self['${REPORT_VIOLATION_BINDING}']?.({
+          documentURI: event.documentURI,
+          blockedURI: event.blockedURI,
+          violatedDirective: event.violatedDirective,
+          effectiveDirective: event.effectiveDirective,
+          disposition: event.disposition,
+          sourceFile: event.sourceFile || undefined,
+          lineNumber: event.lineNumber || undefined,
+          columnNumber: event.columnNumber || undefined,
+          sample: event.sample || undefined,
+        });
+      });
+    `);
+  }
+
+  /**
+   * Returns violations collected so far.
+   */
+  public collect() {
+    return [...this.violations];
+  }
+}
@@ -0,0 +1,109 @@
+import type { BrowserContextOptions } from 'playwright';
+import { devices } from 'playwright';
+
+/**
+ * Describes the device and environment the browser should emulate while loading the page.
+ */
+export interface WebPageEmulation {
+  /**
+   * Name of the Playwright device preset, e.g. `iPhone 13` or `Pixel 7`. The preset defines user agent, viewport,
+   * device scale factor and touch support, other emulation options take precedence over the preset.
+   */
+  device?: string;
+
+  /**
+   * Size of the page viewport, in CSS pixels. Default is 1280x720, unless defined by the device preset.
+   */
+  viewport?: { width: number; height: number };
+
+  /**
+   * Browser locale, e.g. `en-GB`, affects `navigator.language`, `Accept-Language` header, and formatting rules.
+   */
+  locale?: string;
+
+  /**
+   * Time zone ID, e.g. `Europe/Berlin`.
+   */
+  timezoneId?: string;
+
+  /**
+   * Geolocation reported to the page, the page is granted permission to access it.
+   */
+  geolocation?: { latitude: number; longitude: number; accuracy?: number };
+
+  /**
+   * Value of the `prefers-color-scheme` media feature.
+   */
+  colorScheme?: 'light' | 'dark' | 'no-preference';
+
+  /**
+   * Value of the `prefers-reduced-motion` media feature.
+   */
+  reducedMotion?: 'reduce' | 'no-preference';
+
+  /**
+   * Whether JavaScript is enabled in the page. Default is `true`.
+   */
+  javaScriptEnabled?: boolean;
+}
+
+export const EMULATION_SCHEMA = {
+  type: 'object',
+  properties: {
+    device: { type: 'string', enum: Object.keys(devices) },
+    viewport: {
+      type: 'object',
+      properties: {
+        width: { type: 'integer', minimum: 1, maximum: 10000 },
+        height: { type: 'integer', minimum: 1, maximum: 10000 },
+      },
+      required: ['width', 'height'],
+    },
+    locale: { type: 'string' },
+    timezoneId: { type: 'string' },
+    geolocation: {
+      type: 'object',
+      properties: {
+        latitude: { type: 'number', minimum: -90, maximum: 90 },
+        longitude: { type: 'number', minimum: -180, maximum: 180 },
+        accuracy: { type: 'number', minimum: 0 },
+      },
+      required: ['latitude', 'longitude'],
+    },
+    colorScheme: { type: 'string', enum: ['light', 'dark', 'no-preference'] },
+    reducedMotion: { type: 'string', enum: ['reduce', 'no-preference'] },
+    javaScriptEnabled: { type: 'boolean' },
+  },
+};
+
+/**
+ * Converts emulation options to the browser context options. Only explicitly specified options are included, so that
+ * the result can be merged with the default context options.
+ */
+export function getEmulationContextOptions(emulation?: WebPageEmulation): BrowserContextOptions {
+  if (!emulation) {
+    return {};
+  }
+
+  const { device, geolocation, ...options } = emulation;
+  const contextOptions: BrowserContextOptions = {};
+  if (device) {
+    // Browser type is defined by the server, so it's not a part of the emulation.
+    const descriptor: Partial<(typeof devices)[string]> = { ...devices[device] };
+    delete descriptor.defaultBrowserType;
+    Object.assign(contextOptions, descriptor);
+  }
+
+  for (const [name, value] of Object.entries(options)) {
+    if (value !== undefined) {
+      Object.assign(contextOptions, { [name]: value });
+    }
+  }
+
+  if (geolocation) {
+    contextOptions.geolocation = geolocation;
+    contextOptions.permissions = ['geolocation'];
+  }
+
+  return contextOptions;
+}
@@ -1,5 +1,6 @@
 import type { FastifyBaseLogger } from 'fastify/fastify.js';
 import type { CDPSession } from 'playwright';
+import type { Protocol } from 'playwright-core/types/protocol.js';
 
 import { Diagnostics } from '../diagnostics.js';
 
@@ -9,32 +10,62 @@ export interface FetchedResource {
   type: 'script' | 'stylesheet';
 }
 
+/**
+ * Types of the resources that are intercepted only if requested, their content is kept as bytes.
+ */
+export type FetchedBinaryResourceType = 'font' | 'image' | 'media' | 'wasm' | 'worker';
+
+export interface FetchedBinaryResource {
+  url: string;
+  data: Buffer;
+  type: FetchedBinaryResourceType;
+}
+
+// CDP resource types that should be intercepted to catch resources of the specific binary type.
+const BINARY_RESOURCE_TYPE_PATTERNS: Record<FetchedBinaryResourceType, Protocol.Network.ResourceType[]> = {
+  font: ['Font'],
+  image: ['Image'],
+  media: ['Media'],
+  // WebAssembly modules are usually loaded with `fetch` or `XMLHttpRequest`.
+  wasm: ['Fetch', 'XHR', 'Other'],
+  // Depending on the browser version, worker scripts can be reported either as `Script` or as `Other`.
+  worker: ['Other'],
+};
+
+// Values of the `Sec-Fetch-Dest` request header browsers send for worker scripts.
+const WORKER_FETCH_DESTINATIONS = ['worker', 'sharedworker', 'serviceworker'];
+
+const MAX_BINARY_RESOURCE_SIZE_BYTES = 1024 * 1024 * 10;
+const MAX_BINARY_RESOURCES_SIZE_BYTES = 1024 * 1024 * 50;
+
 interface FetchInterceptorOptions {
   log: FastifyBaseLogger;
   pageUrl: string;
   session: CDPSession;
+  /**
+   * Optional list of binary resource types to intercept in addition to scripts and stylesheets.
+   */
+  binaryResourceTypes?: FetchedBinaryResourceType[];
 }
 export class FetchInterceptor {
   private readonly interceptedResources: FetchedResource[] = [];
+  private readonly interceptedResourceBodies = new Map<string, Buffer>();
+  private readonly interceptedBinaryResources: FetchedBinaryResource[] = [];
+  private interceptedBinaryResourcesSize = 0;
   constructor(private readonly options: FetchInterceptorOptions) {}
 
   public async start() {
     // eslint-disable-next-line @typescript-eslint/no-misused-promises
     this.options.session.on('Fetch.requestPaused', async (event) => {
-      if (event.responseStatusCode && event.responseStatusCode > 199 && event.responseStatusCode < 300) {
+      const resourceType = this.getResourceType(event);
+      if (
+        resourceType &&
+        event.responseStatusCode &&
+        event.responseStatusCode > 199 &&
+        event.responseStatusCode < 300
+      ) {
         try {
-          const response = await this.options.session.send('Fetch.getResponseBody', { requestId: event.requestId });
-          const responseContent = response.base64Encoded
-            ? Buffer.from(response.body, 'base64').toString('utf8')
-            : response.body;
-          this.interceptedResources.push({
-            url: event.request.url,
-            data: responseContent,
-            type: event.resourceType === 'Script' ? 'script' : 'stylesheet',
-          });
-          this.options.log.debug(
-            `Page loaded resource (${Buffer.byteLength(responseContent, 'utf8')} bytes): ${event.request.url}.`,
-          );
+          await this.interceptResource(event, resourceType);
         } catch (err) {
           this.options.log.error(
             `Failed to fetch external resource "${event.request.url}" body for page "${
@@ -48,11 +79,16 @@ export class FetchInterceptor {
         this.options.log.error(`Failed to continue request: ${event.request.url}`);
       });
     });
+
+    const resourceTypes = new Set<Protocol.Network.ResourceType>(['Script', 'Stylesheet']);
+    for (const binaryResourceType of this.options.binaryResourceTypes ?? []) {
+      for (const resourceType of BINARY_RESOURCE_TYPE_PATTERNS[binaryResourceType]) {
+        resourceTypes.add(resourceType);
+      }
+    }
+
     await this.options.session.send('Fetch.enable', {
-      patterns: [
-        { resourceType: 'Script', requestStage: 'Response' },
-        { resourceType: 'Stylesheet', requestStage: 'Response' },
-      ],
+      patterns: Array.from(resourceTypes).map((resourceType) => ({ resourceType, requestStage: 'Response' as const })),
     });
   }
 
@@ -60,4 +96,108 @@ export class FetchInterceptor {
     await this.options.session.send('Fetch.disable');
     return this.interceptedResources;
   }
+
+  /**
+   * Returns raw bodies of the intercepted scripts and stylesheets by URL, should be called after `stop`. Resource data
+   * is decoded as UTF-8, so raw bodies are needed whenever exact bytes matter (e.g. to verify resource integrity).
+   */
+  public getResourceBodies() {
+    return this.interceptedResourceBodies;
+  }
+
+  /**
+   * Returns intercepted resources of the requested binary types, should be called after `stop`.
+   */
+  public getBinaryResources() {
+    return this.interceptedBinaryResources;
+  }
+
+  private async interceptResource(
+    event: Protocol.Fetch.requestPausedPayload,
+    resourceType: FetchedResource['type'] | FetchedBinaryResourceType,
+  ) {
+    if (resourceType === 'script' || resourceType === 'stylesheet') {
+      const responseContent = await this.getResponseBody(event);
+      this.interceptedResourceBodies.set(event.request.url, responseContent);
+      this.interceptedResources.push({
+        url: event.request.url,
+        data: responseContent.toString('utf8'),
+        type: resourceType,
+      });
+      return;
+    }
+
+    // Binary resources (e.g. media) can be arbitrarily large, so their bodies are only kept if they fit both the
+    // per-resource limit and the remaining budget for all binary resources of the page.
+    const sizeLimit = Math.min(
+      MAX_BINARY_RESOURCE_SIZE_BYTES,
+      MAX_BINARY_RESOURCES_SIZE_BYTES - this.interceptedBinaryResourcesSize,
+    );
+    const contentLength = Number(
+      event.responseHeaders?.find(({ name }) => name.toLowerCase() === 'content-length')?.value,
+    );
+    if (contentLength > sizeLimit) {
+      this.options.log.warn(
+        `Skipped external resource "${event.request.url}" body for page "${this.options.pageUrl}" since it exceeds size limit (${contentLength} bytes, limit: ${sizeLimit} bytes).`,
+      );
+      return;
+    }
+
+    // Not all responses specify `Content-Length`, so the actual size should be checked as well.
+    const responseContent = await this.getResponseBody(event);
+    if (responseContent.length > sizeLimit) {
+      this.options.log.warn(
+        `Skipped external resource "${event.request.url}" body for page "${this.options.pageUrl}" since it exceeds size limit (${responseContent.length} bytes, limit: ${sizeLimit} bytes).`,
+      );
+      return;
+    }
+
+    this.interceptedBinaryResourcesSize += responseContent.length;
+    this.interceptedBinaryResources.push({ url: event.request.url, data: responseContent, type: resourceType });
+  }
+
+  private async getResponseBody({ requestId, request }: Protocol.Fetch.requestPausedPayload) {
+    const response = await this.options.session.send('Fetch.getResponseBody', { requestId });
+    const responseContent = Buffer.from(response.body, response.base64Encoded ? 'base64' : 'utf8');
+    this.options.log.debug(`Page loaded resource (${responseContent.length} bytes): ${request.url}.`);
+    return responseContent;
+  }
+
+  private getResourceType({
+    request,
+    resourceType,
+    responseHeaders,
+  }: Protocol.Fetch.requestPausedPayload): FetchedResource['type'] | FetchedBinaryResourceType | undefined {
+    const binaryResourceTypes = new Set(this.options.binaryResourceTypes);
+    if (binaryResourceTypes.has('worker')) {
+      const fetchDestination = Object.entries(request.headers).find(
+        ([name]) => name.toLowerCase() === 'sec-fetch-dest',
+      )?.[1];
+      if (fetchDestination && WORKER_FETCH_DESTINATIONS.includes(fetchDestination)) {
+        return 'worker';
+      }
+    }
+
+    if (binaryResourceTypes.has('wasm')) {
+      const contentType = responseHeaders?.find(({ name }) => name.toLowerCase() === 'content-type')?.value;
+      if (contentType?.startsWith('application/wasm') || /\.wasm$/i.test(new URL(request.url).pathname)) {
+        return 'wasm';
+      }
+    }
+
+    switch (resourceType) {
+      case 'Script':
+        return 'script';
+      case 'Stylesheet':
+        return 'stylesheet';
+      case 'Font':
+        return binaryResourceTypes.has('font') ? 'font' : undefined;
+      case 'Image':
+        return binaryResourceTypes.has('image') ? 'image' : undefined;
+      case 'Media':
+        return binaryResourceTypes.has('media') ? 'media' : undefined;
+      default:
+        return;
+    }
+  }
 }
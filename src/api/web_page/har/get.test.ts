@@ -0,0 +1,187 @@
+import * as assert from 'node:assert';
+import { writeFile } from 'node:fs/promises';
+import { test } from 'node:test';
+
+import type { Browser, BrowserContextOptions } from 'playwright/index.js';
+
+import { registerWebPageHarGetRoutes } from './get.js';
+import {
+  createBrowserContextMock,
+  createBrowserMock,
+  createCDPSessionMock,
+  createPageMock,
+  createResponseMock,
+} from '../../../mocks.js';
+import { createMock } from '../../api_route_params.mocks.js';
+
+function createHarBrowserMock(
+  responses: Array<{ body: string; headers?: Record<string, string> }>,
+  pageMock = createPageMock(),
+  cdpSessionMock = createCDPSessionMock(),
+) {
+  const responseMocks = responses.map(({ body, headers }, index) =>
+    createResponseMock({ url: `https://secutils.dev/${index}`, type: 'document', body, headers }),
+  );
+  pageMock.on.mock.mockImplementation((eventName: string, handler: (event: unknown) => void) => {
+    if (eventName === 'response') {
+      responseMocks.forEach(handler);
+    }
+  });
+  const contextMock = createBrowserContextMock(pageMock, cdpSessionMock);
+  const browserMock = createBrowserMock(contextMock);
+  browserMock.newContext.mock.mockImplementation((contextOptions?: BrowserContextOptions) => {
+    // Browser writes HAR file only when context is closed.
+    contextMock.close.mock.mockImplementation(() =>
+      writeFile(
+        contextOptions!.recordHar!.path,
+        JSON.stringify({
+          log: {
+            version: '1.2',
+            entries: responses.map(({ body }, index) => ({
+              startedDateTime: new Date(Date.UTC(2024, 0, 1, 0, 0, index)).toISOString(),
+              request: { method: 'GET', url: `https://secutils.dev/${index}` },
+              response: { status: 200, content: { size: body.length, mimeType: 'text/plain' } },
+            })),
+          },
+        }),
+      ),
+    );
+    return Promise.resolve(contextMock);
+  });
+  return { browserMock, responseMocks };
+}
+
+await test('[/api/web_page/har] can successfully create route', () => {
+  assert.doesNotThrow(() => registerWebPageHarGetRoutes(createMock()));
+});
+
+await test('[/api/web_page/har] can capture HAR', async (t) => {
+  t.mock.method(Date, 'now', () => 123000);
+
+  const { browserMock, responseMocks } = createHarBrowserMock([
+    { body: 'one' },
+    { body: 'two' },
+    { body: 'three' },
+    { body: 'large', headers: { 'content-length': '1000000' } },
+  ]);
+  const response = await registerWebPageHarGetRoutes(createMock({ browser: browserMock as unknown as Browser })).inject(
+    {
+      method: 'POST',
+      url: '/api/web_page/har',
+      payload: { url: 'https://secutils.dev', delay: 0, includeBodies: true, maxBodiesSize: 6 },
+    },
+  );
+
+  assert.strictEqual(response.statusCode, 200);
+
+  const [contextOptions] = browserMock.newContext.mock.calls[0].arguments as unknown as [BrowserContextOptions];
+  assert.strictEqual(contextOptions.recordHar?.content, 'omit');
+  assert.strictEqual(contextOptions.recordHar?.mode, 'full');
+
+  // Bodies that don't fit into the budget should be omitted.
+  const { timestamp, har } = JSON.parse(response.body) as {
+    timestamp: number;
+    har: { log: { version: string; entries: Array<{ response: { content: { text?: string; comment?: string } } }> } };
+  };
+  assert.strictEqual(timestamp, 123);
+  assert.strictEqual(har.log.version, '1.2');
+  assert.deepEqual(
+    har.log.entries.map(({ response }) => response.content.text),
+    ['one', 'two', undefined, undefined],
+  );
+  assert.strictEqual(
+    har.log.entries[2].response.content.comment,
+    'Body is omitted since it exceeds the size budget (6 bytes).',
+  );
+  assert.strictEqual(
+    har.log.entries[3].response.content.comment,
+    'Body is omitted since it exceeds the size budget (6 bytes).',
+  );
+
+  // Bodies that are known to exceed the budget shouldn't be read at all.
+  assert.deepEqual(
+    responseMocks.map((responseMock) => responseMock.body.mock.callCount()),
+    [1, 1, 1, 0],
+  );
+});
+
+await test('[/api/web_page/har] can capture WebSocket handshakes', async () => {
+  const pageMock = createPageMock();
+  const cdpSessionMock = createCDPSessionMock();
+  pageMock.goto.mock.mockImplementation(() => {
+    // Browser reports WebSocket handshakes via CDP while the page is loading.
+    const emit = (eventName: string, event: unknown) => {
+      for (const call of cdpSessionMock.on.mock.calls.filter(({ arguments: [name] }) => name === eventName)) {
+        void call.arguments[1](event);
+      }
+    };
+    emit('Network.webSocketCreated', { requestId: '1', url: 'wss://secutils.dev/ws?token=abc' });
+    emit('Network.webSocketWillSendHandshakeRequest', {
+      requestId: '1',
+      timestamp: 100,
+      wallTime: Date.UTC(2024, 0, 1, 0, 0, 0, 500) / 1000,
+      request: { headers: { Upgrade: 'websocket' } },
+    });
+    emit('Network.webSocketHandshakeResponseReceived', {
+      requestId: '1',
+      timestamp: 100.25,
+      response: {
+        status: 101,
+        statusText: 'Switching Protocols',
+        headers: { Upgrade: 'websocket', 'Set-Cookie': 'a=1\nb=2' },
+        requestHeaders: { Upgrade: 'websocket', Cookie: 'sid=1' },
+      },
+    });
+    return Promise.resolve(createResponseMock({ url: 'https://secutils.dev', type: 'document' }));
+  });
+
+  const { browserMock } = createHarBrowserMock([{ body: 'one' }, { body: 'two' }], pageMock, cdpSessionMock);
+  const response = await registerWebPageHarGetRoutes(createMock({ browser: browserMock as unknown as Browser })).inject(
+    { method: 'POST', url: '/api/web_page/har', payload: { url: 'https://secutils.dev', delay: 0 } },
+  );
+
+  assert.strictEqual(response.statusCode, 200);
+
+  // Handshake entry is placed according to its start time.
+  const { har } = JSON.parse(response.body) as { har: { log: { entries: Array<{ request: { url: string } }> } } };
+  assert.deepStrictEqual(
+    har.log.entries.map(({ request }) => request.url),
+    ['https://secutils.dev/0', 'wss://secutils.dev/ws?token=abc', 'https://secutils.dev/1'],
+  );
+  assert.deepStrictEqual(har.log.entries[1], {
+    startedDateTime: '2024-01-01T00:00:00.500Z',
+    time: 250,
+    request: {
+      method: 'GET',
+      url: 'wss://secutils.dev/ws?token=abc',
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: [
+        { name: 'Upgrade', value: 'websocket' },
+        { name: 'Cookie', value: 'sid=1' },
+      ],
+      queryString: [{ name: 'token', value: 'abc' }],
+      headersSize: -1,
+      bodySize: 0,
+    },
+    response: {
+      status: 101,
+      statusText: 'Switching Protocols',
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: [
+        { name: 'Upgrade', value: 'websocket' },
+        { name: 'Set-Cookie', value: 'a=1' },
+        { name: 'Set-Cookie', value: 'b=2' },
+      ],
+      content: { size: 0, mimeType: 'x-unknown' },
+      redirectURL: '',
+      headersSize: -1,
+      bodySize: 0,
+    },
+    cache: {},
+    timings: { send: 0, wait: 250, receive: 0 },
+    _resourceType: 'websocket',
+  });
+  assert.deepEqual(cdpSessionMock.send.mock.calls[0].arguments, ['Network.enable']);
+});
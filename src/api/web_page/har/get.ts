@@ -0,0 +1,330 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import type { FastifyBaseLogger } from 'fastify';
+import type { Page, Response } from 'playwright';
+
+import { WebSocketHandshakesCollector } from './websocket_handshakes.js';
+import type { WebSocketHandshakeHarEntry } from './websocket_handshakes.js';
+import { createObjectHash } from '../../../utilities/index.js';
+import type { ApiResult } from '../../api_result.js';
+import type { ApiRouteParams } from '../../api_route_params.js';
+import type { CachePolicy } from '../../cache_policy.js';
+import { CACHE_POLICY_SCHEMA, CACHE_STATUS_SCHEMA } from '../../cache_policy.js';
+import { CachedFetcher } from '../../cached_fetcher.js';
+import { Diagnostics } from '../../diagnostics.js';
+import type { WebPageAuthentication } from '../authentication.js';
+import { acquireAuthenticatedBrowserContext, AUTHENTICATION_SCHEMA } from '../authentication.js';
+import type { WebPageEmulation } from '../emulation.js';
+import { EMULATION_SCHEMA, getEmulationContextOptions } from '../emulation.js';
+import type { NavigationOptions } from '../navigation.js';
+import { loadPage, NAVIGATION_OPTIONS_SCHEMA_PROPERTIES } from '../navigation.js';
+import type { WebPageProxy } from '../proxy.js';
+import { getProxyIdentity, PROXY_SCHEMA } from '../proxy.js';
+
+// Default maximum total size of the response bodies included into HAR, in bytes (1MB).
+const DEFAULT_MAX_BODIES_SIZE_BYTES = 1024 * 1024;
+
+// Maximum total size of the response bodies included into HAR that can be requested, in bytes (10MB).
+const MAX_BODIES_SIZE_BYTES = 1024 * 1024 * 10;
+
+// Bodies of the responses with these MIME types are included as text, the rest are base64-encoded.
+const TEXTUAL_MIME_TYPE_REGEX =
+  /^(text\/|application\/(json|(x-)?javascript|ecmascript|xml)|image\/svg\+xml|application\/[^;]+\+(json|xml))/i;
+
+/**
+ * Defines type of the input parameters.
+ */
+interface InputBodyParamsType extends NavigationOptions {
+  /**
+   * Optional list of HTTP headers that should be sent with the tracker requests.
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Optional authentication details (HTTP credentials, cookies or session state). Requests with authentication details
+   * bypass the cache.
+   */
+  authentication?: WebPageAuthentication;
+
+  /**
+   * Optional outbound proxy to load the page through. If not specified, the server-wide default proxy is used, if any.
+   */
+  proxy?: WebPageProxy;
+
+  /**
+   * Optional device and environment emulation, e.g. device preset, viewport, locale or time zone.
+   */
+  emulation?: WebPageEmulation;
+
+  /**
+   * Optional cache policy for the request.
+   */
+  cache?: CachePolicy;
+
+  /**
+   * Whether to include response bodies into HAR. Default is `false`.
+   */
+  includeBodies?: boolean;
+
+  /**
+   * Maximum total size of the response bodies included into HAR, in bytes. Bodies that don't fit into the budget are
+   * omitted. Default is 1MB.
+   */
+  maxBodiesSize?: number;
+}
+
+/**
+ * Subset of the HAR 1.2 format (http://www.softwareishard.com/blog/har-12-spec/) the route needs to process.
+ */
+interface Har {
+  log: {
+    entries: Array<{
+      startedDateTime: string;
+      request: { method: string; url: string };
+      response: { content: { size: number; mimeType?: string; text?: string; encoding?: string; comment?: string } };
+    }>;
+  };
+}
+
+/**
+ * Response body collected for the HAR entry, or `omitted` if it didn't fit into the size budget.
+ */
+type CollectedBody = Buffer | 'omitted' | undefined;
+
+/**
+ * Network log recorded during the page load.
+ */
+interface OutputBodyType {
+  timestamp: number;
+  har: Har;
+}
+
+export function registerWebPageHarGetRoutes({ server, cache, acquireBrowserContext, config }: ApiRouteParams) {
+  const log = server.log.child({ provider: 'web_page_har_get' });
+  const cachedFetcher = new CachedFetcher<OutputBodyType>({ cache, log, route: '/api/web_page/har' });
+  return server.post<{ Body: InputBodyParamsType }>(
+    '/api/web_page/har',
+    {
+      schema: {
+        body: {
+          ...NAVIGATION_OPTIONS_SCHEMA_PROPERTIES,
+          headers: { type: 'object' },
+          authentication: AUTHENTICATION_SCHEMA,
+          proxy: PROXY_SCHEMA,
+          emulation: EMULATION_SCHEMA,
+          cache: CACHE_POLICY_SCHEMA,
+          includeBodies: { type: 'boolean' },
+          maxBodiesSize: { type: 'number', minimum: 0, maximum: MAX_BODIES_SIZE_BYTES },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              timestamp: { type: 'number' },
+              har: { type: 'object', additionalProperties: true },
+              cache: CACHE_STATUS_SCHEMA,
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const proxy = request.body.proxy ?? config.proxy;
+      const cacheKey = createObjectHash({
+        route: '/api/web_page/har',
+        url: request.body.url,
+        timeout: request.body.timeout,
+        delay: request.body.delay,
+        waitSelector: request.body.waitSelector,
+        actions: request.body.actions,
+        headers: request.body.headers,
+        proxy: getProxyIdentity(proxy),
+        emulation: request.body.emulation,
+        includeBodies: request.body.includeBodies,
+        maxBodiesSize: request.body.maxBodiesSize,
+      });
+
+      try {
+        const result = await cachedFetcher.fetch(
+          {
+            key: cacheKey,
+            url: request.body.url,
+            policy: request.body.cache,
+            isPrivate: !!request.body.authentication,
+          },
+          async () => {
+            // HAR is only written to disk when the browser context is closed, hence the temporary directory.
+            const harDir = await mkdtemp(join(tmpdir(), 'secutils-har-'));
+            const harPath = join(harDir, 'page.har');
+            try {
+              const leaseResult = await acquireAuthenticatedBrowserContext(
+                acquireBrowserContext,
+                {
+                  extraHTTPHeaders: request.body.headers,
+                  bypassCSP: false,
+                  userAgent: config.userAgent,
+                  ...getEmulationContextOptions(request.body.emulation),
+                  ...(proxy ? { proxy } : {}),
+                  // Bodies are collected separately, so that bodies that don't fit into the budget are never read.
+                  recordHar: { path: harPath, mode: 'full', content: 'omit' },
+                },
+                request.body.authentication,
+              );
+              if (leaseResult.type === 'client-error') {
+                return leaseResult;
+              }
+
+              const { context, release } = leaseResult.data;
+
+              const timestamp = Math.floor(Date.now() / 1000);
+              const bodiesCollector = request.body.includeBodies
+                ? new ResponseBodiesCollector(log, request.body.maxBodiesSize ?? DEFAULT_MAX_BODIES_SIZE_BYTES)
+                : undefined;
+              let navigationResult: ApiResult<unknown>;
+              let webSocketEntries: WebSocketHandshakeHarEntry[];
+              try {
+                const page = await context.newPage();
+                bodiesCollector?.start(page);
+
+                // Browser doesn't record WebSocket handshakes into HAR, they're collected separately.
+                const webSocketHandshakesCollector = new WebSocketHandshakesCollector(
+                  await context.newCDPSession(page),
+                );
+                await webSocketHandshakesCollector.start();
+
+                navigationResult = await loadPage(page, log, request.body);
+                webSocketEntries = webSocketHandshakesCollector.collect();
+              } finally {
+                await release();
+              }
+
+              // Bodies of the responses that haven't completed before the browser context is closed (e.g. endless
+              // streams) can't be retrieved anymore, and collecting them won't block forever.
+              const bodies = await bodiesCollector?.collect();
+
+              if (navigationResult.type === 'client-error') {
+                log.error(
+                  `Cannot capture HAR for page "${request.body.url}" due to client error: ${navigationResult.error}`,
+                );
+                return navigationResult;
+              }
+
+              const har = JSON.parse(await readFile(harPath, 'utf8')) as Har;
+              if (bodies) {
+                embedBodies(har, bodies, request.body.maxBodiesSize ?? DEFAULT_MAX_BODIES_SIZE_BYTES);
+              }
+
+              if (webSocketEntries.length > 0) {
+                // Entries are sorted by the start time, ISO 8601 dates in UTC can be compared as strings.
+                har.log.entries = [...har.log.entries, ...webSocketEntries].sort((entryA, entryB) =>
+                  entryA.startedDateTime.localeCompare(entryB.startedDateTime),
+                );
+              }
+
+              log.debug(
+                `Successfully captured HAR for page "${request.body.url}" (${har.log.entries.length} entries).`,
+              );
+              return { type: 'success' as const, data: { timestamp, har } };
+            } finally {
+              await rm(harDir, { recursive: true, force: true });
+            }
+          },
+        );
+
+        return result.type === 'client-error' ? reply.code(400).send({ message: result.error }) : result.data;
+      } catch (err) {
+        log.error(`Cannot capture HAR for page "${request.body.url}": ${Diagnostics.errorMessage(err)}`);
+        return reply.code(500).send({
+          message: `Cannot capture HAR for page "${request.body.url}". Check the server logs for more details.`,
+        });
+      }
+    },
+  );
+}
+
+/**
+ * Collects response bodies that fit into the size budget, in the order responses are received. Whenever server reports
+ * the response size, it's checked before the body is read, so that bodies that don't fit are never loaded into memory.
+ */
+class ResponseBodiesCollector {
+  // Bodies grouped by the request method and URL, in the order responses are received.
+  private readonly bodies = new Map<string, CollectedBody[]>();
+  private readonly pendingBodies: Array<Promise<void>> = [];
+  private remainingSize: number;
+  private omittedBodies = 0;
+
+  constructor(
+    private readonly log: FastifyBaseLogger,
+    private readonly maxBodiesSize: number,
+  ) {
+    this.remainingSize = maxBodiesSize;
+  }
+
+  public start(page: Page) {
+    page.on('response', (response) => {
+      this.pendingBodies.push(this.collectBody(response));
+    });
+  }
+
+  public async collect() {
+    await Promise.all(this.pendingBodies);
+    if (this.omittedBodies > 0) {
+      this.log.debug(
+        `Omitted ${this.omittedBodies} response bodies that exceed the size budget (${this.maxBodiesSize} bytes).`,
+      );
+    }
+    return this.bodies;
+  }
+
+  private async collectBody(response: Response) {
+    // Reserve the slot synchronously to preserve the order of the responses with the same method and URL.
+    const key = getEntryKey(response.request().method(), response.url());
+    const bodies = this.bodies.get(key) ?? [];
+    this.bodies.set(key, bodies);
+    const index = bodies.push(undefined) - 1;
+
+    try {
+      const contentLength = Number((await response.headerValue('content-length')) ?? NaN);
+      if (contentLength > this.remainingSize) {
+        bodies[index] = 'omitted';
+        this.omittedBodies++;
+        return;
+      }
+
+      const body = await response.body();
+      if (body.length > this.remainingSize) {
+        bodies[index] = 'omitted';
+        this.omittedBodies++;
+      } else if (body.length > 0) {
+        this.remainingSize -= body.length;
+        bodies[index] = body;
+      }
+    } catch (err) {
+      // Redirect responses don't have bodies, and bodies of some responses may not be available anymore.
+      this.log.debug(`Failed to retrieve body for "${response.url()}": ${Diagnostics.errorMessage(err)}`);
+    }
+  }
+}
+
+/**
+ * Embeds collected response bodies into the HAR entries the same way browser does it.
+ */
+function embedBodies(har: Har, bodies: Map<string, CollectedBody[]>, maxBodiesSize: number) {
+  for (const { request, response } of har.log.entries) {
+    const body = bodies.get(getEntryKey(request.method, request.url))?.shift();
+    if (body === 'omitted') {
+      response.content.comment = `Body is omitted since it exceeds the size budget (${maxBodiesSize} bytes).`;
+    } else if (body && TEXTUAL_MIME_TYPE_REGEX.test(response.content.mimeType ?? '')) {
+      response.content.text = body.toString('utf8');
+    } else if (body) {
+      response.content.text = body.toString('base64');
+      response.content.encoding = 'base64';
+    }
+  }
+}
+
+function getEntryKey(method: string, url: string) {
+  return `${method} ${url}`;
+}
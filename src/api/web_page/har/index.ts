@@ -0,0 +1 @@
+export { registerWebPageHarGetRoutes } from './get.js';
@@ -0,0 +1,129 @@
+import type { CDPSession } from 'playwright';
+import type { Protocol } from 'playwright-core/types/protocol.js';
+
+/**
+ * HAR 1.2 entry that describes WebSocket opening handshake.
+ */
+export interface WebSocketHandshakeHarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: never[];
+    headers: HarHeader[];
+    queryString: HarHeader[];
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: never[];
+    headers: HarHeader[];
+    content: { size: number; mimeType: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+  _resourceType: 'websocket';
+}
+
+interface HarHeader {
+  name: string;
+  value: string;
+}
+
+interface WebSocketHandshake {
+  url: string;
+  request?: Protocol.Network.webSocketWillSendHandshakeRequestPayload;
+  response?: Protocol.Network.webSocketHandshakeResponseReceivedPayload;
+}
+
+/**
+ * Collects WebSocket opening handshakes of the page. Playwright doesn't record WebSockets into HAR, so handshakes are
+ * retrieved via CDP and converted into HAR entries the same way browser developer tools do it.
+ */
+export class WebSocketHandshakesCollector {
+  private readonly handshakes = new Map<string, WebSocketHandshake>();
+  constructor(private readonly session: CDPSession) {}
+
+  /**
+   * Starts collecting handshakes, must be called before page navigation.
+   */
+  public async start() {
+    this.session.on('Network.webSocketCreated', ({ requestId, url }) => {
+      this.handshakes.set(requestId, { url });
+    });
+    this.session.on('Network.webSocketWillSendHandshakeRequest', (event) => {
+      const handshake = this.handshakes.get(event.requestId);
+      if (handshake) {
+        handshake.request = event;
+      }
+    });
+    this.session.on('Network.webSocketHandshakeResponseReceived', (event) => {
+      const handshake = this.handshakes.get(event.requestId);
+      if (handshake) {
+        handshake.response = event;
+      }
+    });
+    await this.session.send('Network.enable');
+  }
+
+  /**
+   * Returns HAR entries for the handshakes that have been sent so far.
+   */
+  public collect(): WebSocketHandshakeHarEntry[] {
+    const entries: WebSocketHandshakeHarEntry[] = [];
+    for (const { url, request, response } of this.handshakes.values()) {
+      if (!request) {
+        continue;
+      }
+
+      // Timestamps are in seconds, while HAR timings are in milliseconds. Handshake response without a status (e.g.
+      // failed connection) is recorded with zero status, as HAR suggests.
+      const time = response ? Math.max((response.timestamp - request.timestamp) * 1000, 0) : 0;
+      entries.push({
+        startedDateTime: new Date(request.wallTime * 1000).toISOString(),
+        time,
+        request: {
+          method: 'GET',
+          url,
+          httpVersion: 'HTTP/1.1',
+          cookies: [],
+          headers: toHarHeaders(response?.response.requestHeaders ?? request.request.headers),
+          queryString: Array.from(new URL(url).searchParams, ([name, value]) => ({ name, value })),
+          headersSize: -1,
+          bodySize: 0,
+        },
+        response: {
+          status: response?.response.status ?? 0,
+          statusText: response?.response.statusText ?? '',
+          httpVersion: 'HTTP/1.1',
+          cookies: [],
+          headers: toHarHeaders(response?.response.headers ?? {}),
+          content: { size: 0, mimeType: 'x-unknown' },
+          redirectURL: '',
+          headersSize: -1,
+          bodySize: 0,
+        },
+        cache: {},
+        timings: { send: 0, wait: time, receive: 0 },
+        _resourceType: 'websocket',
+      });
+    }
+
+    return entries;
+  }
+}
+
+function toHarHeaders(headers: Protocol.Network.Headers): HarHeader[] {
+  // CDP joins multiple values of the same header with a new line.
+  return Object.entries(headers).flatMap(([name, value]) =>
+    `${value}`.split('\n').map((headerValue) => ({ name, value: headerValue })),
+  );
+}
@@ -1,7 +1,11 @@
 import { registerWebPageContentGetRoutes } from './content/index.js';
 import type { WebPageContext } from './content/index.js';
+import { registerWebPageHarGetRoutes } from './har/index.js';
+import { registerWebPagePdfGetRoutes } from './pdf/index.js';
 import { registerWebPageResourcesListRoutes } from './resources/index.js';
 import type { WebPageResourceWithRawData } from './resources/list.js';
+import { registerWebPageScreenshotGetRoutes } from './screenshot/index.js';
+import { registerWebPageSessionCreateRoutes } from './session/index.js';
 import type { ApiRouteParams } from '../api_route_params.js';
 
 export interface SecutilsWindow extends Window {
@@ -14,4 +18,8 @@ export interface SecutilsWindow extends Window {
 export function registerRoutes(params: ApiRouteParams) {
   registerWebPageResourcesListRoutes(params);
   registerWebPageContentGetRoutes(params);
+  registerWebPageScreenshotGetRoutes(params);
+  registerWebPagePdfGetRoutes(params);
+  registerWebPageHarGetRoutes(params);
+  registerWebPageSessionCreateRoutes(params);
 }
@@ -0,0 +1,95 @@
+import { setTimeout as setTimeoutAsync } from 'timers/promises';
+
+import type { FastifyBaseLogger } from 'fastify';
+import type { Page, Response } from 'playwright';
+
+import type { PageAction } from './actions.js';
+import { PAGE_ACTIONS_SCHEMA, runPageActions } from './actions.js';
+import { DEFAULT_DELAY_MS, DEFAULT_TIMEOUT_MS } from './constants.js';
+import type { ApiResult } from '../api_result.js';
+import { Diagnostics } from '../diagnostics.js';
+
+/**
+ * Options that control how web page is loaded before anything is extracted from it.
+ */
+export interface NavigationOptions {
+  /**
+   * URL to load web page from.
+   */
+  url: string;
+
+  /**
+   * Number of milliseconds to wait until page enters "idle" state. Default is 10000ms.
+   */
+  timeout?: number;
+
+  /**
+   * Number of milliseconds to wait after page enters "idle" state. Default is 2000ms.
+   */
+  delay?: number;
+
+  /**
+   * Optional CSS selector to wait for before extracting anything from the page.
+   */
+  waitSelector?: string;
+
+  /**
+   * Optional list of actions (e.g. clicks or form inputs) to perform on the page before extracting anything from it.
+   */
+  actions?: PageAction[];
+}
+
+export const NAVIGATION_OPTIONS_SCHEMA_PROPERTIES = {
+  url: { type: 'string' },
+  timeout: { type: 'number' },
+  delay: { type: 'number' },
+  waitSelector: { type: 'string' },
+  actions: PAGE_ACTIONS_SCHEMA,
+};
+
+/**
+ * Loads web page, waits for the selector and performs actions if needed, and then waits for the specified delay.
+ * Returns main resource response, if available.
+ */
+export async function loadPage(
+  page: Page,
+  log: FastifyBaseLogger,
+  { url, waitSelector, actions, timeout = DEFAULT_TIMEOUT_MS, delay = DEFAULT_DELAY_MS }: NavigationOptions,
+): Promise<ApiResult<Response | null>> {
+  log.debug(`Loading page "${url}" (timeout: ${timeout}ms).`);
+  let response: Response | null;
+  try {
+    response = await page.goto(url, { timeout });
+    log.debug(`Page "${url}" is loaded.`);
+  } catch (err) {
+    const errorMessage = `Failed to load page "${url}": ${Diagnostics.errorMessage(err)}`;
+    log.error(errorMessage);
+    return { type: 'client-error', error: errorMessage };
+  }
+
+  if (waitSelector) {
+    try {
+      log.debug(`Waiting for selector "${waitSelector} (timeout: ${timeout}ms)".`);
+      await page.waitForSelector(waitSelector, { timeout });
+      log.debug(`Retrieved selector "${waitSelector}".`);
+    } catch (err) {
+      const errorMessage = `Failed to retrieve selector "${waitSelector}" for page "${url}": ${Diagnostics.errorMessage(
+        err,
+      )}`;
+      log.error(errorMessage);
+      return { type: 'client-error', error: errorMessage };
+    }
+  }
+
+  if (actions && actions.length > 0) {
+    const actionsResult = await runPageActions(page, log, actions);
+    if (actionsResult.type === 'client-error') {
+      return actionsResult;
+    }
+  }
+
+  log.debug(`Delaying extraction for ${delay}ms.`);
+  await setTimeoutAsync(delay);
+
+  return { type: 'success', data: response };
+}
@@ -0,0 +1,71 @@
+import * as assert from 'node:assert';
+import { createHash } from 'node:crypto';
+import { test } from 'node:test';
+
+import type { Browser } from 'playwright/index.js';
+
+import { registerWebPagePdfGetRoutes } from './get.js';
+import { createBrowserContextMock, createBrowserMock, createPageMock } from '../../../mocks.js';
+import { createMock } from '../../api_route_params.mocks.js';
+
+await test('[/api/web_page/pdf] can successfully create route', () => {
+  assert.doesNotThrow(() => registerWebPagePdfGetRoutes(createMock()));
+});
+
+await test('[/api/web_page/pdf] can render PDF', async (t) => {
+  t.mock.method(Date, 'now', () => 123000);
+
+  const pdf = Buffer.from('%PDF-1.4 secutils');
+  const pageMock = createPageMock({ pdf });
+  const response = await registerWebPagePdfGetRoutes(
+    createMock({ browser: createBrowserMock(createBrowserContextMock(pageMock)) as unknown as Browser }),
+  ).inject({
+    method: 'POST',
+    url: '/api/web_page/pdf',
+    payload: {
+      url: 'https://secutils.dev',
+      delay: 0,
+      format: 'A4',
+      margin: { top: '1cm', bottom: '1cm' },
+      printBackground: true,
+      footerTemplate: '<span class="pageNumber"></span>',
+    },
+  });
+
+  assert.strictEqual(response.statusCode, 200);
+  assert.strictEqual(
+    response.body,
+    JSON.stringify({
+      timestamp: 123,
+      data: pdf.toString('base64'),
+      size: pdf.length,
+      sha256: createHash('sha256').update(pdf).digest('hex'),
+      cache: { hit: false, ageSec: 0 },
+    }),
+  );
+
+  assert.strictEqual(pageMock.pdf.mock.callCount(), 1);
+  assert.deepEqual(pageMock.pdf.mock.calls[0].arguments, [
+    {
+      format: 'A4',
+      width: undefined,
+      height: undefined,
+      landscape: undefined,
+      margin: { top: '1cm', bottom: '1cm' },
+      printBackground: true,
+      displayHeaderFooter: true,
+      headerTemplate: '<span></span>',
+      footerTemplate: '<span class="pageNumber"></span>',
+    },
+  ]);
+});
+
+await test('[/api/web_page/pdf] fails if paper format is not supported', async () => {
+  const response = await registerWebPagePdfGetRoutes(createMock()).inject({
+    method: 'POST',
+    url: '/api/web_page/pdf',
+    payload: { url: 'https://secutils.dev', format: 'B5' },
+  });
+
+  assert.strictEqual(response.statusCode, 400);
+});
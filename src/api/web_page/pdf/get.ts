@@ -0,0 +1,302 @@
+import { createHash } from 'node:crypto';
+
+import type { FastifyBaseLogger } from 'fastify';
+import type { BrowserContext } from 'playwright';
+
+import { createObjectHash } from '../../../utilities/index.js';
+import type { ApiResult } from '../../api_result.js';
+import type { ApiRouteParams } from '../../api_route_params.js';
+import type { CachePolicy } from '../../cache_policy.js';
+import { CACHE_POLICY_SCHEMA, CACHE_STATUS_SCHEMA } from '../../cache_policy.js';
+import { CachedFetcher } from '../../cached_fetcher.js';
+import { Diagnostics } from '../../diagnostics.js';
+import type { WebPageAuthentication } from '../authentication.js';
+import { acquireAuthenticatedBrowserContext, AUTHENTICATION_SCHEMA } from '../authentication.js';
+import type { WebPageEmulation } from '../emulation.js';
+import { EMULATION_SCHEMA, getEmulationContextOptions } from '../emulation.js';
+import type { NavigationOptions } from '../navigation.js';
+import { loadPage, NAVIGATION_OPTIONS_SCHEMA_PROPERTIES } from '../navigation.js';
+import type { WebPageProxy } from '../proxy.js';
+import { getProxyIdentity, PROXY_SCHEMA } from '../proxy.js';
+
+// Maximum size of the PDF document in bytes (10MB).
+const MAX_PDF_SIZE_BYTES = 1024 * 1024 * 10;
+
+// Paper formats supported by the browser.
+const PAPER_FORMATS = ['Letter', 'Legal', 'Tabloid', 'Ledger', 'A0', 'A1', 'A2', 'A3', 'A4', 'A5', 'A6'];
+
+/**
+ * Defines type of the input parameters.
+ */
+interface InputBodyParamsType extends NavigationOptions {
+  /**
+   * Optional list of HTTP headers that should be sent with the tracker requests.
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Optional authentication details (HTTP credentials, cookies or session state). Requests with authentication details
+   * bypass the cache.
+   */
+  authentication?: WebPageAuthentication;
+
+  /**
+   * Optional outbound proxy to load the page through. If not specified, the server-wide default proxy is used, if any.
+   */
+  proxy?: WebPageProxy;
+
+  /**
+   * Optional device and environment emulation, e.g. device preset, viewport, locale or time zone.
+   */
+  emulation?: WebPageEmulation;
+
+  /**
+   * Optional cache policy for the request.
+   */
+  cache?: CachePolicy;
+
+  /**
+   * Paper format, e.g. `A4` or `Letter`. Takes precedence over `width` and `height`. Default is `Letter`.
+   */
+  format?: string;
+
+  /**
+   * Paper width and height, accept values labeled with units (`px`, `in`, `cm` or `mm`).
+   */
+  width?: string;
+  height?: string;
+
+  /**
+   * Whether to use landscape orientation. Default is `false`.
+   */
+  landscape?: boolean;
+
+  /**
+   * Paper margins, accept values labeled with units (`px`, `in`, `cm` or `mm`). Default is no margins.
+   */
+  margin?: { top?: string; right?: string; bottom?: string; left?: string };
+
+  /**
+   * Whether to print background graphics. Default is `false`.
+   */
+  printBackground?: boolean;
+
+  /**
+   * Optional HTML templates of the print header and footer, see Playwright `page.pdf()` documentation for the list of
+   * supported placeholder classes (e.g. `pageNumber` or `totalPages`).
+   */
+  headerTemplate?: string;
+  footerTemplate?: string;
+}
+
+/**
+ * Rendered web page PDF document.
+ */
+interface OutputBodyType {
+  timestamp: number;
+  /**
+   * Base64-encoded PDF document.
+   */
+  data: string;
+  /**
+   * Size of the PDF document, in bytes.
+   */
+  size: number;
+  /**
+   * Hex-encoded SHA-256 digest of the PDF document.
+   */
+  sha256: string;
+}
+
+export function registerWebPagePdfGetRoutes({ server, cache, acquireBrowserContext, config }: ApiRouteParams) {
+  const log = server.log.child({ provider: 'web_page_pdf_get' });
+  const cachedFetcher = new CachedFetcher<OutputBodyType>({ cache, log, route: '/api/web_page/pdf' });
+  return server.post<{ Body: InputBodyParamsType }>(
+    '/api/web_page/pdf',
+    {
+      schema: {
+        body: {
+          ...NAVIGATION_OPTIONS_SCHEMA_PROPERTIES,
+          headers: { type: 'object' },
+          authentication: AUTHENTICATION_SCHEMA,
+          proxy: PROXY_SCHEMA,
+          emulation: EMULATION_SCHEMA,
+          cache: CACHE_POLICY_SCHEMA,
+          format: { type: 'string', enum: PAPER_FORMATS },
+          width: { type: 'string' },
+          height: { type: 'string' },
+          landscape: { type: 'boolean' },
+          margin: {
+            type: 'object',
+            properties: {
+              top: { type: 'string' },
+              right: { type: 'string' },
+              bottom: { type: 'string' },
+              left: { type: 'string' },
+            },
+          },
+          printBackground: { type: 'boolean' },
+          headerTemplate: { type: 'string' },
+          footerTemplate: { type: 'string' },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              timestamp: { type: 'number' },
+              data: { type: 'string' },
+              size: { type: 'number' },
+              sha256: { type: 'string' },
+              cache: CACHE_STATUS_SCHEMA,
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const proxy = request.body.proxy ?? config.proxy;
+      const cacheKey = createObjectHash({
+        route: '/api/web_page/pdf',
+        url: request.body.url,
+        timeout: request.body.timeout,
+        delay: request.body.delay,
+        waitSelector: request.body.waitSelector,
+        actions: request.body.actions,
+        headers: request.body.headers,
+        proxy: getProxyIdentity(proxy),
+        emulation: request.body.emulation,
+        format: request.body.format,
+        width: request.body.width,
+        height: request.body.height,
+        landscape: request.body.landscape,
+        margin: request.body.margin,
+        printBackground: request.body.printBackground,
+        headerTemplate: request.body.headerTemplate,
+        footerTemplate: request.body.footerTemplate,
+      });
+
+      try {
+        const result = await cachedFetcher.fetch(
+          {
+            key: cacheKey,
+            url: request.body.url,
+            policy: request.body.cache,
+            isPrivate: !!request.body.authentication,
+          },
+          async () => {
+            const leaseResult = await acquireAuthenticatedBrowserContext(
+              acquireBrowserContext,
+              {
+                extraHTTPHeaders: request.body.headers,
+                bypassCSP: false,
+                userAgent: config.userAgent,
+                ...getEmulationContextOptions(request.body.emulation),
+                ...(proxy ? { proxy } : {}),
+              },
+              request.body.authentication,
+            );
+            if (leaseResult.type === 'client-error') {
+              return leaseResult;
+            }
+
+            const { context, release } = leaseResult.data;
+            try {
+              const result = await getPdf(context, log, request.body);
+              if (result.type === 'client-error') {
+                log.error(`Cannot render PDF for page "${request.body.url}" due to client error: ${result.error}`);
+              } else {
+                log.debug(`Successfully rendered PDF for page "${request.body.url}".`);
+              }
+              return result;
+            } finally {
+              await release();
+            }
+          },
+        );
+
+        return result.type === 'client-error' ? reply.code(400).send({ message: result.error }) : result.data;
+      } catch (err) {
+        log.error(`Cannot render PDF for page "${request.body.url}": ${Diagnostics.errorMessage(err)}`);
+        return reply.code(500).send({
+          message: `Cannot render PDF for page "${request.body.url}". Check the server logs for more details.`,
+        });
+      }
+    },
+  );
+}
+
+async function getPdf(
+  context: BrowserContext,
+  log: FastifyBaseLogger,
+  {
+    url,
+    waitSelector,
+    actions,
+    timeout,
+    delay,
+    format,
+    width,
+    height,
+    landscape,
+    margin,
+    printBackground,
+    headerTemplate,
+    footerTemplate,
+  }: InputBodyParamsType,
+): Promise<ApiResult<OutputBodyType>> {
+  const page = await context.newPage();
+
+  const navigationResult = await loadPage(page, log, { url, waitSelector, actions, timeout, delay });
+  if (navigationResult.type === 'client-error') {
+    return navigationResult;
+  }
+
+  const timestamp = Math.floor(Date.now() / 1000);
+  let pdf: Buffer;
+  try {
+    log.debug(`Rendering PDF for "${url}".`);
+    const displayHeaderFooter = headerTemplate !== undefined || footerTemplate !== undefined;
+    pdf = await page.pdf({
+      format,
+      width,
+      height,
+      landscape,
+      margin,
+      printBackground,
+      displayHeaderFooter,
+      // Browser renders default header and footer if only one of the templates is specified.
+      headerTemplate: displayHeaderFooter ? headerTemplate ?? '<span></span>' : undefined,
+      footerTemplate: displayHeaderFooter ? footerTemplate ?? '<span></span>' : undefined,
+    });
+  } catch (err) {
+    const errorMessage = `Failed to render PDF for page "${url}": ${Diagnostics.errorMessage(err)}`;
+    log.error(errorMessage);
+    return { type: 'client-error', error: errorMessage };
+  }
+
+  if (pdf.length > MAX_PDF_SIZE_BYTES) {
+    return {
+      type: 'client-error',
+      error: `PDF document is too large (size: ${pdf.length} bytes, max: ${MAX_PDF_SIZE_BYTES} bytes).`,
+    };
+  }
+
+  log.debug(`Successfully rendered PDF for "${url}" (${pdf.length} bytes).`);
+
+  try {
+    await page.close();
+    log.debug(`Closed page "${url}".`);
+  } catch (err) {
+    log.error(`Failed to close page "${url}": ${Diagnostics.errorMessage(err)}`);
+  }
+
+  return {
+    type: 'success',
+    data: {
+      timestamp,
+      data: pdf.toString('base64'),
+      size: pdf.length,
+      sha256: createHash('sha256').update(pdf).digest('hex'),
+    },
+  };
+}
@@ -0,0 +1 @@
+export { registerWebPagePdfGetRoutes } from './get.js';
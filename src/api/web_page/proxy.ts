@@ -0,0 +1,38 @@
+import { createHash } from 'node:crypto';
+
+import type { ProxyConfig } from '../../config.js';
+
+/**
+ * Describes outbound proxy the browser should route page requests through. HTTP, HTTPS and SOCKS5 proxies are
+ * supported, credentials aren't supported for SOCKS5 proxies.
+ */
+export type WebPageProxy = ProxyConfig;
+
+export const PROXY_SCHEMA = {
+  type: 'object',
+  properties: {
+    server: { type: 'string', pattern: '^(https?|socks5)://' },
+    bypass: { type: 'string' },
+    username: { type: 'string' },
+    password: { type: 'string' },
+  },
+  required: ['server'],
+  // Chromium doesn't support SOCKS5 proxy authentication.
+  if: { properties: { server: { type: 'string', pattern: '^socks5://' } } },
+  then: { not: { anyOf: [{ required: ['username'] }, { required: ['password'] }] } },
+};
+
+/**
+ * Returns proxy properties that identify the proxy (e.g. to be used in the cache key). The password is replaced with
+ * its hash, so that responses fetched with different credentials aren't shared, but the password isn't exposed.
+ */
+export function getProxyIdentity(proxy?: WebPageProxy) {
+  return proxy
+    ? {
+        server: proxy.server,
+        bypass: proxy.bypass,
+        username: proxy.username,
+        passwordHash: proxy.password ? createHash('sha256').update(proxy.password).digest('hex') : undefined,
+      }
+    : undefined;
+}
@@ -0,0 +1,129 @@
+import jsonStableStringify from 'fast-json-stable-stringify';
+
+import type { WebPageResource } from './web_page_resource.js';
+import { tlsHashDiff } from '../../tls_hash.js';
+
+/**
+ * Default maximum TLSH distance at which resources with different URLs are still considered the same modified
+ * resource.
+ */
+export const DEFAULT_TLSH_SIMILARITY_THRESHOLD = 100;
+
+/**
+ * Describes resource that has been modified since the previous snapshot.
+ */
+export interface WebPageResourceModification {
+  previous: WebPageResource;
+  current: WebPageResource;
+  /**
+   * Describes how the previous resource was matched to the current one.
+   */
+  matchedBy: 'url' | 'tlsh';
+  /**
+   * TLSH distance between previous and current resource content, if both have TLS hashes.
+   */
+  distance?: number;
+}
+
+/**
+ * Describes the difference between previous and current resource snapshots.
+ */
+export interface WebPageResourcesDiff {
+  added: WebPageResource[];
+  removed: WebPageResource[];
+  unchanged: WebPageResource[];
+  modified: WebPageResourceModification[];
+}
+
+interface DiffOptions {
+  /**
+   * Maximum TLSH distance at which resources are considered similar.
+   */
+  tlshThreshold?: number;
+}
+
+export function diffWebPageResources(
+  previous: WebPageResource[],
+  current: WebPageResource[],
+  { tlshThreshold = DEFAULT_TLSH_SIMILARITY_THRESHOLD }: DiffOptions = {},
+): WebPageResourcesDiff {
+  const diff: WebPageResourcesDiff = { added: [], removed: [], unchanged: [], modified: [] };
+
+  // Resources with the same URL and content are unchanged. The same resource can be included multiple times, so every
+  // previous resource can only be matched once.
+  const remainingPrevious = [...previous];
+  let remainingCurrent: WebPageResource[] = [];
+  for (const resource of current) {
+    const resourceKey = jsonStableStringify(resource);
+    const previousIndex = remainingPrevious.findIndex((res) => jsonStableStringify(res) === resourceKey);
+    if (previousIndex >= 0) {
+      remainingPrevious.splice(previousIndex, 1);
+      diff.unchanged.push(resource);
+    } else {
+      remainingCurrent.push(resource);
+    }
+  }
+
+  // Resources with the same URL, but different content are modified.
+  let unmatchedCurrent: WebPageResource[] = [];
+  for (const resource of remainingCurrent) {
+    const previousIndex = resource.url ? remainingPrevious.findIndex((res) => res.url === resource.url) : -1;
+    if (previousIndex >= 0) {
+      const [previousResource] = remainingPrevious.splice(previousIndex, 1);
+      diff.modified.push(createModification(previousResource, resource, 'url'));
+    } else {
+      unmatchedCurrent.push(resource);
+    }
+  }
+
+  // Remaining resources are matched by the closest TLSH distance, if it's within threshold.
+  remainingCurrent = unmatchedCurrent;
+  unmatchedCurrent = [];
+  for (const resource of remainingCurrent) {
+    let closestIndex = -1;
+    let closestDistance = Infinity;
+    remainingPrevious.forEach((previousResource, index) => {
+      const distance = getTlshDistance(previousResource, resource);
+      if (distance !== undefined && distance <= tlshThreshold && distance < closestDistance) {
+        closestIndex = index;
+        closestDistance = distance;
+      }
+    });
+
+    if (closestIndex >= 0) {
+      const [previousResource] = remainingPrevious.splice(closestIndex, 1);
+      diff.modified.push(createModification(previousResource, resource, 'tlsh'));
+    } else {
+      unmatchedCurrent.push(resource);
+    }
+  }
+
+  diff.added = unmatchedCurrent;
+  diff.removed = remainingPrevious;
+
+  return diff;
+}
+
+function createModification(
+  previous: WebPageResource,
+  current: WebPageResource,
+  matchedBy: WebPageResourceModification['matchedBy'],
+): WebPageResourceModification {
+  const distance = getTlshDistance(previous, current);
+  return distance !== undefined ? { previous, current, matchedBy, distance } : { previous, current, matchedBy };
+}
+
+function getTlshDistance(left: WebPageResource, right: WebPageResource) {
+  const leftData = left.content?.data;
+  const rightData = right.content?.data;
+  if (!leftData?.tlsh || !rightData?.tlsh) {
+    return;
+  }
+
+  try {
+    return tlsHashDiff(leftData.tlsh, rightData.tlsh);
+  } catch {
+    // Previous snapshot can include malformed hashes, such resources just can't be matched by similarity.
+    return;
+  }
+}
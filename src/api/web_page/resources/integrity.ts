@@ -0,0 +1,78 @@
+import { createHash } from 'node:crypto';
+
+import { getDomain } from 'tldts';
+
+import type { WebPageResourceIntegrity } from './web_page_resource.js';
+
+// Hash algorithms supported by Subresource Integrity, from the weakest to the strongest.
+const SRI_ALGORITHMS = ['sha256', 'sha384', 'sha512'] as const;
+type SriAlgorithm = (typeof SRI_ALGORITHMS)[number];
+
+interface AuditIntegrityParams {
+  pageUrl: string;
+  resourceUrl: string;
+  type: 'script' | 'stylesheet';
+  /**
+   * Value of the `integrity` attribute, if present.
+   */
+  integrity?: string;
+  /**
+   * Value of the `crossorigin` attribute, if present.
+   */
+  crossOrigin?: string;
+  /**
+   * Raw resource body fetched by the browser, if it was captured. Digests should be calculated over the exact bytes
+   * the browser received, and not over their decoded representation.
+   */
+  body?: Buffer;
+}
+
+/**
+ * Verifies Subresource Integrity metadata of the external resource against its body.
+ */
+export function auditResourceIntegrity({
+  pageUrl,
+  resourceUrl,
+  type,
+  integrity,
+  crossOrigin,
+  body,
+}: AuditIntegrityParams): WebPageResourceIntegrity {
+  const pageHostname = new URL(pageUrl).hostname;
+  const resourceHostname = new URL(resourceUrl).hostname;
+  const isThirdParty = (getDomain(resourceHostname) ?? resourceHostname) !== (getDomain(pageHostname) ?? pageHostname);
+
+  // Browsers ignore metadata with unknown algorithms, and only use the metadata with the strongest algorithm.
+  const metadata = (integrity ?? '')
+    .split(/\s+/)
+    .map((item) => {
+      const [algorithm, digest] = item.split('?')[0].split(/-(.*)/s);
+      return { algorithm, digest };
+    })
+    .filter(({ algorithm, digest }) => digest && SRI_ALGORITHMS.includes(algorithm as SriAlgorithm));
+  if (metadata.length === 0) {
+    return {
+      present: false,
+      ...(crossOrigin !== undefined ? { crossOrigin } : {}),
+      thirdParty: isThirdParty,
+      flagged: isThirdParty && type === 'script',
+    };
+  }
+
+  const algorithm =
+    SRI_ALGORITHMS[Math.max(...metadata.map((item) => SRI_ALGORITHMS.indexOf(item.algorithm as SriAlgorithm)))];
+  let status: WebPageResourceIntegrity['status'] = 'unverified';
+  if (body !== undefined) {
+    const digest = createHash(algorithm).update(body).digest('base64');
+    status = metadata.some((item) => item.algorithm === algorithm && item.digest === digest) ? 'match' : 'mismatch';
+  }
+
+  return {
+    present: true,
+    algorithm,
+    status,
+    ...(crossOrigin !== undefined ? { crossOrigin } : {}),
+    thirdParty: isThirdParty,
+    flagged: false,
+  };
+}
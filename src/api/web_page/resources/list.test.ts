@@ -1,5 +1,6 @@
 import * as assert from 'node:assert';
 import { Blob } from 'node:buffer';
+import { createHash } from 'node:crypto';
 import { mock, test } from 'node:test';
 
 import type { Browser } from 'playwright/index.js';
@@ -11,11 +12,15 @@ import {
   createBrowserContextMock,
   createBrowserMock,
   createCDPSessionMock,
+  createFrameMock,
   createPageMock,
+  createResponseMock,
   createWindowMock,
 } from '../../../mocks.js';
 import { createMock } from '../../api_route_params.mocks.js';
 
+const MAIN_FRAME = { url: 'https://secutils.dev/', path: [] };
+
 await test('[/api/web_page/resources] can successfully create route', () => {
   assert.doesNotThrow(() => registerWebPageResourcesListRoutes(createMock()));
 });
@@ -103,6 +108,7 @@ await test('[/api/web_page/resources] can parse resources', async (t) => {
     response.body,
     JSON.stringify({
       timestamp: 123,
+      mode: 'browser',
       scripts: [
         {
           url: 'https://secutils.dev/script.js',
@@ -110,6 +116,7 @@ await test('[/api/web_page/resources] can parse resources', async (t) => {
             data: { tlsh: 'T156A002B39256197413252E602EA57AC67D66540474113459D79DB004B1608C7C8EEEDD' },
             size: 65,
           },
+          frame: MAIN_FRAME,
         },
         {
           url: 'https://secutils.dev/script.js',
@@ -117,24 +124,28 @@ await test('[/api/web_page/resources] can parse resources', async (t) => {
             data: { tlsh: 'T156A002B39256197413252E602EA57AC67D66540474113459D79DB004B1608C7C8EEEDD' },
             size: 65,
           },
+          frame: MAIN_FRAME,
         },
         {
           content: {
             data: { tlsh: 'T172A0021519C40C242F86775C090C100124801A5170435C46500D52FE00557F2807D114' },
             size: 60,
           },
+          frame: MAIN_FRAME,
         },
         {
           content: {
             data: { raw: 'alert(1)' },
             size: 8,
           },
+          frame: MAIN_FRAME,
         },
         {
           content: {
             data: { sha1: 'eeb57986d46355a4ccfab37c3071f40e2b14ab07' },
             size: 264,
           },
+          frame: MAIN_FRAME,
         },
         {
           url: 'data:text/javascript;base64,[T1B7B0920E581F5C01C2C0128830FCB23897382835A00C4A57783C7BD4344CA70280F388]',
@@ -142,6 +153,7 @@ await test('[/api/web_page/resources] can parse resources', async (t) => {
             data: { tlsh: 'T1B7B0920E581F5C01C2C0128830FCB23897382835A00C4A57783C7BD4344CA70280F388' },
             size: 116,
           },
+          frame: MAIN_FRAME,
         },
         {
           url: 'https://secutils.dev/weird-script.js',
@@ -149,6 +161,7 @@ await test('[/api/web_page/resources] can parse resources', async (t) => {
             data: { tlsh: 'T196A022F3A2020E3003222F202EA83AC23C2200083020300AC38CF000B0308C3C8EEECC' },
             size: 73,
           },
+          frame: MAIN_FRAME,
         },
         {
           url: 'blob:[T1D8A002151DC80C343F85775C0D0C500234801F55B0836C45600D17FF0095FF284BD128]',
@@ -156,16 +169,18 @@ await test('[/api/web_page/resources] can parse resources', async (t) => {
             data: { tlsh: 'T1D8A002151DC80C343F85775C0D0C500234801F55B0836C45600D17FF0095FF284BD128' },
             size: 66,
           },
+          frame: MAIN_FRAME,
         },
       ],
       styles: [
-        { url: 'https://secutils.dev/style.css' },
+        { url: 'https://secutils.dev/style.css', frame: MAIN_FRAME },
         {
           url: 'https://secutils.dev/fonts.css',
           content: {
             data: { tlsh: 'T19590220E23308028C000888020033280308C008300000328208008C0808CCE02200B00' },
             size: 51,
           },
+          frame: MAIN_FRAME,
         },
         {
           url: 'data:text/css,[T110A02222C3020C0330CB800FA0B2800B8A32088880382FE83C38C02C020E00020238FA]',
@@ -173,6 +188,7 @@ await test('[/api/web_page/resources] can parse resources', async (t) => {
             data: { tlsh: 'T110A02222C3020C0330CB800FA0B2800B8A32088880382FE83C38C02C020E00020238FA' },
             size: 66,
           },
+          frame: MAIN_FRAME,
         },
         {
           url: 'blob:[T19F900206CA51495B759B81595461850B423A11C954786B18786A55980615454A1224F1]',
@@ -180,26 +196,31 @@ await test('[/api/web_page/resources] can parse resources', async (t) => {
             data: { tlsh: 'T19F900206CA51495B759B81595461850B423A11C954786B18786A55980615454A1224F1' },
             size: 50,
           },
+          frame: MAIN_FRAME,
         },
         {
           content: {
             data: { tlsh: 'T13DA0021ADB65454A32DF5A68356397A0526D548889104B7C3D5EB894D74C0617112791' },
             size: 60,
           },
+          frame: MAIN_FRAME,
         },
         {
           content: {
             data: { raw: '* { aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa }' },
             size: 56,
           },
+          frame: MAIN_FRAME,
         },
         {
           content: {
             data: { raw: '* {}' },
             size: 4,
           },
+          frame: MAIN_FRAME,
         },
       ],
+      cache: { hit: false, ageSec: 0 },
     }),
   );
 
@@ -292,6 +313,7 @@ await test('[/api/web_page/resources] can inject resource filters', async (t) =>
     response.body,
     JSON.stringify({
       timestamp: 123,
+      mode: 'browser',
       scripts: [
         {
           url: 'https://secutils.dev/script.js',
@@ -299,6 +321,7 @@ await test('[/api/web_page/resources] can inject resource filters', async (t) =>
             data: { tlsh: 'T156A002B39256197413252E602EA57AC67D66540474113459D79DB004B1608C7C8EEEDD' },
             size: 65,
           },
+          frame: MAIN_FRAME,
         },
       ],
       styles: [
@@ -308,14 +331,17 @@ await test('[/api/web_page/resources] can inject resource filters', async (t) =>
             data: { tlsh: 'T19590220E23308028C000888020033280308C008300000328208008C0808CCE02200B00' },
             size: 51,
           },
+          frame: MAIN_FRAME,
         },
         {
           content: {
             data: { tlsh: 'T13DA0021ADB65454A32DF5A68356397A0526D548889104B7C3D5EB894D74C0617112791' },
             size: 60,
           },
+          frame: MAIN_FRAME,
         },
       ],
+      cache: { hit: false, ageSec: 0 },
     }),
   );
 
@@ -337,6 +363,7 @@ await test('[/api/web_page/resources] can inject resource filters', async (t) =>
     {
       data: 'window.document.body.innerHTML = "Hello Secutils.dev and world!";',
       type: 'script',
+      frame: MAIN_FRAME,
       url: 'https://secutils.dev/script.js',
     },
   ]);
@@ -344,12 +371,14 @@ await test('[/api/web_page/resources] can inject resource filters', async (t) =>
     {
       data: 'alert(1)alert(1)alert(1)alert(1)alert(1)alert(1)alert(1)alert(1)alert(1)alert(1)',
       type: 'script',
+      frame: MAIN_FRAME,
     },
   ]);
   assert.deepEqual(resourceFilterMapMock.mock.calls[2].arguments, [
     {
       data: '* { color: blue-ish-not-valid; font-size: 100500; }',
       type: 'stylesheet',
+      frame: MAIN_FRAME,
       url: 'https://secutils.dev/fonts.css',
     },
   ]);
@@ -357,6 +386,7 @@ await test('[/api/web_page/resources] can inject resource filters', async (t) =>
     {
       data: '* { color: black; background-color: white; font-size: 100; }',
       type: 'stylesheet',
+      frame: MAIN_FRAME,
     },
   ]);
 });
@@ -406,6 +436,851 @@ await test('[/api/web_page/resources] reports errors in resource filters', async
     {
       data: 'alert(1)',
       type: 'script',
+      frame: MAIN_FRAME,
     },
   ]);
 });
+
+await test('[/api/web_page/resources] can diff resources against previous snapshot', async (t) => {
+  t.mock.method(Date, 'now', () => 123000);
+
+  const windowMock = createWindowMock();
+  windowMock.document.querySelectorAll.mock.mockImplementation((selector: string) => {
+    if (selector === 'script') {
+      return [
+        { src: 'https://secutils.dev/script.js', innerHTML: '' },
+        { src: 'https://secutils.dev/script-v2.js', innerHTML: '' },
+        { src: '', innerHTML: 'alert(1)' },
+      ];
+    }
+
+    if (selector === 'link[rel=stylesheet]') {
+      return [{ href: 'https://secutils.dev/fonts.css' }];
+    }
+
+    return [];
+  });
+
+  const cdpSessionMock = createCDPSessionMock([
+    {
+      url: 'https://secutils.dev/script.js',
+      body: 'window.document.body.innerHTML = "Hello Secutils.dev and world!";',
+      resourceType: 'Script',
+    },
+    {
+      url: 'https://secutils.dev/script-v2.js',
+      body: 'window.document.body.innerHTML = "Hello Secutils.dev and World!";',
+      resourceType: 'Script',
+    },
+  ]);
+  const browserContextMock = createBrowserContextMock(createPageMock({ window: windowMock }), cdpSessionMock);
+
+  const scriptResource = {
+    url: 'https://secutils.dev/script.js',
+    content: {
+      data: { tlsh: 'T156A002B39256197413252E602EA57AC67D66540474113459D79DB004B1608C7C8EEEDD' },
+      size: 65,
+    },
+    frame: MAIN_FRAME,
+  };
+  const previousScriptV1Resource = {
+    url: 'https://secutils.dev/script-v1.js',
+    content: {
+      data: { tlsh: 'T156A002B39256197413252E602EA57AC67D66540474113459D79DB004B1608C7C8EEEDD' },
+      size: 65,
+    },
+  };
+  const previousFontsResource = { url: 'https://secutils.dev/fonts.css', content: { data: { raw: '* {}' }, size: 4 } };
+  const previousStyleResource = { content: { data: { raw: 'body {}' }, size: 7 } };
+
+  const response = await registerWebPageResourcesListRoutes(
+    createMock({ browser: createBrowserMock(browserContextMock) as unknown as Browser }),
+  ).inject({
+    method: 'POST',
+    url: '/api/web_page/resources',
+    payload: {
+      url: 'https://secutils.dev',
+      delay: 0,
+      previousResources: {
+        scripts: [scriptResource, previousScriptV1Resource],
+        styles: [previousFontsResource, previousStyleResource],
+      },
+    },
+  });
+
+  assert.strictEqual(response.statusCode, 200);
+
+  const { diff } = JSON.parse(response.body) as { diff: unknown };
+  assert.deepStrictEqual(diff, {
+    scripts: {
+      added: [{ content: { data: { raw: 'alert(1)' }, size: 8 }, frame: MAIN_FRAME }],
+      removed: [],
+      unchanged: [scriptResource],
+      modified: [
+        {
+          previous: previousScriptV1Resource,
+          current: {
+            url: 'https://secutils.dev/script-v2.js',
+            content: {
+              data: { tlsh: 'T1A1A002B3929619B413252D603EA576C6BD66540474113458D75DB004B1508C7C8EFEED' },
+              size: 65,
+            },
+            frame: MAIN_FRAME,
+          },
+          matchedBy: 'tlsh',
+          distance: 12,
+        },
+      ],
+    },
+    styles: {
+      added: [],
+      removed: [previousStyleResource],
+      unchanged: [],
+      modified: [
+        {
+          previous: previousFontsResource,
+          current: { url: 'https://secutils.dev/fonts.css', frame: MAIN_FRAME },
+          matchedBy: 'url',
+        },
+      ],
+    },
+  });
+});
+
+await test('[/api/web_page/resources] can collect CSP violations', async (t) => {
+  t.mock.method(Date, 'now', () => 123000);
+
+  const violation = {
+    documentURI: 'https://secutils.dev/',
+    blockedURI: 'https://cdn.secutils.dev/script.js',
+    violatedDirective: 'script-src-elem',
+    effectiveDirective: 'script-src-elem',
+    disposition: 'enforce',
+    sourceFile: 'https://secutils.dev/',
+    lineNumber: 10,
+    columnNumber: 5,
+  };
+
+  // Browser reports violations through the exposed binding while the page is loading.
+  const pageMock = createPageMock({ window: createWindowMock() });
+  pageMock.goto.mock.mockImplementation(() => {
+    const [, reportViolation] = pageMock.exposeBinding.mock.calls[0].arguments as unknown as [
+      string,
+      (source: unknown, violation: unknown) => void,
+    ];
+    reportViolation({}, violation);
+    reportViolation({}, { ...violation, disposition: 'report' });
+    return Promise.resolve(createResponseMock({ url: 'https://secutils.dev', type: 'document' }));
+  });
+
+  const response = await registerWebPageResourcesListRoutes(
+    createMock({ browser: createBrowserMock(createBrowserContextMock(pageMock)) as unknown as Browser }),
+  ).inject({
+    method: 'POST',
+    url: '/api/web_page/resources',
+    payload: { url: 'https://secutils.dev', delay: 0, cspViolations: {} },
+  });
+
+  assert.strictEqual(response.statusCode, 200);
+  assert.strictEqual(
+    response.body,
+    JSON.stringify({
+      timestamp: 123,
+      mode: 'browser',
+      scripts: [],
+      styles: [],
+      cache: { hit: false, ageSec: 0 },
+      cspViolations: [violation],
+    }),
+  );
+  assert.strictEqual(pageMock.exposeBinding.mock.callCount(), 1);
+  assert.strictEqual(pageMock.addInitScript.mock.callCount(), 1);
+});
+
+await test('[/api/web_page/resources] can recommend CSP', async () => {
+  const windowMock = createWindowMock();
+  windowMock.document.querySelectorAll.mock.mockImplementation((selector: string) => {
+    if (selector === 'script:not([src])') {
+      return [
+        { type: '', textContent: 'alert(1)' },
+        { type: 'application/ld+json', textContent: '{}' },
+      ];
+    }
+
+    return [];
+  });
+
+  const pageMock = createPageMock({
+    window: windowMock,
+    responses: [
+      createResponseMock({ url: 'https://secutils.dev/script.js', type: 'script' }),
+      createResponseMock({ url: 'https://cdn.secutils.dev/script.js', type: 'script' }),
+      createResponseMock({ url: 'https://cdn.secutils.dev/style.css', type: 'stylesheet' }),
+      createResponseMock({ url: 'data:image/png;base64,AAAA', type: 'image' }),
+      createResponseMock({ url: 'https://secutils.dev', type: 'document' }),
+    ],
+  });
+  const responseMock = createResponseMock({ url: 'https://secutils.dev', type: 'document' });
+  responseMock.allHeaders.mock.mockImplementation(() =>
+    Promise.resolve({ 'content-security-policy': "default-src 'self'; img-src *" }),
+  );
+  pageMock.goto.mock.mockImplementation(() => Promise.resolve(responseMock));
+
+  const response = await registerWebPageResourcesListRoutes(
+    createMock({ browser: createBrowserMock(createBrowserContextMock(pageMock)) as unknown as Browser }),
+  ).inject({
+    method: 'POST',
+    url: '/api/web_page/resources',
+    payload: { url: 'https://secutils.dev', delay: 0, recommendCsp: true },
+  });
+
+  assert.strictEqual(response.statusCode, 200);
+
+  const inlineScriptHash = `'sha256-${createHash('sha256').update('alert(1)').digest('base64')}'`;
+  assert.deepStrictEqual((JSON.parse(response.body) as { recommendedCsp: unknown }).recommendedCsp, {
+    policy: `default-src 'none'; base-uri 'self'; form-action 'self'; frame-ancestors 'self'; img-src data:; script-src 'self' ${inlineScriptHash} https://cdn.secutils.dev; style-src https://cdn.secutils.dev`,
+    directives: [
+      { name: 'default-src', values: ["'none'"] },
+      { name: 'base-uri', values: ["'self'"] },
+      { name: 'form-action', values: ["'self'"] },
+      { name: 'frame-ancestors', values: ["'self'"] },
+      { name: 'img-src', values: ['data:'] },
+      { name: 'script-src', values: ["'self'", inlineScriptHash, 'https://cdn.secutils.dev'] },
+      { name: 'style-src', values: ['https://cdn.secutils.dev'] },
+    ],
+    currentPolicy: "default-src 'self'; img-src *",
+    diff: [
+      { directive: 'default-src', added: ["'none'"], removed: ["'self'"] },
+      { directive: 'img-src', added: ['data:'], removed: ['*'] },
+      { directive: 'base-uri', added: ["'self'"], removed: [] },
+      { directive: 'form-action', added: ["'self'"], removed: [] },
+      { directive: 'frame-ancestors', added: ["'self'"], removed: [] },
+      { directive: 'script-src', added: [inlineScriptHash, 'https://cdn.secutils.dev'], removed: [] },
+      { directive: 'style-src', added: ['https://cdn.secutils.dev'], removed: ["'self'"] },
+    ],
+  });
+});
+
+await test('[/api/web_page/resources] recommends CSP only for main frame requests', async () => {
+  const nestedFrame = createFrameMock({ url: 'https://nested.secutils.dev/' });
+  const childFrame = createFrameMock({ url: 'https://embed.secutils.dev/', childFrames: [nestedFrame] });
+  const pageMock = createPageMock({
+    responses: [
+      createResponseMock({ url: 'https://cdn.secutils.dev/script.js', type: 'script' }),
+      createResponseMock({ url: 'https://embed.secutils.dev/', type: 'document', frame: childFrame }),
+      createResponseMock({ url: 'https://embed-cdn.secutils.dev/script.js', type: 'script', frame: childFrame }),
+      createResponseMock({ url: 'https://nested.secutils.dev/', type: 'document', frame: nestedFrame }),
+    ],
+  });
+
+  const response = await registerWebPageResourcesListRoutes(
+    createMock({ browser: createBrowserMock(createBrowserContextMock(pageMock)) as unknown as Browser }),
+  ).inject({
+    method: 'POST',
+    url: '/api/web_page/resources',
+    payload: { url: 'https://secutils.dev', delay: 0, recommendCsp: true },
+  });
+
+  // Only the child frame navigation is controlled by the page policy, frames load everything else on their own.
+  assert.strictEqual(response.statusCode, 200);
+  assert.strictEqual(
+    (JSON.parse(response.body) as { recommendedCsp: { policy: string } }).recommendedCsp.policy,
+    "default-src 'none'; base-uri 'self'; form-action 'self'; frame-ancestors 'self'; frame-src https://embed.secutils.dev; script-src https://cdn.secutils.dev",
+  );
+});
+
+await test('[/api/web_page/resources] recommends CSP for the redirected page', async () => {
+  const pageMock = createPageMock({
+    responses: [
+      createResponseMock({ url: 'https://www.secutils.dev/script.js', type: 'script' }),
+      createResponseMock({ url: 'https://secutils.dev/script.js', type: 'script' }),
+    ],
+  });
+  pageMock.goto.mock.mockImplementation(() =>
+    Promise.resolve(createResponseMock({ url: 'https://www.secutils.dev/', type: 'document' })),
+  );
+
+  const response = await registerWebPageResourcesListRoutes(
+    createMock({ browser: createBrowserMock(createBrowserContextMock(pageMock)) as unknown as Browser }),
+  ).inject({
+    method: 'POST',
+    url: '/api/web_page/resources',
+    payload: { url: 'http://secutils.dev', delay: 0, recommendCsp: true },
+  });
+
+  // Page is redirected from the apex domain to `www`, so only the latter is the page origin.
+  assert.strictEqual(response.statusCode, 200);
+  assert.deepStrictEqual(
+    (JSON.parse(response.body) as { recommendedCsp: { directives: unknown[] } }).recommendedCsp.directives.find(
+      (directive) => (directive as { name: string }).name === 'script-src',
+    ),
+    { name: 'script-src', values: ["'self'", 'https://secutils.dev'] },
+  );
+});
+
+await test('[/api/web_page/resources] collects data for CSP recommendation before page is closed', async () => {
+  const windowMock = createWindowMock();
+  windowMock.document.querySelectorAll.mock.mockImplementation((selector: string) =>
+    selector === 'style' ? [{ textContent: 'body { color: red; }' }] : [],
+  );
+
+  const pageMock = createPageMock({ window: windowMock });
+  const responseMock = createResponseMock({
+    url: 'https://secutils.dev',
+    type: 'document',
+    headers: { 'content-security-policy': "default-src 'self'" },
+  });
+  pageMock.goto.mock.mockImplementation(() => Promise.resolve(responseMock));
+
+  const response = await registerWebPageResourcesListRoutes(
+    createMock({ browser: createBrowserMock(createBrowserContextMock(pageMock)) as unknown as Browser }),
+  ).inject({
+    method: 'POST',
+    url: '/api/web_page/resources',
+    payload: { url: 'https://secutils.dev', delay: 0, recommendCsp: true },
+  });
+
+  assert.strictEqual(response.statusCode, 200);
+  const { recommendedCsp } = JSON.parse(response.body) as { recommendedCsp: { policy: string; currentPolicy: string } };
+  assert.match(recommendedCsp.policy, / style-src 'sha256-[^']+'/);
+  assert.strictEqual(recommendedCsp.currentPolicy, "default-src 'self'");
+
+  // Page and its response are no longer accessible once the page is closed.
+  assert.strictEqual(pageMock.close.mock.callCount(), 1);
+  await assert.rejects(async () => pageMock.evaluateHandle(), /Target page, context or browser has been closed/);
+  await assert.rejects(() => responseMock.allHeaders(), /Target page, context or browser has been closed/);
+});
+
+await test('[/api/web_page/resources] can audit subresource integrity', async () => {
+  const scriptBody = 'window.document.body.innerHTML = "Hello Secutils.dev and world!";';
+  const styleBody = 'body { background-color: blue; }';
+  const scriptHash = createHash('sha384').update(scriptBody).digest('base64');
+
+  const windowMock = createWindowMock();
+  windowMock.document.querySelectorAll.mock.mockImplementation((selector: string) => {
+    if (selector === 'script') {
+      return [
+        {
+          src: 'https://cdn.example.com/script.js',
+          innerHTML: '',
+          integrity: `sha256-invalid sha384-${scriptHash}`,
+          crossOrigin: 'anonymous',
+        },
+        { src: 'https://ads.example.org/ads.js', innerHTML: '', integrity: '', crossOrigin: null },
+      ];
+    }
+
+    if (selector === 'link[rel=stylesheet]') {
+      return [{ href: 'https://static.secutils.dev/style.css', integrity: 'sha256-invalid', crossOrigin: null }];
+    }
+
+    return [];
+  });
+
+  const pageMock = createPageMock({ window: windowMock });
+  const cdpSessionMock = createCDPSessionMock([
+    { url: 'https://cdn.example.com/script.js', body: scriptBody, resourceType: 'Script' },
+    { url: 'https://static.secutils.dev/style.css', body: styleBody, resourceType: 'Stylesheet' },
+  ]);
+
+  const response = await registerWebPageResourcesListRoutes(
+    createMock({
+      browser: createBrowserMock(createBrowserContextMock(pageMock, cdpSessionMock)) as unknown as Browser,
+    }),
+  ).inject({
+    method: 'POST',
+    url: '/api/web_page/resources',
+    payload: { url: 'https://secutils.dev', delay: 0, auditIntegrity: true },
+  });
+
+  assert.strictEqual(response.statusCode, 200);
+
+  const { scripts, styles } = JSON.parse(response.body) as {
+    scripts: Array<{ url: string; integrity: unknown }>;
+    styles: Array<{ url: string; integrity: unknown }>;
+  };
+  assert.deepStrictEqual(
+    scripts.map(({ url, integrity }) => ({ url, integrity })),
+    [
+      {
+        url: 'https://cdn.example.com/script.js',
+        integrity: {
+          present: true,
+          algorithm: 'sha384',
+          status: 'match',
+          crossOrigin: 'anonymous',
+          thirdParty: true,
+          flagged: false,
+        },
+      },
+      {
+        url: 'https://ads.example.org/ads.js',
+        integrity: { present: false, thirdParty: true, flagged: true },
+      },
+    ],
+  );
+  assert.deepStrictEqual(
+    styles.map(({ url, integrity }) => ({ url, integrity })),
+    [
+      {
+        url: 'https://static.secutils.dev/style.css',
+        integrity: { present: true, algorithm: 'sha256', status: 'mismatch', thirdParty: false, flagged: false },
+      },
+    ],
+  );
+});
+
+await test('[/api/web_page/resources] audits subresource integrity of raw resource bodies', async (t) => {
+  // Resource body isn't valid UTF-8, so its digest can only be verified over the raw bytes.
+  const styleBody = Buffer.concat([Buffer.from('body::after { content: "'), Buffer.from([0xe9]), Buffer.from('"; }')]);
+  const styleIntegrity = `sha256-${createHash('sha256').update(styleBody).digest('base64')}`;
+
+  const windowMock = createWindowMock();
+  windowMock.document.querySelectorAll.mock.mockImplementation((selector: string) =>
+    selector === 'link[rel=stylesheet]'
+      ? [{ href: 'https://secutils.dev/style.css', integrity: styleIntegrity, crossOrigin: null }]
+      : [],
+  );
+
+  const pageMock = createPageMock({ window: windowMock });
+  const cdpSessionMock = createCDPSessionMock([
+    { url: 'https://secutils.dev/style.css', body: styleBody, resourceType: 'Stylesheet' },
+  ]);
+
+  let response = await registerWebPageResourcesListRoutes(
+    createMock({
+      browser: createBrowserMock(createBrowserContextMock(pageMock, cdpSessionMock)) as unknown as Browser,
+    }),
+  ).inject({
+    method: 'POST',
+    url: '/api/web_page/resources',
+    payload: { url: 'https://secutils.dev', delay: 0, auditIntegrity: true },
+  });
+
+  assert.strictEqual(response.statusCode, 200);
+  assert.deepStrictEqual((JSON.parse(response.body) as { styles: Array<{ integrity: unknown }> }).styles[0].integrity, {
+    present: true,
+    algorithm: 'sha256',
+    status: 'match',
+    thirdParty: false,
+    flagged: false,
+  });
+
+  // Static pages should be audited the same way.
+  const bodies = new Map<string, string | Buffer>([
+    [
+      'https://secutils.dev/',
+      `<html><head><link rel="stylesheet" href="style.css" integrity="${styleIntegrity}"></head></html>`,
+    ],
+    ['https://secutils.dev/style.css', styleBody],
+  ]);
+  t.mock.method(globalThis, 'fetch', (url: string) =>
+    Promise.resolve(new Response(bodies.get(url) ?? null, { status: bodies.has(url) ? 200 : 404 })),
+  );
+
+  response = await registerWebPageResourcesListRoutes(createMock()).inject({
+    method: 'POST',
+    url: '/api/web_page/resources',
+    payload: { url: 'https://secutils.dev/', mode: 'static', auditIntegrity: true },
+  });
+
+  assert.strictEqual(response.statusCode, 200);
+  assert.deepStrictEqual((JSON.parse(response.body) as { styles: Array<{ integrity: unknown }> }).styles[0].integrity, {
+    present: true,
+    algorithm: 'sha256',
+    status: 'match',
+    thirdParty: false,
+    flagged: false,
+  });
+});
+
+await test('[/api/web_page/resources] can calculate selected digests', async () => {
+  const scriptBody = 'window.document.body.innerHTML = "Hello Secutils.dev and world!";';
+
+  const windowMock = createWindowMock();
+  windowMock.document.querySelectorAll.mock.mockImplementation((selector: string) => {
+    if (selector === 'script') {
+      return [
+        { src: 'https://secutils.dev/script.js', innerHTML: '' },
+        { src: '', innerHTML: 'alert(1)' },
+      ];
+    }
+
+    return [];
+  });
+
+  const pageMock = createPageMock({ window: windowMock });
+  const cdpSessionMock = createCDPSessionMock([
+    { url: 'https://secutils.dev/script.js', body: scriptBody, resourceType: 'Script' },
+  ]);
+
+  const response = await registerWebPageResourcesListRoutes(
+    createMock({
+      browser: createBrowserMock(createBrowserContextMock(pageMock, cdpSessionMock)) as unknown as Browser,
+    }),
+  ).inject({
+    method: 'POST',
+    url: '/api/web_page/resources',
+    payload: { url: 'https://secutils.dev', delay: 0, digests: ['sha384', 'raw', 'tlsh'], rawDataMaxSize: 10 },
+  });
+
+  assert.strictEqual(response.statusCode, 200);
+
+  // TLS hash can't be calculated for too small content, and raw data is omitted for too big content.
+  const { scripts } = JSON.parse(response.body) as { scripts: unknown[] };
+  assert.deepStrictEqual(scripts, [
+    {
+      url: 'https://secutils.dev/script.js',
+      content: {
+        data: {
+          sha384: createHash('sha384').update(scriptBody).digest('base64'),
+          tlsh: 'T156A002B39256197413252E602EA57AC67D66540474113459D79DB004B1608C7C8EEEDD',
+        },
+        size: scriptBody.length,
+      },
+      frame: MAIN_FRAME,
+    },
+    {
+      content: { data: { sha384: createHash('sha384').update('alert(1)').digest('base64'), raw: 'alert(1)' }, size: 8 },
+      frame: MAIN_FRAME,
+    },
+  ]);
+});
+
+await test('[/api/web_page/resources] can track extra resource types', async () => {
+  const wasmBody = Buffer.from([0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00, 0xff, 0xfe]);
+  const fontBody = Buffer.from([0x77, 0x4f, 0x46, 0x32, 0x00, 0x01, 0x00, 0x00, 0x80, 0x81]);
+  const workerBody = 'self.onmessage = () => {};';
+
+  const pageMock = createPageMock({ window: createWindowMock() });
+  const cdpSessionMock = createCDPSessionMock([
+    { url: 'https://secutils.dev/font.woff2', body: fontBody, resourceType: 'Font' },
+    {
+      url: 'https://secutils.dev/module',
+      body: wasmBody,
+      resourceType: 'Fetch',
+      responseHeaders: [{ name: 'Content-Type', value: 'application/wasm' }],
+    },
+    {
+      url: 'https://secutils.dev/worker.js',
+      body: workerBody,
+      resourceType: 'Other',
+      requestHeaders: { 'Sec-Fetch-Dest': 'worker' },
+    },
+    { url: 'https://secutils.dev/image.png', body: fontBody, resourceType: 'Image' },
+    {
+      url: 'https://secutils.dev/large.woff2',
+      body: fontBody,
+      resourceType: 'Font',
+      responseHeaders: [{ name: 'Content-Length', value: `${1024 * 1024 * 20}` }],
+    },
+  ]);
+
+  const response = await registerWebPageResourcesListRoutes(
+    createMock({
+      browser: createBrowserMock(createBrowserContextMock(pageMock, cdpSessionMock)) as unknown as Browser,
+    }),
+  ).inject({
+    method: 'POST',
+    url: '/api/web_page/resources',
+    payload: { url: 'https://secutils.dev', delay: 0, extraResources: ['fonts', 'wasm', 'workers'] },
+  });
+
+  assert.strictEqual(response.statusCode, 200);
+
+  // Images weren't requested, too large bodies aren't kept, and binary content is hashed as bytes.
+  const responseBody = JSON.parse(response.body) as Record<string, unknown>;
+  assert.strictEqual(responseBody.images, undefined);
+  assert.deepStrictEqual(
+    {
+      scripts: responseBody.scripts,
+      styles: responseBody.styles,
+      fonts: responseBody.fonts,
+      wasm: responseBody.wasm,
+      workers: responseBody.workers,
+    },
+    {
+      scripts: [],
+      styles: [],
+      fonts: [
+        {
+          url: 'https://secutils.dev/font.woff2',
+          content: { data: { raw: fontBody.toString('base64') }, size: 10 },
+        },
+      ],
+      wasm: [
+        {
+          url: 'https://secutils.dev/module',
+          content: { data: { raw: wasmBody.toString('base64') }, size: 10 },
+        },
+      ],
+      workers: [
+        {
+          url: 'https://secutils.dev/worker.js',
+          content: { data: { raw: Buffer.from(workerBody).toString('base64') }, size: workerBody.length },
+        },
+      ],
+    },
+  );
+
+  // Body of the resource that exceeds size limit shouldn't be fetched at all.
+  assert.deepStrictEqual(
+    cdpSessionMock.send.mock.calls
+      .filter((call) => call.arguments[0] === 'Fetch.getResponseBody')
+      .map((call) => (call.arguments[1] as { requestId: string }).requestId),
+    ['0', '1', '2'],
+  );
+
+  // Additional resource types should be intercepted.
+  assert.deepStrictEqual(
+    cdpSessionMock.send.mock.calls.find((call) => call.arguments[0] === 'Fetch.enable')?.arguments[1],
+    {
+      patterns: [
+        { resourceType: 'Script', requestStage: 'Response' },
+        { resourceType: 'Stylesheet', requestStage: 'Response' },
+        { resourceType: 'Font', requestStage: 'Response' },
+        { resourceType: 'Fetch', requestStage: 'Response' },
+        { resourceType: 'XHR', requestStage: 'Response' },
+        { resourceType: 'Other', requestStage: 'Response' },
+      ],
+    },
+  );
+});
+
+await test('[/api/web_page/resources] can extract resources from frames', async () => {
+  const createWindowWithScript = (innerHTML: string, { __secutils }: Parameters<typeof createWindowMock>[0] = {}) => {
+    const windowMock = createWindowMock({ __secutils });
+    windowMock.document.querySelectorAll.mock.mockImplementation((selector: string) =>
+      selector === 'script' ? [{ src: '', innerHTML }] : [],
+    );
+    return windowMock;
+  };
+
+  // Filter out resources from the payment frame.
+  const resourceFilterMapMock = mock.fn((resource: WebPageResourceWithRawData) =>
+    resource.frame?.url.startsWith('https://pay.example.com/') ? null : resource,
+  );
+
+  const detachedFrameMock = createFrameMock({ url: 'https://secutils.dev/detached.html' });
+  detachedFrameMock.evaluate = () => Promise.reject(new Error('Frame was detached'));
+  const pageMock = createPageMock({
+    window: createWindowWithScript('alert(1)', { __secutils: { resourceFilterMap: resourceFilterMapMock } }),
+    childFrames: [
+      createFrameMock({
+        url: 'https://ads.example.com/frame.html',
+        window: createWindowWithScript('alert(2)'),
+        childFrames: [
+          createFrameMock({ url: 'about:blank', window: createWindowWithScript('alert(3)') }),
+          createFrameMock({ url: 'https://pay.example.com/form.html', window: createWindowWithScript('alert(4)') }),
+        ],
+      }),
+      detachedFrameMock,
+    ],
+  });
+
+  const response = await registerWebPageResourcesListRoutes(
+    createMock({ browser: createBrowserMock(createBrowserContextMock(pageMock)) as unknown as Browser }),
+  ).inject({
+    method: 'POST',
+    url: '/api/web_page/resources',
+    payload: { url: 'https://secutils.dev', delay: 0 },
+  });
+
+  assert.strictEqual(response.statusCode, 200);
+
+  const { scripts } = JSON.parse(response.body) as { scripts: unknown[] };
+  assert.deepStrictEqual(scripts, [
+    { content: { data: { raw: 'alert(1)' }, size: 8 }, frame: MAIN_FRAME },
+    {
+      content: { data: { raw: 'alert(2)' }, size: 8 },
+      frame: { url: 'https://ads.example.com/frame.html', path: [0] },
+    },
+    { content: { data: { raw: 'alert(3)' }, size: 8 }, frame: { url: 'about:blank', path: [0, 0] } },
+  ]);
+
+  // Filter should receive frame info for every resource.
+  assert.deepStrictEqual(
+    resourceFilterMapMock.mock.calls.map((call) => call.arguments[0].frame),
+    [
+      MAIN_FRAME,
+      { url: 'https://ads.example.com/frame.html', path: [0] },
+      { url: 'about:blank', path: [0, 0] },
+      { url: 'https://pay.example.com/form.html', path: [0, 1] },
+    ],
+  );
+});
+
+await test('[/api/web_page/resources] can extract resources from static page', async (t) => {
+  t.mock.method(Date, 'now', () => 123000);
+
+  const appScript = 'alert(1);';
+  const appIntegrity = `sha384-${createHash('sha384').update(appScript).digest('base64')}`;
+  const bodies = new Map([
+    [
+      'https://secutils.dev/',
+      `<html><head>
+        <base href="https://cdn.secutils.dev/assets/">
+        <script src="app.js" integrity="${appIntegrity}" crossorigin></script>
+        <script>
+          console.log('inline');
+        </script>
+        <!-- <script src="commented.js"></script> -->
+        <script type="application/ld+json">{}</script>
+        <link rel="stylesheet" href="https://secutils.dev/style.css">
+        <link rel="stylesheet" href="data:text/css,body{}">
+        <link rel="icon" href="favicon.ico">
+        <style>body { color: red; }</style>
+      </head></html>`,
+    ],
+    ['https://cdn.secutils.dev/assets/app.js', appScript],
+    ['https://secutils.dev/style.css', 'body { color: blue; }'],
+  ]);
+  const fetchMock = t.mock.method(globalThis, 'fetch', (url: string) =>
+    Promise.resolve(new Response(bodies.get(url) ?? null, { status: bodies.has(url) ? 200 : 404 })),
+  );
+
+  const routeParams = createMock({ config: { ...configure(), userAgent: 'secutils/1.0' } });
+  const response = await registerWebPageResourcesListRoutes(routeParams).inject({
+    method: 'POST',
+    url: '/api/web_page/resources',
+    payload: { url: 'https://secutils.dev/', mode: 'static', digests: ['raw'], auditIntegrity: true },
+  });
+
+  assert.strictEqual(response.statusCode, 200);
+
+  const { timestamp, mode, scripts, styles } = JSON.parse(response.body) as {
+    timestamp: number;
+    mode: string;
+    scripts: Array<{ integrity?: { status?: string } }>;
+    styles: unknown[];
+  };
+  assert.strictEqual(timestamp, 123);
+  assert.strictEqual(mode, 'static');
+  assert.strictEqual(scripts[0].integrity?.status, 'match');
+  delete scripts[0].integrity;
+  assert.deepStrictEqual(scripts, [
+    {
+      url: 'https://cdn.secutils.dev/assets/app.js',
+      content: { data: { raw: appScript }, size: 9 },
+      frame: MAIN_FRAME,
+    },
+    { content: { data: { raw: "console.log('inline');" }, size: 22 }, frame: MAIN_FRAME },
+    { content: { data: { raw: '{}' }, size: 2 }, frame: MAIN_FRAME },
+  ]);
+  assert.deepStrictEqual(styles, [
+    {
+      url: 'https://secutils.dev/style.css',
+      content: { data: { raw: 'body { color: blue; }' }, size: 21 },
+      frame: MAIN_FRAME,
+      integrity: { present: false, thirdParty: false, flagged: false },
+    },
+    {
+      url: 'data:text/css,[data:text/css,body{}]',
+      content: { data: { raw: 'data:text/css,body{}' }, size: 20 },
+      frame: MAIN_FRAME,
+    },
+    { content: { data: { raw: 'body { color: red; }' }, size: 20 }, frame: MAIN_FRAME },
+  ]);
+
+  // Only the document and its external scripts and stylesheets should be fetched, without a browser.
+  assert.strictEqual(routeParams.acquireBrowserContext.mock.callCount(), 0);
+  assert.deepStrictEqual(fetchMock.mock.calls.map((call) => call.arguments[0]).sort(), [
+    'https://cdn.secutils.dev/assets/app.js',
+    'https://secutils.dev/',
+    'https://secutils.dev/style.css',
+  ]);
+  assert.strictEqual(
+    (fetchMock.mock.calls[0].arguments[1] as { headers: Headers }).headers.get('user-agent'),
+    'secutils/1.0',
+  );
+
+  // Options that require a browser should be rejected.
+  const errorResponse = await registerWebPageResourcesListRoutes(createMock()).inject({
+    method: 'POST',
+    url: '/api/web_page/resources',
+    payload: { url: 'https://secutils.dev/', mode: 'static', recommendCsp: true },
+  });
+  assert.strictEqual(errorResponse.statusCode, 400);
+  assert.strictEqual(
+    errorResponse.body,
+    JSON.stringify({ message: 'Option "recommendCsp" is not supported in static mode.' }),
+  );
+});
+
+await test('[/api/web_page/resources] limits external resources fetched for static page', async (t) => {
+  const scriptUrls = Array.from({ length: 110 }, (_, index) => `https://secutils.dev/${index}.js`);
+  const html = scriptUrls.map((url) => `<script src="${url}"></script>`).join('');
+
+  let activeFetches = 0;
+  let maxActiveFetches = 0;
+  const fetchMock = t.mock.method(globalThis, 'fetch', async (url: string) => {
+    if (url === 'https://secutils.dev/') {
+      return new Response(html);
+    }
+
+    activeFetches++;
+    maxActiveFetches = Math.max(maxActiveFetches, activeFetches);
+    await new Promise((resolve) => setImmediate(resolve));
+    activeFetches--;
+
+    // Resources that are known to be too large shouldn't be read.
+    return url === scriptUrls[0]
+      ? new Response('alert(0);', { headers: { 'content-length': `${1024 * 1024 * 10}` } })
+      : new Response(`alert(${url});`);
+  });
+
+  const response = await registerWebPageResourcesListRoutes(createMock()).inject({
+    method: 'POST',
+    url: '/api/web_page/resources',
+    payload: { url: 'https://secutils.dev/', mode: 'static', digests: ['raw'] },
+  });
+
+  assert.strictEqual(response.statusCode, 200);
+
+  // Only a limited number of resources is fetched, and only a few at a time.
+  assert.strictEqual(fetchMock.mock.callCount(), 101);
+  assert.strictEqual(maxActiveFetches, 6);
+
+  const { scripts } = JSON.parse(response.body) as { scripts: Array<{ url: string; content?: { size: number } }> };
+  assert.strictEqual(scripts.length, 110);
+  assert.deepStrictEqual(
+    [scripts[0], scripts[1], scripts[100]].map(({ url, content }) => ({ url, size: content?.size ?? 0 })),
+    [
+      { url: scriptUrls[0], size: 0 },
+      { url: scriptUrls[1], size: `alert(${scriptUrls[1]});`.length },
+      { url: scriptUrls[100], size: 0 },
+    ],
+  );
+});
+
+await test('[/api/web_page/resources] can extract resources from static page with unclosed elements', async (t) => {
+  // Unclosed elements take the rest of the document as their content, and they shouldn't take quadratic time to parse.
+  const html = `<style>body { color: red; }</style><!-- <script src="commented.js"></script> --><script>alert(1);${'<script>'.repeat(
+    1024 * 128,
+  )}<style><link rel="stylesheet" href="https://secutils.dev/style.css">`;
+  const fetchMock = t.mock.method(globalThis, 'fetch', () => Promise.resolve(new Response(html)));
+
+  const response = await registerWebPageResourcesListRoutes(createMock()).inject({
+    method: 'POST',
+    url: '/api/web_page/resources',
+    payload: { url: 'https://secutils.dev/', mode: 'static', digests: ['raw'] },
+  });
+
+  assert.strictEqual(response.statusCode, 200);
+
+  const { scripts, styles } = JSON.parse(response.body) as {
+    scripts: Array<{ content: { size: number } }>;
+    styles: Array<{ content: { data: { raw: string } } }>;
+  };
+  assert.deepStrictEqual(
+    scripts.map(({ content }) => content.size),
+    [html.length - html.indexOf('alert(1);')],
+  );
+  assert.deepStrictEqual(
+    styles.map(({ content }) => content.data.raw),
+    ['body { color: red; }'],
+  );
+
+  // Elements inside the unclosed script aren't fetched.
+  assert.strictEqual(fetchMock.mock.callCount(), 1);
+});
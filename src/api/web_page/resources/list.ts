@@ -1,20 +1,72 @@
-import { createHash } from 'node:crypto';
-import { setTimeout as setTimeoutAsync } from 'timers/promises';
-
 import type { FastifyBaseLogger } from 'fastify';
-import type { Browser, JSHandle } from 'playwright';
-
-import type { WebPageResource, WebPageResourceContent, WebPageResourceContentData } from './web_page_resource.js';
-import type { Config } from '../../../config.js';
+import type { BrowserContext, Frame, JSHandle, Page, Response } from 'playwright';
+
+import type { WebPageResourcesDiff } from './diff.js';
+import { diffWebPageResources } from './diff.js';
+import { auditResourceIntegrity } from './integrity.js';
+import type { ObservedRequest, RecommendedCsp } from './recommended_csp.js';
+import { recommendContentSecurityPolicy, RECOMMENDED_CSP_SCHEMA } from './recommended_csp.js';
+import { createResourceContentData } from './resource_content_data.js';
+import { extractStaticPageResources } from './static_resources.js';
+import type {
+  WebPageResource,
+  WebPageResourceContent,
+  WebPageResourceDigest,
+  WebPageResourceFrame,
+} from './web_page_resource.js';
 import { createObjectHash } from '../../../utilities/index.js';
 import type { ApiResult } from '../../api_result.js';
 import type { ApiRouteParams } from '../../api_route_params.js';
+import type { CachePolicy } from '../../cache_policy.js';
+import { CACHE_POLICY_SCHEMA, CACHE_STATUS_SCHEMA } from '../../cache_policy.js';
+import { CachedFetcher } from '../../cached_fetcher.js';
 import { Diagnostics } from '../../diagnostics.js';
-import { tlsHash } from '../../tls_hash.js';
-import { DEFAULT_DELAY_MS, DEFAULT_TIMEOUT_MS } from '../constants.js';
-import type { FetchedResource } from '../fetch_interceptor.js';
+import type { PageAction } from '../actions.js';
+import { PAGE_ACTIONS_SCHEMA } from '../actions.js';
+import type { WebPageAuthentication } from '../authentication.js';
+import { acquireAuthenticatedBrowserContext, AUTHENTICATION_SCHEMA } from '../authentication.js';
+import { DEFAULT_TIMEOUT_MS } from '../constants.js';
+import type { CspViolation, CspViolationCollectorOptions } from '../csp_violation_collector.js';
+import { CSP_VIOLATIONS_SCHEMA, CspViolationCollector } from '../csp_violation_collector.js';
+import type { WebPageEmulation } from '../emulation.js';
+import { EMULATION_SCHEMA, getEmulationContextOptions } from '../emulation.js';
+import type { FetchedBinaryResourceType, FetchedResource } from '../fetch_interceptor.js';
 import { FetchInterceptor } from '../fetch_interceptor.js';
 import type { SecutilsWindow } from '../index.js';
+import { loadPage } from '../navigation.js';
+import type { WebPageProxy } from '../proxy.js';
+import { getProxyIdentity, PROXY_SCHEMA } from '../proxy.js';
+import type { WebPageMode } from '../static_page.js';
+import { fetchStaticPage, WEB_PAGE_MODE_SCHEMA } from '../static_page.js';
+
+// Maximum size of the resource content, in bytes, that can be requested to be included as raw data (10KB).
+const MAX_RAW_DATA_SIZE = 1024 * 10;
+
+/**
+ * Types of the resources that can be tracked in addition to scripts and stylesheets, each has its own result bucket.
+ */
+type ExtraResourceType = 'fonts' | 'images' | 'media' | 'wasm' | 'workers';
+
+const EXTRA_RESOURCE_FETCH_TYPES: Record<ExtraResourceType, FetchedBinaryResourceType> = {
+  fonts: 'font',
+  images: 'image',
+  media: 'media',
+  wasm: 'wasm',
+  workers: 'worker',
+};
+
+// Options that require a browser and hence aren't supported in the static mode.
+const BROWSER_ONLY_OPTIONS = [
+  'waitSelector',
+  'actions',
+  'scripts',
+  'authentication',
+  'proxy',
+  'emulation',
+  'cspViolations',
+  'recommendCsp',
+  'extraResources',
+] as const;
 
 /**
  * Defines type of the input parameters.
@@ -25,6 +77,13 @@ interface InputBodyParamsType {
    */
   url: string;
 
+  /**
+   * Defines how the page is loaded. In `static` mode the document and its external scripts and stylesheets are fetched
+   * over plain HTTP without a browser, which is much faster, but only resources referenced directly in the document
+   * HTML are discovered. Options that require a browser aren't supported in this mode. Default is `browser`.
+   */
+  mode?: WebPageMode;
+
   /**
    * Number of milliseconds to wait until page enters "idle" state. Default is 10000ms.
    */
@@ -40,13 +99,19 @@ interface InputBodyParamsType {
    */
   waitSelector?: string;
 
+  /**
+   * Optional list of actions (e.g. clicks or form inputs) to perform on the page before extracting anything from it.
+   */
+  actions?: PageAction[];
+
   /**
    * Optional list of scripts (content) to inject into the page before extracting resources.
    */
   scripts?: {
     /**
      * A content for a function that accepts a resource object and returns either resource (original or modified) or
-     * `null` if the resource shouldn't be tracked.
+     * `null` if the resource shouldn't be tracked. Resource object includes the frame it belongs to (`frame.url` and
+     * `frame.path`), if known.
      */
     resourceFilterMap?: string;
   };
@@ -55,6 +120,76 @@ interface InputBodyParamsType {
    * Optional list of HTTP headers that should be sent with the tracker requests.
    */
   headers?: Record<string, string>;
+
+  /**
+   * Optional authentication details (HTTP credentials, cookies or session state). Requests with authentication details
+   * bypass the cache.
+   */
+  authentication?: WebPageAuthentication;
+
+  /**
+   * Optional outbound proxy to load the page through. If not specified, the server-wide default proxy is used, if any.
+   */
+  proxy?: WebPageProxy;
+
+  /**
+   * Optional device and environment emulation, e.g. device preset, viewport, locale or time zone.
+   */
+  emulation?: WebPageEmulation;
+
+  /**
+   * Optional cache policy for the request.
+   */
+  cache?: CachePolicy;
+
+  /**
+   * Optional previously extracted resources snapshot to calculate the resources diff against.
+   */
+  previousResources?: {
+    scripts?: WebPageResource[];
+    styles?: WebPageResource[];
+    fonts?: WebPageResource[];
+    images?: WebPageResource[];
+    media?: WebPageResource[];
+    wasm?: WebPageResource[];
+    workers?: WebPageResource[];
+    /**
+     * Maximum TLSH distance at which resources with different URLs are considered the same modified resource.
+     */
+    tlshThreshold?: number;
+  };
+
+  /**
+   * If specified, the response will include Content Security Policy violations observed during page load.
+   */
+  cspViolations?: CspViolationCollectorOptions;
+
+  /**
+   * If `true`, the response will include the minimal Content Security Policy that allows all resources the page loaded.
+   */
+  recommendCsp?: boolean;
+
+  /**
+   * If `true`, every external script and stylesheet will include its Subresource Integrity audit result.
+   */
+  auditIntegrity?: boolean;
+
+  /**
+   * Optional list of digests to calculate for the resource content, e.g. `["sha384", "tlsh"]`. By default, TLS hash is
+   * used, falling back to raw data and then to SHA-1 if TLS hash cannot be calculated.
+   */
+  digests?: WebPageResourceDigest[];
+
+  /**
+   * Maximum size of the resource content, in bytes, that can be included as raw data. Default is 256 bytes.
+   */
+  rawDataMaxSize?: number;
+
+  /**
+   * Optional list of additional resource types to track, e.g. `["wasm", "workers"]`. Content of these resources is
+   * hashed as bytes. Note that these resources aren't passed to the `resourceFilterMap` function.
+   */
+  extraResources?: ExtraResourceType[];
 }
 
 /**
@@ -62,14 +197,42 @@ interface InputBodyParamsType {
  */
 interface OutputBodyType {
   timestamp: number;
+  /**
+   * Mode the resources were extracted in.
+   */
+  mode: WebPageMode;
   scripts: WebPageResource[];
   styles: WebPageResource[];
+  fonts?: WebPageResource[];
+  images?: WebPageResource[];
+  media?: WebPageResource[];
+  wasm?: WebPageResource[];
+  workers?: WebPageResource[];
+  cspViolations?: CspViolation[];
+  recommendedCsp?: RecommendedCsp;
 }
 
+/**
+ * Difference between the previous resources snapshot and the extracted resources.
+ */
+type OutputDiffType = {
+  scripts: WebPageResourcesDiff;
+  styles: WebPageResourcesDiff;
+} & Partial<Record<ExtraResourceType, WebPageResourcesDiff>>;
+
 export interface WebPageResourceWithRawData {
   url?: string;
   data: string;
   type: 'script' | 'stylesheet';
+  /**
+   * Values of the `integrity` and `crossorigin` attributes of the resource element, if present.
+   */
+  integrity?: string;
+  crossOrigin?: string;
+  /**
+   * Frame the resource element belongs to, not available for resources that were only intercepted.
+   */
+  frame?: WebPageResourceFrame;
 }
 
 const RESOURCES_SCHEMA = {
@@ -83,23 +246,72 @@ const RESOURCES_SCHEMA = {
         properties: {
           data: {
             type: 'object',
-            properties: { sha1: { type: 'string' }, raw: { type: 'string' }, tlsh: { type: 'string' } },
+            properties: {
+              sha1: { type: 'string' },
+              sha256: { type: 'string' },
+              sha384: { type: 'string' },
+              raw: { type: 'string' },
+              tlsh: { type: 'string' },
+            },
           },
           size: { type: 'number' },
         },
       },
+      frame: {
+        type: 'object',
+        properties: {
+          url: { type: 'string' },
+          path: { type: 'array', items: { type: 'number' } },
+        },
+      },
+      integrity: {
+        type: 'object',
+        properties: {
+          present: { type: 'boolean' },
+          algorithm: { type: 'string' },
+          status: { type: 'string' },
+          crossOrigin: { type: 'string' },
+          thirdParty: { type: 'boolean' },
+          flagged: { type: 'boolean' },
+        },
+      },
     },
   },
 };
 
-export function registerWebPageResourcesListRoutes({ server, cache, acquireBrowser, config }: ApiRouteParams) {
+const RESOURCES_DIFF_SCHEMA = {
+  type: 'object',
+  properties: {
+    added: RESOURCES_SCHEMA,
+    removed: RESOURCES_SCHEMA,
+    unchanged: RESOURCES_SCHEMA,
+    modified: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          previous: RESOURCES_SCHEMA.items,
+          current: RESOURCES_SCHEMA.items,
+          matchedBy: { type: 'string' },
+          distance: { type: 'number' },
+        },
+      },
+    },
+  },
+};
+
+export function registerWebPageResourcesListRoutes({ server, cache, acquireBrowserContext, config }: ApiRouteParams) {
+  const log = server.log.child({ provider: 'web_page_resources_list' });
+  const cachedFetcher = new CachedFetcher<OutputBodyType>({ cache, log, route: '/api/web_page/resources' });
   return server.post<{ Body: InputBodyParamsType }>(
     '/api/web_page/resources',
     {
       schema: {
         body: {
           url: { type: 'string' },
+          mode: WEB_PAGE_MODE_SCHEMA,
           delay: { type: 'number' },
+          actions: PAGE_ACTIONS_SCHEMA,
           scripts: {
             type: 'object',
             properties: {
@@ -107,64 +319,216 @@ export function registerWebPageResourcesListRoutes({ server, cache, acquireBrows
             },
           },
           headers: { type: 'object' },
+          authentication: AUTHENTICATION_SCHEMA,
+          proxy: PROXY_SCHEMA,
+          emulation: EMULATION_SCHEMA,
+          cache: CACHE_POLICY_SCHEMA,
+          previousResources: {
+            type: 'object',
+            properties: {
+              scripts: RESOURCES_SCHEMA,
+              styles: RESOURCES_SCHEMA,
+              fonts: RESOURCES_SCHEMA,
+              images: RESOURCES_SCHEMA,
+              media: RESOURCES_SCHEMA,
+              wasm: RESOURCES_SCHEMA,
+              workers: RESOURCES_SCHEMA,
+              tlshThreshold: { type: 'number', minimum: 0 },
+            },
+          },
+          cspViolations: { type: 'object', properties: { includeReportOnly: { type: 'boolean' } } },
+          recommendCsp: { type: 'boolean' },
+          auditIntegrity: { type: 'boolean' },
+          digests: {
+            type: 'array',
+            items: { type: 'string', enum: ['raw', 'tlsh', 'sha1', 'sha256', 'sha384'] },
+            minItems: 1,
+          },
+          rawDataMaxSize: { type: 'number', minimum: 0, maximum: MAX_RAW_DATA_SIZE },
+          extraResources: {
+            type: 'array',
+            items: { type: 'string', enum: Object.keys(EXTRA_RESOURCE_FETCH_TYPES) },
+          },
         },
         response: {
           200: {
             type: 'object',
             properties: {
               timestamp: { type: 'number' },
+              mode: { type: 'string' },
               scripts: RESOURCES_SCHEMA,
               styles: RESOURCES_SCHEMA,
+              fonts: RESOURCES_SCHEMA,
+              images: RESOURCES_SCHEMA,
+              media: RESOURCES_SCHEMA,
+              wasm: RESOURCES_SCHEMA,
+              workers: RESOURCES_SCHEMA,
+              cache: CACHE_STATUS_SCHEMA,
+              cspViolations: CSP_VIOLATIONS_SCHEMA,
+              recommendedCsp: RECOMMENDED_CSP_SCHEMA,
+              diff: {
+                type: 'object',
+                properties: {
+                  scripts: RESOURCES_DIFF_SCHEMA,
+                  styles: RESOURCES_DIFF_SCHEMA,
+                  fonts: RESOURCES_DIFF_SCHEMA,
+                  images: RESOURCES_DIFF_SCHEMA,
+                  media: RESOURCES_DIFF_SCHEMA,
+                  wasm: RESOURCES_DIFF_SCHEMA,
+                  workers: RESOURCES_DIFF_SCHEMA,
+                },
+              },
             },
           },
         },
       },
     },
     async (request, reply) => {
+      const proxy = request.body.proxy ?? config.proxy;
+      if (request.body.mode === 'static') {
+        const browserOnlyOption = BROWSER_ONLY_OPTIONS.find((option) => request.body[option] !== undefined);
+        if (browserOnlyOption) {
+          return reply.code(400).send({ message: `Option "${browserOnlyOption}" is not supported in static mode.` });
+        }
+
+        // Static mode requests would bypass the outbound proxy, and that's not something we should do silently.
+        if (proxy) {
+          return reply.code(400).send({ message: 'Static mode is not supported when outbound proxy is configured.' });
+        }
+      }
+
       const cacheKey = createObjectHash({
+        route: '/api/web_page/resources',
         url: request.body.url,
+        mode: request.body.mode,
+        timeout: request.body.timeout,
+        delay: request.body.delay,
+        waitSelector: request.body.waitSelector,
+        actions: request.body.actions,
         headers: request.body.headers,
+        proxy: getProxyIdentity(proxy),
+        emulation: request.body.emulation,
         scripts: request.body.scripts,
+        cspViolations: request.body.cspViolations,
+        recommendCsp: request.body.recommendCsp,
+        auditIntegrity: request.body.auditIntegrity,
+        digests: request.body.digests,
+        rawDataMaxSize: request.body.rawDataMaxSize,
+        extraResources: request.body.extraResources,
       });
-      if (!cache.has(cacheKey)) {
-        const browser = await acquireBrowser();
-        const log = server.log.child({ provider: 'web_page_resources_list' });
 
-        try {
-          const result = await getResourcesList(config, browser, log, request.body);
-          if (result.type === 'client-error') {
-            log.error(`Cannot retrieve resources for page "${request.body.url}" due to client error: ${result.error}`);
-            await Diagnostics.screenshot(log, browser);
-            return reply.code(400).send({ message: result.error });
-          }
+      try {
+        const result = await cachedFetcher.fetch(
+          {
+            key: cacheKey,
+            url: request.body.url,
+            policy: request.body.cache,
+            isPrivate: !!request.body.authentication,
+          },
+          async () => {
+            if (request.body.mode === 'static') {
+              const result = await getStaticResourcesList(log, request.body, config.userAgent);
+              if (result.type === 'client-error') {
+                log.error(
+                  `Cannot retrieve resources for static page "${request.body.url}" due to client error: ${result.error}`,
+                );
+              } else {
+                log.debug(`Successfully fetched resources for static page "${request.body.url}".`);
+              }
+              return result;
+            }
+
+            const leaseResult = await acquireAuthenticatedBrowserContext(
+              acquireBrowserContext,
+              {
+                extraHTTPHeaders: request.body.headers,
+                bypassCSP: false,
+                userAgent: config.userAgent,
+                ...getEmulationContextOptions(request.body.emulation),
+                ...(proxy ? { proxy } : {}),
+              },
+              request.body.authentication,
+            );
+            if (leaseResult.type === 'client-error') {
+              return leaseResult;
+            }
+
+            const { context, release } = leaseResult.data;
+            try {
+              const result = await getResourcesList(context, log, request.body);
+              if (result.type === 'client-error') {
+                log.error(
+                  `Cannot retrieve resources for page "${request.body.url}" due to client error: ${result.error}`,
+                );
+                // Screenshots of the authenticated pages shouldn't end up in the logs.
+                if (!request.body.authentication) {
+                  await Diagnostics.screenshot(log, context);
+                }
+              } else {
+                log.debug(`Successfully fetched resources for page "${request.body.url}".`);
+              }
+              return result;
+            } catch (err) {
+              if (!request.body.authentication) {
+                await Diagnostics.screenshot(log, context);
+              }
+              throw err;
+            } finally {
+              await release();
+            }
+          },
+        );
 
-          cache.set(cacheKey, result.data);
-          log.debug(`Successfully fetched resources for page "${request.body.url}".`);
-        } catch (err) {
-          log.error(`Cannot retrieve resources for page "${request.body.url}": ${Diagnostics.errorMessage(err)}`);
-          await Diagnostics.screenshot(log, browser);
-          return reply.code(500).send({
-            message: `Cannot retrieve resources for page "${request.body.url}". Check the server logs for more details.`,
-          });
+        if (result.type === 'client-error') {
+          return reply.code(400).send({ message: result.error });
         }
-      }
 
-      return cache.get(cacheKey);
+        const previousResources = request.body.previousResources;
+        if (!previousResources) {
+          return result.data;
+        }
+
+        const diffOptions = { tlshThreshold: previousResources.tlshThreshold };
+        const diff: OutputDiffType = {
+          scripts: diffWebPageResources(previousResources.scripts ?? [], result.data.scripts, diffOptions),
+          styles: diffWebPageResources(previousResources.styles ?? [], result.data.styles, diffOptions),
+        };
+        for (const extraResourceType of request.body.extraResources ?? []) {
+          diff[extraResourceType] = diffWebPageResources(
+            previousResources[extraResourceType] ?? [],
+            result.data[extraResourceType] ?? [],
+            diffOptions,
+          );
+        }
+        return { ...result.data, diff };
+      } catch (err) {
+        log.error(`Cannot retrieve resources for page "${request.body.url}": ${Diagnostics.errorMessage(err)}`);
+        return reply.code(500).send({
+          message: `Cannot retrieve resources for page "${request.body.url}". Check the server logs for more details.`,
+        });
+      }
     },
   );
 }
 
 async function getResourcesList(
-  config: Config,
-  browser: Browser,
+  context: BrowserContext,
   log: FastifyBaseLogger,
-  { url, waitSelector, timeout = DEFAULT_TIMEOUT_MS, delay = DEFAULT_DELAY_MS, scripts, headers }: InputBodyParamsType,
+  {
+    url,
+    waitSelector,
+    actions,
+    timeout,
+    delay,
+    scripts,
+    cspViolations,
+    recommendCsp,
+    auditIntegrity,
+    digests,
+    rawDataMaxSize,
+    extraResources,
+  }: InputBodyParamsType,
 ): Promise<ApiResult<OutputBodyType>> {
-  const context = await browser.newContext({
-    extraHTTPHeaders: headers,
-    bypassCSP: false,
-    userAgent: config.userAgent,
-  });
   const page = await context.newPage();
 
   // Disable browser cache.
@@ -172,7 +536,12 @@ async function getResourcesList(
   await cdpSession.send('Network.clearBrowserCache');
   await cdpSession.send('Network.setCacheDisabled', { cacheDisabled: true });
 
-  const fetchInterceptor = new FetchInterceptor({ log, pageUrl: url, session: cdpSession });
+  const fetchInterceptor = new FetchInterceptor({
+    log,
+    pageUrl: url,
+    session: cdpSession,
+    binaryResourceTypes: extraResources?.map((extraResourceType) => EXTRA_RESOURCE_FETCH_TYPES[extraResourceType]),
+  });
   await fetchInterceptor.start();
 
   // Inject custom scripts if any.
@@ -193,116 +562,52 @@ async function getResourcesList(
     }
   });
 
-  log.debug(`Fetching resources for "${url}" (timeout: ${timeout}ms).`);
-  try {
-    await page.goto(url, { timeout });
-    log.debug(`Page "${url}" is loaded.`);
-  } catch (err) {
-    const errorMessage = `Failed to load page "${url}": ${Diagnostics.errorMessage(err)}`;
-    log.error(errorMessage);
-    return { type: 'client-error', error: errorMessage };
+  const cspViolationCollector = cspViolations ? new CspViolationCollector(log, cspViolations) : undefined;
+  await cspViolationCollector?.start(page);
+
+  const observedRequests: ObservedRequest[] = [];
+  if (recommendCsp) {
+    page.on('request', (request) => {
+      // Page policy controls subresources of the main frame and navigations of its child frames (`frame-src`), but
+      // neither the main frame navigation nor anything the child frames load, since frames have their own policies.
+      const frame = request.frame();
+      const isDocument = request.resourceType() === 'document';
+      if (frame === page.mainFrame() ? !isDocument : isDocument && frame.parentFrame() === page.mainFrame()) {
+        observedRequests.push({ url: request.url(), resourceType: request.resourceType() });
+      }
+    });
   }
 
-  if (waitSelector) {
-    try {
-      log.debug(`Waiting for selector "${waitSelector} (timeout: ${timeout}ms)".`);
-      await page.waitForSelector(waitSelector, { timeout });
-      log.debug(`Retrieved selector "${waitSelector}".`);
-    } catch (err) {
-      const errorMessage = `Failed to retrieve selector "${waitSelector}" for page "${url}": ${Diagnostics.errorMessage(
-        err,
-      )}`;
-      log.error(errorMessage);
-      return { type: 'client-error', error: errorMessage };
-    }
+  const navigationResult = await loadPage(page, log, { url, waitSelector, actions, timeout, delay });
+  if (navigationResult.type === 'client-error') {
+    return navigationResult;
   }
 
-  log.debug(`Delaying resource extraction for ${delay}ms.`);
-  await setTimeoutAsync(delay);
-
   const timestamp = Math.floor(Date.now() / 1000);
   let extractedResources: WebPageResourceWithRawData[];
   try {
-    // Pass `window` handle as parameter to be able to shim/mock DOM APIs that aren't available in Node.js.
     const externalResources: Array<FetchedResource & { processed: boolean }> = (await fetchInterceptor.stop()).map(
       (res) => ({ ...res, processed: false }),
     );
-    const targetWindow = await page.evaluateHandle<Window>('window');
-    extractedResources = await page.evaluate(
-      async ([targetWindow, externalResources]) => {
-        async function parseURL(url: string): Promise<{ url: string; data: string }> {
-          if (url.startsWith('data:')) {
-            // For `data:` URLs we should replace the actual content the digest later.
-            return { url: `${url.split(',')[0]},`, data: url };
-          }
-
-          if (url.startsWith('blob:')) {
-            // For `blob:` URLs we should fetch the actual content and replace object reference with the digest later.
-            return {
-              url: 'blob:',
-              // [BUG] There is a bug in Node.js 20.4.0 that doesn't properly handle `await response.text()` in tests.
-              data: await fetch(url)
-                .then((res) => res.body?.getReader().read())
-                .then((res) => new TextDecoder().decode(res?.value)),
-            };
-          }
-
-          return { url, data: '' };
-        }
-
-        function isResourceValid(resource: WebPageResourceWithRawData) {
-          return !!(resource.url || resource.data);
+    // Frames may be detached while resources are extracted, but only main frame failures are fatal.
+    const frameResources: WebPageResourceWithRawData[] = [];
+    for (const frame of page.frames()) {
+      const frameInfo: WebPageResourceFrame = { url: frame.url(), path: getFramePath(frame) };
+      try {
+        for (const resource of await extractFrameResources(frame)) {
+          frameResources.push({ ...resource, frame: frameInfo });
         }
-
-        const resources: WebPageResourceWithRawData[] = [];
-        for (const el of Array.from(targetWindow.document.querySelectorAll('script'))) {
-          // We treat script content as a concatenation of `onload` handler and its inner content. For our purposes it
-          // doesn't matter if the script is loaded from an external source or is inline. If later we figure out that
-          // script content was also loaded from the external source (e.g. when `script` element has both `src` and
-          // `innerHTML`) we'll re-calculate its digest and size.
-          const { url, data } = await parseURL(el.src.trim());
-
-          const scriptResource: WebPageResourceWithRawData = url
-            ? { url, data, type: 'script' }
-            : { data, type: 'script' };
-          const scriptContent = (el.onload?.toString().trim() ?? '') + el.innerHTML.trim() + data;
-          if (scriptContent) {
-            const contentBlob = new Blob([scriptContent]);
-            scriptResource.data = await contentBlob.text();
-          }
-
-          if (isResourceValid(scriptResource)) {
-            resources.push(scriptResource);
-          }
-        }
-
-        for (const el of Array.from(targetWindow.document.querySelectorAll('link[rel=stylesheet]'))) {
-          const { url, data } = await parseURL((el as HTMLLinkElement).href.trim());
-
-          const styleResource: WebPageResourceWithRawData = url
-            ? { url, data, type: 'stylesheet' }
-            : { data, type: 'stylesheet' };
-          const styleContent = data;
-          if (styleContent) {
-            const contentBlob = new Blob([styleContent]);
-            styleResource.data = await contentBlob.text();
-          }
-
-          if (isResourceValid(styleResource)) {
-            resources.push(styleResource);
-          }
-        }
-
-        for (const el of Array.from(targetWindow.document.querySelectorAll('style'))) {
-          const contentBlob = new Blob([el.innerHTML]);
-          if (contentBlob.size > 0) {
-            resources.push({
-              type: 'stylesheet',
-              data: await contentBlob.text(),
-            });
-          }
+      } catch (err) {
+        if (!frame.parentFrame()) {
+          throw err;
         }
+        log.warn(`Failed to extract resources from frame "${frameInfo.url}": ${Diagnostics.errorMessage(err)}`);
+      }
+    }
 
+    const targetWindow = await page.evaluateHandle<Window>('window');
+    extractedResources = await page.evaluate(
+      ([targetWindow, resources, externalResources]) => {
         // Some inline resources may also be loaded from external sources. We should combine them with the external.
         const externalResourcesMap = new Map(externalResources.map((resource) => [resource.url, resource]));
         const combinedResources = resources.map((resource: WebPageResourceWithRawData) => {
@@ -355,6 +660,17 @@ async function getResourcesList(
                   throw new Error('Mapped resource is not valid');
                 }
 
+                // Check that resource frame is valid.
+                if (
+                  mappedResource.frame != null &&
+                  (typeof mappedResource.frame.url !== 'string' || !Array.isArray(mappedResource.frame.path))
+                ) {
+                  console.debug(
+                    `[browser] Mapped resource frame is not valid: ${JSON.stringify(mappedResource.frame)}`,
+                  );
+                  throw new Error('Mapped resource is not valid');
+                }
+
                 // Check that resource raw data is valid.
                 if (typeof mappedResource.data !== 'string') {
                   console.debug(
@@ -375,7 +691,7 @@ async function getResourcesList(
           throw new Error(`Resources filter script has thrown an exception: ${(err as Error)?.message ?? err}.`);
         }
       },
-      [targetWindow as JSHandle<SecutilsWindow>, externalResources] as const,
+      [targetWindow as JSHandle<SecutilsWindow>, frameResources, externalResources] as const,
     );
   } catch (err) {
     log.error(`Failed to extract resources for page "${url}: ${Diagnostics.errorMessage(err)}`);
@@ -384,13 +700,106 @@ async function getResourcesList(
 
   log.debug(`Extracted ${extractedResources.length} resources for the page "${url}".`);
 
-  const resultScripts: WebPageResource[] = [];
-  const resultStyles: WebPageResource[] = [];
-  for (const resourceWithRawData of extractedResources) {
+  const { scripts: resultScripts, styles: resultStyles } = createWebPageResources(log, extractedResources, {
+    pageUrl: page.url(),
+    // Raw bodies of the fetched external resources are needed to verify their integrity.
+    externalResourceBodies: fetchInterceptor.getResourceBodies(),
+    auditIntegrity,
+    digests,
+    rawDataMaxSize,
+  });
+
+  // Inline content should be collected before the page is closed.
+  const recommendedCsp = recommendCsp
+    ? await getRecommendedCsp(page, observedRequests, navigationResult.data)
+    : undefined;
+
+  try {
+    await page.close();
+    log.debug(`Closed page "${url}".`);
+  } catch (err) {
+    log.error(`Failed to close page "${url}": ${Diagnostics.errorMessage(err)}`);
+  }
+
+  const data: OutputBodyType = { timestamp, mode: 'browser', scripts: resultScripts, styles: resultStyles };
+  if (extraResources) {
+    const binaryResources = fetchInterceptor.getBinaryResources();
+    for (const extraResourceType of new Set(extraResources)) {
+      data[extraResourceType] = binaryResources
+        .filter((resource) => resource.type === EXTRA_RESOURCE_FETCH_TYPES[extraResourceType])
+        .map((resource) => ({
+          url: resource.url,
+          content: {
+            data: createResourceContentData(log, resource.data, { digests, rawDataMaxSize }),
+            size: resource.data.length,
+          },
+        }));
+    }
+  }
+
+  if (cspViolationCollector) {
+    data.cspViolations = cspViolationCollector.collect();
+  }
+
+  if (recommendedCsp) {
+    data.recommendedCsp = recommendedCsp;
+  }
+
+  return { type: 'success', data };
+}
+
+async function getStaticResourcesList(
+  log: FastifyBaseLogger,
+  { url, timeout = DEFAULT_TIMEOUT_MS, headers, auditIntegrity, digests, rawDataMaxSize }: InputBodyParamsType,
+  userAgent?: string,
+): Promise<ApiResult<OutputBodyType>> {
+  // The timeout applies to the document and all its resources, as it does in the browser.
+  const fetchOptions = { headers, userAgent, signal: AbortSignal.timeout(timeout) };
+  const pageResult = await fetchStaticPage(log, url, fetchOptions);
+  if (pageResult.type === 'client-error') {
+    return pageResult;
+  }
+
+  const timestamp = Math.floor(Date.now() / 1000);
+  const { resources, externalResourceBodies } = await extractStaticPageResources(log, pageResult.data, fetchOptions);
+  log.debug(`Extracted ${resources.length} resources for the static page "${url}".`);
+
+  const { scripts, styles } = createWebPageResources(log, resources, {
+    pageUrl: pageResult.data.url,
+    externalResourceBodies,
+    auditIntegrity,
+    digests,
+    rawDataMaxSize,
+  });
+
+  return { type: 'success', data: { timestamp, mode: 'static', scripts, styles } };
+}
+
+/**
+ * Converts extracted resources with raw data to scripts and stylesheets with content digests, and audits their
+ * integrity if requested.
+ */
+function createWebPageResources(
+  log: FastifyBaseLogger,
+  resourcesWithRawData: WebPageResourceWithRawData[],
+  {
+    pageUrl,
+    externalResourceBodies,
+    auditIntegrity,
+    digests,
+    rawDataMaxSize,
+  }: Pick<InputBodyParamsType, 'auditIntegrity' | 'digests' | 'rawDataMaxSize'> & {
+    pageUrl: string;
+    externalResourceBodies: Map<string, Buffer>;
+  },
+) {
+  const scripts: WebPageResource[] = [];
+  const styles: WebPageResource[] = [];
+  for (const resourceWithRawData of resourcesWithRawData) {
     let content: WebPageResourceContent | undefined = undefined;
     if (resourceWithRawData.data) {
       content = {
-        data: createResourceContentData(log, resourceWithRawData.data),
+        data: createResourceContentData(log, resourceWithRawData.data, { digests, rawDataMaxSize }),
         size: resourceWithRawData.data.length,
       };
     }
@@ -407,48 +816,172 @@ async function getResourcesList(
     }
 
     if (url || content) {
-      (resourceWithRawData.type === 'script' ? resultScripts : resultStyles).push(
-        url && content ? { url, content } : url ? { url } : { content },
-      );
+      const resource: WebPageResource = url && content ? { url, content } : url ? { url } : { content };
+      if (resourceWithRawData.frame) {
+        resource.frame = resourceWithRawData.frame;
+      }
+
+      if (auditIntegrity && resourceWithRawData.url && /^https?:/.test(resourceWithRawData.url)) {
+        resource.integrity = auditResourceIntegrity({
+          pageUrl,
+          resourceUrl: resourceWithRawData.url,
+          type: resourceWithRawData.type,
+          integrity: resourceWithRawData.integrity,
+          crossOrigin: resourceWithRawData.crossOrigin,
+          body: externalResourceBodies.get(resourceWithRawData.url),
+        });
+      }
+
+      (resourceWithRawData.type === 'script' ? scripts : styles).push(resource);
     }
   }
 
-  try {
-    await page.close();
-    await context.close();
-    log.debug(`Closed page "${url}".`);
-  } catch (err) {
-    log.error(`Failed to close page "${url}": ${Diagnostics.errorMessage(err)}`);
-  }
+  return { scripts, styles };
+}
+
+/**
+ * Extracts scripts and stylesheets from the DOM of the specified frame.
+ */
+async function extractFrameResources(frame: Frame): Promise<WebPageResourceWithRawData[]> {
+  // Pass `window` handle as parameter to be able to shim/mock DOM APIs that aren't available in Node.js.
+  const targetWindow = await frame.evaluateHandle<Window>('window');
+  return await frame.evaluate(
+    async ([targetWindow]) => {
+      async function parseURL(url: string): Promise<{ url: string; data: string }> {
+        if (url.startsWith('data:')) {
+          // For `data:` URLs we should replace the actual content the digest later.
+          return { url: `${url.split(',')[0]},`, data: url };
+        }
+
+        if (url.startsWith('blob:')) {
+          // For `blob:` URLs we should fetch the actual content and replace object reference with the digest later.
+          return {
+            url: 'blob:',
+            // [BUG] There is a bug in Node.js 20.4.0 that doesn't properly handle `await response.text()` in tests.
+            data: await fetch(url)
+              .then((res) => res.body?.getReader().read())
+              .then((res) => new TextDecoder().decode(res?.value)),
+          };
+        }
+
+        return { url, data: '' };
+      }
+
+      function isResourceValid(resource: WebPageResourceWithRawData) {
+        return !!(resource.url || resource.data);
+      }
+
+      const resources: WebPageResourceWithRawData[] = [];
+      for (const el of Array.from(targetWindow.document.querySelectorAll('script'))) {
+        // We treat script content as a concatenation of `onload` handler and its inner content. For our purposes it
+        // doesn't matter if the script is loaded from an external source or is inline. If later we figure out that
+        // script content was also loaded from the external source (e.g. when `script` element has both `src` and
+        // `innerHTML`) we'll re-calculate its digest and size.
+        const { url, data } = await parseURL(el.src.trim());
+
+        const scriptResource: WebPageResourceWithRawData = url
+          ? { url, data, type: 'script' }
+          : { data, type: 'script' };
+        const scriptContent = (el.onload?.toString().trim() ?? '') + el.innerHTML.trim() + data;
+        if (scriptContent) {
+          const contentBlob = new Blob([scriptContent]);
+          scriptResource.data = await contentBlob.text();
+        }
+
+        if (el.integrity) {
+          scriptResource.integrity = el.integrity;
+        }
+
+        if (typeof el.crossOrigin === 'string') {
+          scriptResource.crossOrigin = el.crossOrigin;
+        }
 
-  return { type: 'success', data: { timestamp, scripts: resultScripts, styles: resultStyles } };
+        if (isResourceValid(scriptResource)) {
+          resources.push(scriptResource);
+        }
+      }
+
+      for (const el of Array.from(targetWindow.document.querySelectorAll('link[rel=stylesheet]'))) {
+        const { url, data } = await parseURL((el as HTMLLinkElement).href.trim());
+
+        const styleResource: WebPageResourceWithRawData = url
+          ? { url, data, type: 'stylesheet' }
+          : { data, type: 'stylesheet' };
+        const styleContent = data;
+        if (styleContent) {
+          const contentBlob = new Blob([styleContent]);
+          styleResource.data = await contentBlob.text();
+        }
+
+        const { integrity, crossOrigin } = el as HTMLLinkElement;
+        if (integrity) {
+          styleResource.integrity = integrity;
+        }
+
+        if (typeof crossOrigin === 'string') {
+          styleResource.crossOrigin = crossOrigin;
+        }
+
+        if (isResourceValid(styleResource)) {
+          resources.push(styleResource);
+        }
+      }
+
+      for (const el of Array.from(targetWindow.document.querySelectorAll('style'))) {
+        const contentBlob = new Blob([el.innerHTML]);
+        if (contentBlob.size > 0) {
+          resources.push({
+            type: 'stylesheet',
+            data: await contentBlob.text(),
+          });
+        }
+      }
+
+      return resources;
+    },
+    [targetWindow] as const,
+  );
 }
 
-function createResourceContentData(log: FastifyBaseLogger, data: string): WebPageResourceContentData {
-  try {
-    return { tlsh: tlsHash(data) };
-  } catch (err) {
-    // If data is too small, TLS hash will fail, but it's expected, and we shouldn't log this as an error.
-    if (data.length < 50) {
-      log.debug(
-        `Failed to calculate TLS hash for resource as it's too small, will use raw data instead (size: ${
-          data.length
-        }): ${Diagnostics.errorMessage(err)}.`,
-      );
-    } else {
-      log.error(
-        `Failed to calculate TLS hash for resource, will use raw data instead (size: ${
-          data.length
-        }): ${Diagnostics.errorMessage(err)}.`,
-      );
-    }
+/**
+ * Returns path of the frame in the page frame tree as a list of indices of the child frames, starting from the main
+ * frame (e.g. `[]` for the main frame and `[0, 1]` for the second child of the first main frame child).
+ */
+function getFramePath(frame: Frame) {
+  const path: number[] = [];
+  for (let current = frame, parent = frame.parentFrame(); parent; current = parent, parent = parent.parentFrame()) {
+    path.unshift(parent.childFrames().indexOf(current));
   }
+  return path;
+}
 
-  // Protect against too big resources.
-  if (data.length > 256) {
-    log.warn(`Raw data is too big, will use SHA-1 digest instead (size: ${data.length}).`);
-    return { sha1: createHash('sha1').update(data).digest('hex') };
-  }
+async function getRecommendedCsp(
+  page: Page,
+  requests: ObservedRequest[],
+  response: Response | null,
+): Promise<RecommendedCsp> {
+  // Hashes must be calculated over the exact content of the inline scripts and styles, while the content of the
+  // extracted resources is normalized, hence it's collected separately.
+  const targetWindow = await page.evaluateHandle<Window>('window');
+  const { inlineScripts, inlineStyles } = await page.evaluate(
+    ([targetWindow]) => ({
+      inlineScripts: Array.from(targetWindow.document.querySelectorAll<HTMLScriptElement>('script:not([src])'))
+        .filter((el) => !el.type || el.type === 'module' || el.type.includes('javascript'))
+        .map((el) => el.textContent ?? '')
+        .filter((content) => !!content),
+      inlineStyles: Array.from(targetWindow.document.querySelectorAll('style'))
+        .map((el) => el.textContent ?? '')
+        .filter((content) => !!content),
+    }),
+    [targetWindow] as const,
+  );
 
-  return { raw: data };
+  return recommendContentSecurityPolicy({
+    // Page may be redirected, e.g. from HTTP to HTTPS, `'self'` refers to the origin of the final document.
+    pageUrl: response?.url() || page.url(),
+    requests,
+    inlineScripts,
+    inlineStyles,
+    currentPolicy: (await response?.allHeaders())?.['content-security-policy'],
+  });
 }
@@ -0,0 +1,204 @@
+import { createHash } from 'node:crypto';
+
+import type { ContentSecurityPolicy } from '../csp.js';
+import { getEffectiveDirectiveValues, parseContentSecurityPolicies, serializeContentSecurityPolicy } from '../csp.js';
+
+/**
+ * Maps Playwright request resource types to the CSP directives that control them.
+ */
+const RESOURCE_TYPE_DIRECTIVES: Record<string, string> = {
+  script: 'script-src',
+  stylesheet: 'style-src',
+  image: 'img-src',
+  font: 'font-src',
+  media: 'media-src',
+  texttrack: 'media-src',
+  xhr: 'connect-src',
+  fetch: 'connect-src',
+  eventsource: 'connect-src',
+  websocket: 'connect-src',
+  manifest: 'manifest-src',
+  document: 'frame-src',
+};
+
+/**
+ * Directives that aren't related to the observed traffic, but should be part of any policy.
+ */
+const BASELINE_DIRECTIVES: Array<[string, string[]]> = [
+  ['default-src', ["'none'"]],
+  ['base-uri', ["'self'"]],
+  ['form-action', ["'self'"]],
+  ['frame-ancestors', ["'self'"]],
+];
+
+/**
+ * Describes request the page made while loading.
+ */
+export interface ObservedRequest {
+  url: string;
+  /**
+   * Playwright resource type, e.g. `script` or `image`. Requests of the `document` type are sub-frame navigations.
+   */
+  resourceType: string;
+}
+
+export interface RecommendedCspDirectiveDiff {
+  directive: string;
+  added: string[];
+  removed: string[];
+}
+
+export interface RecommendedCsp {
+  /**
+   * Recommended policy, serialized as the header value.
+   */
+  policy: string;
+  directives: Array<{ name: string; values: string[] }>;
+  /**
+   * Policy the page is currently served with, if any.
+   */
+  currentPolicy?: string;
+  /**
+   * Changes to the current policy needed to get the recommended one, for directives that differ only.
+   */
+  diff: RecommendedCspDirectiveDiff[];
+}
+
+export const RECOMMENDED_CSP_SCHEMA = {
+  type: 'object',
+  properties: {
+    policy: { type: 'string' },
+    directives: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { name: { type: 'string' }, values: { type: 'array', items: { type: 'string' } } },
+      },
+    },
+    currentPolicy: { type: 'string' },
+    diff: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          directive: { type: 'string' },
+          added: { type: 'array', items: { type: 'string' } },
+          removed: { type: 'array', items: { type: 'string' } },
+        },
+      },
+    },
+  },
+};
+
+interface RecommendCspParams {
+  pageUrl: string;
+  requests: ObservedRequest[];
+  /**
+   * Exact content of the inline scripts and styles, hashes are calculated over it.
+   */
+  inlineScripts: string[];
+  inlineStyles: string[];
+  /**
+   * Value of the `Content-Security-Policy` header the page is currently served with, if any.
+   */
+  currentPolicy?: string;
+}
+
+/**
+ * Proposes a minimal Content Security Policy that allows all resources the page loaded, and nothing else.
+ */
+export function recommendContentSecurityPolicy({
+  pageUrl,
+  requests,
+  inlineScripts,
+  inlineStyles,
+  currentPolicy,
+}: RecommendCspParams): RecommendedCsp {
+  const pageOrigin = new URL(pageUrl).origin;
+  const sources = new Map<string, Set<string>>();
+  const addSource = (directive: string, source: string) => {
+    const directiveSources = sources.get(directive) ?? new Set<string>();
+    directiveSources.add(source);
+    sources.set(directive, directiveSources);
+  };
+
+  for (const { url, resourceType } of requests) {
+    const directive = RESOURCE_TYPE_DIRECTIVES[resourceType];
+    const source = directive ? getSourceExpression(pageOrigin, url) : undefined;
+    if (directive && source) {
+      addSource(directive, source);
+    }
+  }
+
+  for (const inlineScript of inlineScripts) {
+    addSource('script-src', getHashSourceExpression(inlineScript));
+  }
+
+  for (const inlineStyle of inlineStyles) {
+    addSource('style-src', getHashSourceExpression(inlineStyle));
+  }
+
+  const policy: ContentSecurityPolicy = new Map(BASELINE_DIRECTIVES);
+  for (const directive of Array.from(sources.keys()).sort()) {
+    policy.set(directive, Array.from(sources.get(directive) ?? []).sort(compareSourceExpressions));
+  }
+
+  return {
+    policy: serializeContentSecurityPolicy(policy),
+    directives: Array.from(policy).map(([name, values]) => ({ name, values })),
+    ...(currentPolicy ? { currentPolicy } : {}),
+    diff: diffPolicies(currentPolicy ? parseContentSecurityPolicies(currentPolicy)[0] : undefined, policy),
+  };
+}
+
+function getSourceExpression(pageOrigin: string, url: string) {
+  let parsedUrl: URL;
+  try {
+    parsedUrl = new URL(url);
+  } catch {
+    return;
+  }
+
+  if (parsedUrl.protocol === 'data:' || parsedUrl.protocol === 'blob:') {
+    return parsedUrl.protocol;
+  }
+
+  return parsedUrl.origin === pageOrigin ? "'self'" : parsedUrl.origin;
+}
+
+// Keeps `'self'` first for readability, the rest is sorted alphabetically.
+function compareSourceExpressions(left: string, right: string) {
+  if (left === right) {
+    return 0;
+  }
+
+  if (left === "'self'" || right === "'self'") {
+    return left === "'self'" ? -1 : 1;
+  }
+
+  return left < right ? -1 : 1;
+}
+
+function getHashSourceExpression(content: string) {
+  return `'sha256-${createHash('sha256').update(content).digest('base64')}'`;
+}
+
+/**
+ * Compares every directive of the recommended policy with the directive of the current policy that effectively
+ * applies to the same resources. Only the first current policy is considered if there are multiple.
+ */
+function diffPolicies(currentPolicy: ContentSecurityPolicy | undefined, recommendedPolicy: ContentSecurityPolicy) {
+  const diff: RecommendedCspDirectiveDiff[] = [];
+  const directives = new Set([...(currentPolicy?.keys() ?? []), ...recommendedPolicy.keys()]);
+  for (const directive of directives) {
+    const currentValues = new Set(currentPolicy ? getEffectiveDirectiveValues(currentPolicy, directive) ?? [] : []);
+    const recommendedValues = new Set(getEffectiveDirectiveValues(recommendedPolicy, directive) ?? []);
+    const added = Array.from(recommendedValues).filter((value) => !currentValues.has(value));
+    const removed = Array.from(currentValues).filter((value) => !recommendedValues.has(value));
+    if (added.length > 0 || removed.length > 0) {
+      diff.push({ directive, added, removed });
+    }
+  }
+
+  return diff;
+}
@@ -0,0 +1,120 @@
+import { createHash } from 'node:crypto';
+
+import type { FastifyBaseLogger } from 'fastify';
+
+import type { WebPageResourceContentData, WebPageResourceDigest } from './web_page_resource.js';
+import { Diagnostics } from '../../diagnostics.js';
+import { tlsHash } from '../../tls_hash.js';
+
+/**
+ * Default maximum size of the resource content, in bytes, that can be included as raw data.
+ */
+export const DEFAULT_RAW_DATA_MAX_SIZE = 256;
+
+export interface ResourceContentDataOptions {
+  /**
+   * List of digests to calculate. If not specified, TLS hash is used, falling back to raw data and then to SHA-1 if
+   * TLS hash cannot be calculated.
+   */
+  digests?: WebPageResourceDigest[];
+
+  /**
+   * Maximum size of the resource content, in bytes, that can be included as raw data.
+   */
+  rawDataMaxSize?: number;
+}
+
+/**
+ * Creates resource content data for the textual (string) or binary (`Buffer`) resource content. Raw data of the binary
+ * content is base64-encoded, while the raw data size limit is still applied to the content size in bytes.
+ */
+export function createResourceContentData(
+  log: FastifyBaseLogger,
+  data: string | Buffer,
+  { digests, rawDataMaxSize = DEFAULT_RAW_DATA_MAX_SIZE }: ResourceContentDataOptions = {},
+): WebPageResourceContentData {
+  if (digests) {
+    return createSelectedDigests(log, data, digests, rawDataMaxSize);
+  }
+
+  try {
+    return { tlsh: tlsHash(toTlsHashInput(data)) };
+  } catch (err) {
+    // If data is too small, TLS hash will fail, but it's expected, and we shouldn't log this as an error.
+    if (data.length < 50) {
+      log.debug(
+        `Failed to calculate TLS hash for resource as it's too small, will use raw data instead (size: ${
+          data.length
+        }): ${Diagnostics.errorMessage(err)}.`,
+      );
+    } else {
+      log.error(
+        `Failed to calculate TLS hash for resource, will use raw data instead (size: ${
+          data.length
+        }): ${Diagnostics.errorMessage(err)}.`,
+      );
+    }
+  }
+
+  // Protect against too big resources.
+  if (data.length > rawDataMaxSize) {
+    log.warn(`Raw data is too big, will use SHA-1 digest instead (size: ${data.length}).`);
+    return { sha1: createHash('sha1').update(data).digest('hex') };
+  }
+
+  return { raw: toRawData(data) };
+}
+
+/**
+ * Calculates all requested digests, digests that cannot be calculated (e.g. TLS hash for too small content or raw data
+ * for too big content) are omitted.
+ */
+function createSelectedDigests(
+  log: FastifyBaseLogger,
+  data: string | Buffer,
+  digests: WebPageResourceDigest[],
+  rawDataMaxSize: number,
+) {
+  const contentData: WebPageResourceContentData = {};
+  for (const digest of new Set(digests)) {
+    switch (digest) {
+      case 'raw':
+        if (data.length <= rawDataMaxSize) {
+          contentData.raw = toRawData(data);
+        } else {
+          log.debug(`Raw data is too big and will be omitted (size: ${data.length}, max: ${rawDataMaxSize}).`);
+        }
+        break;
+      case 'tlsh':
+        try {
+          contentData.tlsh = tlsHash(toTlsHashInput(data));
+        } catch (err) {
+          log.debug(
+            `Failed to calculate TLS hash for resource, it will be omitted (size: ${
+              data.length
+            }): ${Diagnostics.errorMessage(err)}.`,
+          );
+        }
+        break;
+      case 'sha1':
+        contentData.sha1 = createHash('sha1').update(data).digest('hex');
+        break;
+      case 'sha256':
+      case 'sha384':
+        // Use the same encoding as Subresource Integrity to allow comparing digests with `integrity` attributes.
+        contentData[digest] = createHash(digest).update(data).digest('base64');
+        break;
+    }
+  }
+
+  return contentData;
+}
+
+// TLS hash implementation operates on strings where every character represents a single byte.
+function toTlsHashInput(data: string | Buffer) {
+  return typeof data === 'string' ? data : data.toString('latin1');
+}
+
+function toRawData(data: string | Buffer) {
+  return typeof data === 'string' ? data : data.toString('base64');
+}
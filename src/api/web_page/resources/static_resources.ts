@@ -0,0 +1,142 @@
+import type { FastifyBaseLogger } from 'fastify';
+
+import type { WebPageResourceWithRawData } from './list.js';
+import type { WebPageResourceFrame } from './web_page_resource.js';
+import type { StaticPage, StaticPageElement, StaticPageFetchOptions } from '../static_page.js';
+import { fetchStaticPageResource, parseStaticPageElements } from '../static_page.js';
+
+// Maximum number of external resources fetched for a single page.
+const MAX_EXTERNAL_RESOURCES = 100;
+
+// Maximum number of external resources fetched at the same time, browsers use the same limit per host.
+const MAX_CONCURRENT_FETCHES = 6;
+
+/**
+ * Resources extracted from the static page along with the bodies of the fetched external resources.
+ */
+export interface StaticPageResources {
+  resources: WebPageResourceWithRawData[];
+  externalResourceBodies: Map<string, Buffer>;
+}
+
+/**
+ * Extracts scripts and stylesheets from the static page HTML and fetches external ones. The extracted resources follow
+ * the same rules as the resources extracted from the browser DOM, so that their digests can be compared. The only
+ * exception is `onload` handlers of the scripts, since their normalized content is only known to the browser.
+ */
+export async function extractStaticPageResources(
+  log: FastifyBaseLogger,
+  page: StaticPage,
+  fetchOptions: StaticPageFetchOptions,
+): Promise<StaticPageResources> {
+  const elements = parseStaticPageElements(page.html);
+
+  // Relative URLs are resolved against the first `base` element with `href`, if any, as the browser does.
+  const baseElement = elements.find((el) => el.name === 'base' && el.attributes.href !== undefined);
+  const baseUrl = (baseElement && resolveUrl(baseElement.attributes.href, page.url)) || page.url;
+
+  const scriptElements = elements.filter((el) => el.name === 'script');
+  const linkElements = elements.filter((el) => el.name === 'link' && el.attributes.rel?.toLowerCase() === 'stylesheet');
+  const styleElements = elements.filter((el) => el.name === 'style');
+
+  // Browser only fetches scripts that it can execute, and stylesheets.
+  const externalUrls = new Set(
+    [
+      ...scriptElements.filter((el) => isExecutableScript(el)).map((el) => resolveUrl(el.attributes.src, baseUrl)),
+      ...linkElements.map((el) => resolveUrl(el.attributes.href, baseUrl)),
+    ].filter((url) => /^https?:/.test(url)),
+  );
+
+  if (externalUrls.size > MAX_EXTERNAL_RESOURCES) {
+    log.warn(
+      `Static page "${page.url}" has too many external resources (${externalUrls.size}), only the first ${MAX_EXTERNAL_RESOURCES} will be fetched.`,
+    );
+  }
+
+  const urlsToFetch = Array.from(externalUrls).slice(0, MAX_EXTERNAL_RESOURCES);
+  log.debug(`Fetching ${urlsToFetch.length} external resources for the static page "${page.url}".`);
+  const externalResourceBodies = new Map<string, Buffer>();
+  const fetchNextResource = async (): Promise<void> => {
+    const url = urlsToFetch.shift();
+    if (url === undefined) {
+      return;
+    }
+
+    const body = await fetchStaticPageResource(log, url, fetchOptions);
+    if (body !== undefined) {
+      externalResourceBodies.set(url, body);
+    }
+
+    return fetchNextResource();
+  };
+  await Promise.all(Array.from({ length: MAX_CONCURRENT_FETCHES }, fetchNextResource));
+
+  const frame: WebPageResourceFrame = { url: page.url, path: [] };
+  const resources: WebPageResourceWithRawData[] = [];
+  for (const el of scriptElements) {
+    const resource = createResource(el, 'script', resolveUrl(el.attributes.src, baseUrl), externalResourceBodies);
+    resource.data = el.content.trim() + resource.data;
+    if (resource.url || resource.data) {
+      resources.push({ ...resource, frame });
+    }
+  }
+
+  for (const el of linkElements) {
+    const resource = createResource(el, 'stylesheet', resolveUrl(el.attributes.href, baseUrl), externalResourceBodies);
+    if (resource.url || resource.data) {
+      resources.push({ ...resource, frame });
+    }
+  }
+
+  for (const el of styleElements) {
+    if (el.content.length > 0) {
+      resources.push({ type: 'stylesheet', data: el.content, frame });
+    }
+  }
+
+  return { resources, externalResourceBodies };
+}
+
+function createResource(
+  el: StaticPageElement,
+  type: WebPageResourceWithRawData['type'],
+  url: string,
+  externalResourceBodies: Map<string, Buffer>,
+) {
+  // For `data:` URLs we should replace the actual content the digest later.
+  const resource: WebPageResourceWithRawData = url.startsWith('data:')
+    ? { url: `${url.split(',')[0]},`, data: url, type }
+    : url
+      ? { url, data: externalResourceBodies.get(url)?.toString('utf8') ?? '', type }
+      : { data: '', type };
+
+  if (el.attributes.integrity) {
+    resource.integrity = el.attributes.integrity;
+  }
+
+  // Browser normalizes `crossorigin` attribute value to one of the supported values.
+  const crossOrigin = el.attributes.crossorigin;
+  if (crossOrigin !== undefined) {
+    resource.crossOrigin = crossOrigin.toLowerCase() === 'use-credentials' ? 'use-credentials' : 'anonymous';
+  }
+
+  return resource;
+}
+
+function isExecutableScript({ attributes: { src, type } }: StaticPageElement) {
+  const scriptType = type?.trim().toLowerCase();
+  return src !== undefined && (!scriptType || scriptType === 'module' || scriptType.includes('javascript'));
+}
+
+function resolveUrl(url: string | undefined, baseUrl: string) {
+  const trimmedUrl = url?.trim();
+  if (!trimmedUrl) {
+    return '';
+  }
+
+  try {
+    return new URL(trimmedUrl, baseUrl).href;
+  } catch {
+    return '';
+  }
+}
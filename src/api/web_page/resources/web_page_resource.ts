@@ -11,6 +11,61 @@ export interface WebPageResource {
    * Resource content descriptor (size and digest), if available.
    */
   content?: WebPageResourceContent;
+
+  /**
+   * Frame the resource belongs to, if known.
+   */
+  frame?: WebPageResourceFrame;
+
+  /**
+   * Subresource Integrity audit result, only available for external scripts and stylesheets if requested.
+   */
+  integrity?: WebPageResourceIntegrity;
+}
+
+/**
+ * Describes frame of the web page, including nested and cross-origin iframes.
+ */
+export interface WebPageResourceFrame {
+  /**
+   * The URL of the frame document.
+   */
+  url: string;
+
+  /**
+   * Path of the frame in the page frame tree as a list of child frame indices, empty for the main frame.
+   */
+  path: number[];
+}
+
+/**
+ * Describes Subresource Integrity (SRI) of the external resource.
+ */
+export interface WebPageResourceIntegrity {
+  /**
+   * Whether the resource element has `integrity` attribute with at least one supported hash.
+   */
+  present: boolean;
+  /**
+   * The strongest hash algorithm used in the `integrity` attribute, browsers only verify hashes of this algorithm.
+   */
+  algorithm?: 'sha256' | 'sha384' | 'sha512';
+  /**
+   * Whether resource body matches the `integrity` attribute, `unverified` if the body wasn't captured.
+   */
+  status?: 'match' | 'mismatch' | 'unverified';
+  /**
+   * Value of the `crossorigin` attribute, if present.
+   */
+  crossOrigin?: string;
+  /**
+   * Whether the resource is loaded from a different site than the page.
+   */
+  thirdParty: boolean;
+  /**
+   * Whether the resource is a third-party script loaded without SRI.
+   */
+  flagged: boolean;
 }
 
 /**
@@ -29,7 +84,18 @@ export interface WebPageResourceContent {
 }
 
 /**
- * Describes resource content data, it can either be the raw content data or a hash such as Trend Micro Locality
- * Sensitive Hash or simple SHA-1.
+ * Describes resource content data, it can either be the raw content data or a set of digests such as Trend Micro
+ * Locality Sensitive Hash, SHA-1 (hex-encoded), or SHA-256 and SHA-384 (base64-encoded, as in Subresource Integrity).
+ */
+export interface WebPageResourceContentData {
+  raw?: string;
+  tlsh?: string;
+  sha1?: string;
+  sha256?: string;
+  sha384?: string;
+}
+
+/**
+ * Digests that can be calculated for the resource content.
  */
-export type WebPageResourceContentData = { raw: string } | { tlsh: string } | { sha1: string };
+export type WebPageResourceDigest = keyof WebPageResourceContentData;
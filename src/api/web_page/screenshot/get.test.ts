@@ -0,0 +1,183 @@
+import * as assert from 'node:assert';
+import { test } from 'node:test';
+
+import type { Browser } from 'playwright/index.js';
+
+import { registerWebPageScreenshotGetRoutes } from './get.js';
+import { createBrowserContextMock, createBrowserMock, createImageMock, createPageMock } from '../../../mocks.js';
+import { createMock } from '../../api_route_params.mocks.js';
+
+await test('[/api/web_page/screenshot] can successfully create route', () => {
+  assert.doesNotThrow(() => registerWebPageScreenshotGetRoutes(createMock()));
+});
+
+await test('[/api/web_page/screenshot] can capture screenshot', async (t) => {
+  t.mock.method(Date, 'now', () => 123000);
+
+  const screenshot = createImageMock(64, 48, (x, y) => [x * 4, y * 5, (x * y) % 256]);
+  const pageMock = createPageMock({ screenshot });
+  const response = await registerWebPageScreenshotGetRoutes(
+    createMock({ browser: createBrowserMock(createBrowserContextMock(pageMock)) as unknown as Browser }),
+  ).inject({
+    method: 'POST',
+    url: '/api/web_page/screenshot',
+    payload: { url: 'https://secutils.dev', delay: 0 },
+  });
+
+  assert.strictEqual(response.statusCode, 200);
+  assert.strictEqual(
+    response.body,
+    JSON.stringify({
+      timestamp: 123,
+      format: 'png',
+      data: screenshot.toString('base64'),
+      size: screenshot.length,
+      width: 64,
+      height: 48,
+      phash: '80031f3f3e787971',
+      cache: { hit: false, ageSec: 0 },
+    }),
+  );
+
+  // Make sure we captured full page.
+  assert.strictEqual(pageMock.screenshot.mock.callCount(), 1);
+  assert.deepEqual(pageMock.screenshot.mock.calls[0].arguments, [
+    { type: 'png', quality: undefined, timeout: undefined, mask: undefined, fullPage: true },
+  ]);
+});
+
+await test('[/api/web_page/screenshot] can capture element screenshot', async () => {
+  const pageMock = createPageMock();
+  const response = await registerWebPageScreenshotGetRoutes(
+    createMock({ browser: createBrowserMock(createBrowserContextMock(pageMock)) as unknown as Browser }),
+  ).inject({
+    method: 'POST',
+    url: '/api/web_page/screenshot',
+    payload: { url: 'https://secutils.dev', delay: 0, format: 'jpeg', quality: 50, clipSelector: '#main' },
+  });
+
+  assert.strictEqual(response.statusCode, 200);
+
+  assert.strictEqual(pageMock.screenshot.mock.callCount(), 0);
+  assert.strictEqual(pageMock.locator.mock.callCount(), 1);
+  assert.deepEqual(pageMock.locator.mock.calls[0].arguments, ['#main']);
+});
+
+await test('[/api/web_page/screenshot] can compare screenshot with previous one', async () => {
+  const previous = createImageMock(32, 32, () => [255, 255, 255]);
+  const screenshot = createImageMock(32, 32, (x, y) =>
+    x >= 8 && x < 16 && y >= 16 && y < 24 ? [0, 0, 0] : [255, 255, 255],
+  );
+  const pageMock = createPageMock({ screenshot });
+  const response = await registerWebPageScreenshotGetRoutes(
+    createMock({ browser: createBrowserMock(createBrowserContextMock(pageMock)) as unknown as Browser }),
+  ).inject({
+    method: 'POST',
+    url: '/api/web_page/screenshot',
+    payload: {
+      url: 'https://secutils.dev',
+      delay: 0,
+      masks: ['.clock'],
+      previous: { data: previous.toString('base64'), includeDiffImage: true },
+    },
+  });
+
+  assert.strictEqual(response.statusCode, 200);
+
+  const { comparison } = JSON.parse(response.body) as {
+    comparison: { changedPixels: number; changedRatio: number; regions: unknown[]; diffImage: string };
+  };
+  assert.strictEqual(comparison.changedPixels, 64);
+  assert.strictEqual(comparison.changedRatio, 0.0625);
+  assert.deepEqual(comparison.regions, [{ x: 8, y: 16, width: 8, height: 8 }]);
+  assert.ok(comparison.diffImage.length > 0);
+
+  // Make sure masks are passed to the browser.
+  assert.deepEqual(pageMock.locator.mock.calls[0].arguments, ['.clock']);
+  const [screenshotOptions] = pageMock.screenshot.mock.calls[0].arguments as unknown as [{ mask: unknown[] }];
+  assert.strictEqual(screenshotOptions.mask.length, 1);
+});
+
+await test('[/api/web_page/screenshot] fails if previous screenshot is not valid', async () => {
+  const response = await registerWebPageScreenshotGetRoutes(
+    createMock({ browser: createBrowserMock(createBrowserContextMock(createPageMock())) as unknown as Browser }),
+  ).inject({
+    method: 'POST',
+    url: '/api/web_page/screenshot',
+    payload: { url: 'https://secutils.dev', delay: 0, previous: { phash: 'xyz' } },
+  });
+
+  assert.strictEqual(response.statusCode, 400);
+});
+
+await test('[/api/web_page/screenshot] can compare screenshot with large previous one', async () => {
+  // Noise doesn't compress well, so the image is as large as real-world screenshots are.
+  const noise = (x: number, y: number) => ((x * 7919 + y * 104729) ^ (x * y * 31)) % 256;
+  const screenshot = createImageMock(800, 800, (x, y) => [noise(x, y), noise(y, x), noise(x + y, x)]);
+  assert.ok(screenshot.length > 1024 * 1024);
+
+  const response = await registerWebPageScreenshotGetRoutes(
+    createMock({
+      browser: createBrowserMock(createBrowserContextMock(createPageMock({ screenshot }))) as unknown as Browser,
+    }),
+  ).inject({
+    method: 'POST',
+    url: '/api/web_page/screenshot',
+    payload: { url: 'https://secutils.dev', delay: 0, previous: { data: screenshot.toString('base64') } },
+  });
+
+  assert.strictEqual(response.statusCode, 200);
+
+  const { comparison } = JSON.parse(response.body) as { comparison: { phashDistance: number; changedPixels: number } };
+  assert.strictEqual(comparison.phashDistance, 0);
+  assert.strictEqual(comparison.changedPixels, 0);
+});
+
+await test('[/api/web_page/screenshot] fails if previous screenshot dimensions are too large', async () => {
+  // Take a valid small image and only change the dimensions in its header.
+  const previous = createImageMock(1, 1);
+  previous.writeUInt32BE(50000, 16);
+  previous.writeUInt32BE(50000, 20);
+
+  const response = await registerWebPageScreenshotGetRoutes(
+    createMock({ browser: createBrowserMock(createBrowserContextMock(createPageMock())) as unknown as Browser }),
+  ).inject({
+    method: 'POST',
+    url: '/api/web_page/screenshot',
+    payload: { url: 'https://secutils.dev', delay: 0, previous: { data: previous.toString('base64') } },
+  });
+
+  assert.strictEqual(response.statusCode, 400);
+  assert.strictEqual(
+    response.body,
+    JSON.stringify({ message: 'Previous screenshot is too large (50000x50000 pixels, max: 26214400 pixels).' }),
+  );
+});
+
+await test('[/api/web_page/screenshot] fails if compared screenshots bounds are too large', async () => {
+  // Both images are small on their own, but they're compared within the largest bounds of both.
+  const previous = createImageMock(1, 1);
+  previous.writeUInt32BE(20000000, 16);
+
+  const response = await registerWebPageScreenshotGetRoutes(
+    createMock({
+      browser: createBrowserMock(
+        createBrowserContextMock(createPageMock({ screenshot: createImageMock(2, 2) })),
+      ) as unknown as Browser,
+    }),
+  ).inject({
+    method: 'POST',
+    url: '/api/web_page/screenshot',
+    payload: {
+      url: 'https://secutils.dev',
+      delay: 0,
+      previous: { data: previous.toString('base64'), includeDiffImage: true },
+    },
+  });
+
+  assert.strictEqual(response.statusCode, 400);
+  assert.strictEqual(
+    response.body,
+    JSON.stringify({ message: 'Screenshots are too large to compare (20000000x2 pixels, max: 26214400 pixels).' }),
+  );
+});
@@ -0,0 +1,471 @@
+import type { FastifyBaseLogger } from 'fastify';
+import type { BrowserContext } from 'playwright';
+
+import type { DecodedImage, ImageFormat, ImageRegion } from '../../../utilities/index.js';
+import {
+  createObjectHash,
+  createPerceptualHash,
+  decodeImage,
+  diffImages,
+  encodePng,
+  perceptualHashDistance,
+  readImageSize,
+} from '../../../utilities/index.js';
+import type { ApiResult } from '../../api_result.js';
+import type { ApiRouteParams } from '../../api_route_params.js';
+import type { CachePolicy } from '../../cache_policy.js';
+import { CACHE_POLICY_SCHEMA, CACHE_STATUS_SCHEMA } from '../../cache_policy.js';
+import { CachedFetcher } from '../../cached_fetcher.js';
+import { Diagnostics } from '../../diagnostics.js';
+import type { WebPageAuthentication } from '../authentication.js';
+import { acquireAuthenticatedBrowserContext, AUTHENTICATION_SCHEMA } from '../authentication.js';
+import type { WebPageEmulation } from '../emulation.js';
+import { EMULATION_SCHEMA, getEmulationContextOptions } from '../emulation.js';
+import type { NavigationOptions } from '../navigation.js';
+import { loadPage, NAVIGATION_OPTIONS_SCHEMA_PROPERTIES } from '../navigation.js';
+import type { WebPageProxy } from '../proxy.js';
+import { getProxyIdentity, PROXY_SCHEMA } from '../proxy.js';
+
+// Maximum size of the screenshot in bytes (5MB).
+const MAX_SCREENSHOT_SIZE_BYTES = 1024 * 1024 * 5;
+
+// Maximum size of the request body, it should fit base64-encoded previous screenshot and the rest of the parameters.
+const MAX_BODY_SIZE_BYTES = Math.ceil(MAX_SCREENSHOT_SIZE_BYTES / 3) * 4 + 1024 * 1024;
+
+// Maximum number of pixels in the previous screenshot that can be decoded for comparison, and in the area the
+// screenshots are compared within (100MB of RGBA data).
+const MAX_PREVIOUS_SCREENSHOT_PIXELS = 1024 * 1024 * 25;
+
+// Default maximum per-channel color difference at which pixels are still considered the same.
+const DEFAULT_PIXEL_THRESHOLD = 0.1;
+
+/**
+ * Defines type of the input parameters.
+ */
+interface InputBodyParamsType extends NavigationOptions {
+  /**
+   * Optional list of HTTP headers that should be sent with the tracker requests.
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Optional authentication details (HTTP credentials, cookies or session state). Requests with authentication details
+   * bypass the cache.
+   */
+  authentication?: WebPageAuthentication;
+
+  /**
+   * Optional outbound proxy to load the page through. If not specified, the server-wide default proxy is used, if any.
+   */
+  proxy?: WebPageProxy;
+
+  /**
+   * Optional device and environment emulation, e.g. device preset, viewport, locale or time zone.
+   */
+  emulation?: WebPageEmulation;
+
+  /**
+   * Optional cache policy for the request.
+   */
+  cache?: CachePolicy;
+
+  /**
+   * Image format of the screenshot. Default is `png`.
+   */
+  format?: ImageFormat;
+
+  /**
+   * Quality of the JPEG screenshot, between 0 and 100. Not applicable to PNG screenshots.
+   */
+  quality?: number;
+
+  /**
+   * Area of the page to capture: the full scrollable page or only the currently visible viewport. Default is
+   * `fullPage`.
+   */
+  clip?: 'fullPage' | 'viewport';
+
+  /**
+   * Optional CSS selector of the element to capture, takes precedence over `clip`.
+   */
+  clipSelector?: string;
+
+  /**
+   * Optional list of CSS selectors of the elements that should be masked (e.g. carousels or clocks), masked elements
+   * are painted over with a solid color and hence never considered changed.
+   */
+  masks?: string[];
+
+  /**
+   * Optional previously captured screenshot or its perceptual hash to compare the new screenshot with.
+   */
+  previous?: {
+    /**
+     * Base64-encoded PNG or JPEG image data.
+     */
+    data?: string;
+
+    /**
+     * Perceptual hash of the image, ignored if image data is specified.
+     */
+    phash?: string;
+
+    /**
+     * Maximum per-channel color difference at which pixels are still considered the same, between 0 and 1. Default
+     * is 0.1.
+     */
+    threshold?: number;
+
+    /**
+     * Whether the response should include the new screenshot with the changed pixels highlighted.
+     */
+    includeDiffImage?: boolean;
+  };
+}
+
+/**
+ * Result of the comparison of the previous and new screenshots.
+ */
+interface OutputComparisonType {
+  /**
+   * Hamming distance between perceptual hashes of the images.
+   */
+  phashDistance: number;
+  changedPixels?: number;
+  changedRatio?: number;
+  regions?: ImageRegion[];
+  /**
+   * Base64-encoded PNG image with the changed pixels highlighted.
+   */
+  diffImage?: string;
+}
+
+/**
+ * Captured web page screenshot.
+ */
+interface OutputBodyType {
+  timestamp: number;
+  format: ImageFormat;
+  /**
+   * Base64-encoded image data.
+   */
+  data: string;
+  /**
+   * Size of the image data, in bytes.
+   */
+  size: number;
+  width: number;
+  height: number;
+  /**
+   * Perceptual hash of the image (64-bit DCT-based pHash as a hex string).
+   */
+  phash: string;
+}
+
+export function registerWebPageScreenshotGetRoutes({ server, cache, acquireBrowserContext, config }: ApiRouteParams) {
+  const log = server.log.child({ provider: 'web_page_screenshot_get' });
+  const cachedFetcher = new CachedFetcher<OutputBodyType>({ cache, log, route: '/api/web_page/screenshot' });
+  return server.post<{ Body: InputBodyParamsType }>(
+    '/api/web_page/screenshot',
+    {
+      bodyLimit: MAX_BODY_SIZE_BYTES,
+      schema: {
+        body: {
+          ...NAVIGATION_OPTIONS_SCHEMA_PROPERTIES,
+          headers: { type: 'object' },
+          authentication: AUTHENTICATION_SCHEMA,
+          proxy: PROXY_SCHEMA,
+          emulation: EMULATION_SCHEMA,
+          cache: CACHE_POLICY_SCHEMA,
+          format: { type: 'string', enum: ['png', 'jpeg'] },
+          quality: { type: 'number', minimum: 0, maximum: 100 },
+          clip: { type: 'string', enum: ['fullPage', 'viewport'] },
+          clipSelector: { type: 'string' },
+          masks: { type: 'array', items: { type: 'string' } },
+          previous: {
+            type: 'object',
+            properties: {
+              data: { type: 'string' },
+              phash: { type: 'string' },
+              threshold: { type: 'number', minimum: 0, maximum: 1 },
+              includeDiffImage: { type: 'boolean' },
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              timestamp: { type: 'number' },
+              format: { type: 'string' },
+              data: { type: 'string' },
+              size: { type: 'number' },
+              width: { type: 'number' },
+              height: { type: 'number' },
+              phash: { type: 'string' },
+              cache: CACHE_STATUS_SCHEMA,
+              comparison: {
+                type: 'object',
+                properties: {
+                  phashDistance: { type: 'number' },
+                  changedPixels: { type: 'number' },
+                  changedRatio: { type: 'number' },
+                  regions: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        x: { type: 'number' },
+                        y: { type: 'number' },
+                        width: { type: 'number' },
+                        height: { type: 'number' },
+                      },
+                    },
+                  },
+                  diffImage: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const proxy = request.body.proxy ?? config.proxy;
+      const cacheKey = createObjectHash({
+        route: '/api/web_page/screenshot',
+        url: request.body.url,
+        timeout: request.body.timeout,
+        delay: request.body.delay,
+        waitSelector: request.body.waitSelector,
+        actions: request.body.actions,
+        headers: request.body.headers,
+        proxy: getProxyIdentity(proxy),
+        emulation: request.body.emulation,
+        format: request.body.format,
+        quality: request.body.quality,
+        clip: request.body.clip,
+        clipSelector: request.body.clipSelector,
+        masks: request.body.masks,
+      });
+
+      try {
+        const result = await cachedFetcher.fetch(
+          {
+            key: cacheKey,
+            url: request.body.url,
+            policy: request.body.cache,
+            isPrivate: !!request.body.authentication,
+          },
+          async () => {
+            const leaseResult = await acquireAuthenticatedBrowserContext(
+              acquireBrowserContext,
+              {
+                extraHTTPHeaders: request.body.headers,
+                bypassCSP: false,
+                userAgent: config.userAgent,
+                ...getEmulationContextOptions(request.body.emulation),
+                ...(proxy ? { proxy } : {}),
+              },
+              request.body.authentication,
+            );
+            if (leaseResult.type === 'client-error') {
+              return leaseResult;
+            }
+
+            const { context, release } = leaseResult.data;
+            try {
+              const result = await getScreenshot(context, log, request.body);
+              if (result.type === 'client-error') {
+                log.error(
+                  `Cannot capture screenshot for page "${request.body.url}" due to client error: ${result.error}`,
+                );
+              } else {
+                log.debug(`Successfully captured screenshot for page "${request.body.url}".`);
+              }
+              return result;
+            } finally {
+              await release();
+            }
+          },
+        );
+
+        if (result.type === 'client-error') {
+          return reply.code(400).send({ message: result.error });
+        }
+
+        if (!request.body.previous) {
+          return result.data;
+        }
+
+        const comparisonResult = compareScreenshots(request.body.previous, result.data);
+        if (comparisonResult.type === 'client-error') {
+          log.error(`Cannot compare screenshots for page "${request.body.url}": ${comparisonResult.error}`);
+          return reply.code(400).send({ message: comparisonResult.error });
+        }
+
+        return { ...result.data, comparison: comparisonResult.data };
+      } catch (err) {
+        log.error(`Cannot capture screenshot for page "${request.body.url}": ${Diagnostics.errorMessage(err)}`);
+        return reply.code(500).send({
+          message: `Cannot capture screenshot for page "${request.body.url}". Check the server logs for more details.`,
+        });
+      }
+    },
+  );
+}
+
+async function getScreenshot(
+  context: BrowserContext,
+  log: FastifyBaseLogger,
+  {
+    url,
+    waitSelector,
+    actions,
+    timeout,
+    delay,
+    format = 'png',
+    quality,
+    clip = 'fullPage',
+    clipSelector,
+    masks,
+  }: InputBodyParamsType,
+): Promise<ApiResult<OutputBodyType>> {
+  const page = await context.newPage();
+
+  const navigationResult = await loadPage(page, log, { url, waitSelector, actions, timeout, delay });
+  if (navigationResult.type === 'client-error') {
+    return navigationResult;
+  }
+
+  const timestamp = Math.floor(Date.now() / 1000);
+  let screenshot: Buffer;
+  try {
+    const screenshotOptions = {
+      type: format,
+      quality: format === 'jpeg' ? quality : undefined,
+      timeout,
+      mask: masks?.map((selector) => page.locator(selector)),
+    };
+    if (clipSelector) {
+      log.debug(`Capturing screenshot of the element "${clipSelector}" for "${url}".`);
+      screenshot = await page.locator(clipSelector).screenshot(screenshotOptions);
+    } else {
+      log.debug(`Capturing ${clip === 'viewport' ? 'viewport' : 'full page'} screenshot for "${url}".`);
+      screenshot = await page.screenshot({ ...screenshotOptions, fullPage: clip !== 'viewport' });
+    }
+  } catch (err) {
+    const errorMessage = `Failed to capture screenshot for page "${url}": ${Diagnostics.errorMessage(err)}`;
+    log.error(errorMessage);
+    return { type: 'client-error', error: errorMessage };
+  }
+
+  if (screenshot.length > MAX_SCREENSHOT_SIZE_BYTES) {
+    return {
+      type: 'client-error',
+      error: `Screenshot is too large (size: ${screenshot.length} bytes, max: ${MAX_SCREENSHOT_SIZE_BYTES} bytes), consider capturing a smaller area or using JPEG format.`,
+    };
+  }
+
+  const image = decodeImage(screenshot);
+  log.debug(`Successfully captured screenshot for "${url}" (${screenshot.length} bytes).`);
+
+  try {
+    await page.close();
+    log.debug(`Closed page "${url}".`);
+  } catch (err) {
+    log.error(`Failed to close page "${url}": ${Diagnostics.errorMessage(err)}`);
+  }
+
+  return {
+    type: 'success',
+    data: {
+      timestamp,
+      format,
+      data: screenshot.toString('base64'),
+      size: screenshot.length,
+      width: image.width,
+      height: image.height,
+      phash: createPerceptualHash(image),
+    },
+  };
+}
+
+function compareScreenshots(
+  {
+    data,
+    phash,
+    threshold = DEFAULT_PIXEL_THRESHOLD,
+    includeDiffImage = false,
+  }: NonNullable<InputBodyParamsType['previous']>,
+  current: OutputBodyType,
+): ApiResult<OutputComparisonType> {
+  if (!data) {
+    if (!phash) {
+      return {
+        type: 'client-error',
+        error: 'Either previous screenshot image data or perceptual hash should be specified.',
+      };
+    }
+
+    try {
+      return { type: 'success', data: { phashDistance: perceptualHashDistance(phash, current.phash) } };
+    } catch (err) {
+      return { type: 'client-error', error: Diagnostics.errorMessage(err) };
+    }
+  }
+
+  const previousImageData = Buffer.from(data, 'base64');
+  if (previousImageData.length > MAX_SCREENSHOT_SIZE_BYTES) {
+    return {
+      type: 'client-error',
+      error: `Previous screenshot is too large (size: ${previousImageData.length} bytes, max: ${MAX_SCREENSHOT_SIZE_BYTES} bytes).`,
+    };
+  }
+
+  const currentImageData = Buffer.from(current.data, 'base64');
+  let previousImage: DecodedImage;
+  try {
+    // Compressed image can be tiny, but still expand to gigabytes of pixel data, check dimensions before decoding.
+    const { width, height } = readImageSize(previousImageData);
+    if (width * height > MAX_PREVIOUS_SCREENSHOT_PIXELS) {
+      return {
+        type: 'client-error',
+        error: `Previous screenshot is too large (${width}x${height} pixels, max: ${MAX_PREVIOUS_SCREENSHOT_PIXELS} pixels).`,
+      };
+    }
+
+    // Images are compared within the largest bounds of both, e.g. very wide and very tall images produce huge area.
+    const currentSize = readImageSize(currentImageData);
+    const diffWidth = Math.max(width, currentSize.width);
+    const diffHeight = Math.max(height, currentSize.height);
+    if (diffWidth * diffHeight > MAX_PREVIOUS_SCREENSHOT_PIXELS) {
+      return {
+        type: 'client-error',
+        error: `Screenshots are too large to compare (${diffWidth}x${diffHeight} pixels, max: ${MAX_PREVIOUS_SCREENSHOT_PIXELS} pixels).`,
+      };
+    }
+
+    previousImage = decodeImage(previousImageData);
+  } catch (err) {
+    return { type: 'client-error', error: `Previous screenshot is not valid: ${Diagnostics.errorMessage(err)}` };
+  }
+
+  const imageDiff = diffImages(previousImage, decodeImage(currentImageData), {
+    threshold,
+    includeDiffImage,
+  });
+  const comparison: OutputComparisonType = {
+    phashDistance: perceptualHashDistance(createPerceptualHash(previousImage), current.phash),
+    changedPixels: imageDiff.changedPixels,
+    changedRatio: imageDiff.changedRatio,
+    regions: imageDiff.regions,
+  };
+
+  return {
+    type: 'success',
+    data: imageDiff.diffImage
+      ? { ...comparison, diffImage: encodePng(imageDiff.diffImage).toString('base64') }
+      : comparison,
+  };
+}
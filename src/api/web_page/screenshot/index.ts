@@ -0,0 +1 @@
+export { registerWebPageScreenshotGetRoutes } from './get.js';
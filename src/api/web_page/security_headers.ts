@@ -0,0 +1,348 @@
+import type { ContentSecurityPolicy } from './csp.js';
+import { getEffectiveDirectiveValues, parseContentSecurityPolicies } from './csp.js';
+
+// Minimal recommended HSTS max-age, in seconds (180 days).
+const MIN_HSTS_MAX_AGE_SEC = 180 * 24 * 60 * 60;
+
+// Score penalties per finding severity, only the most severe finding of every header is penalized.
+const SEVERITY_PENALTIES = { info: 0, low: 5, medium: 10, high: 20 };
+
+export type SecurityHeaderFindingSeverity = 'info' | 'low' | 'medium' | 'high';
+
+/**
+ * Describes a single issue found in the security response headers.
+ */
+export interface SecurityHeaderFinding {
+  /**
+   * Lowercased name of the header the finding relates to.
+   */
+  header: string;
+  severity: SecurityHeaderFindingSeverity;
+  message: string;
+}
+
+export interface SecurityHeadersAudit {
+  /**
+   * Overall grade, from `A+` (no issues) to `F`.
+   */
+  grade: 'A+' | 'A' | 'B' | 'C' | 'D' | 'F';
+  /**
+   * Overall score, from 0 to 100.
+   */
+  score: number;
+  findings: SecurityHeaderFinding[];
+}
+
+export const SECURITY_HEADERS_AUDIT_SCHEMA = {
+  type: 'object',
+  properties: {
+    grade: { type: 'string' },
+    score: { type: 'number' },
+    findings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          header: { type: 'string' },
+          severity: { type: 'string' },
+          message: { type: 'string' },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Audits security response headers of the web page loaded from the specified URL. Header names are expected to be
+ * lowercased, and multiple `Set-Cookie` headers are expected to be separated by a newline (as Playwright does).
+ */
+export function auditSecurityHeaders(url: string, headers: Record<string, string>): SecurityHeadersAudit {
+  const isHttps = new URL(url).protocol === 'https:';
+  const csp = headers['content-security-policy'];
+  const policies = csp ? parseContentSecurityPolicies(csp) : [];
+  const findings = [
+    ...auditContentSecurityPolicy(policies, headers['content-security-policy-report-only']),
+    ...auditStrictTransportSecurity(isHttps, headers['strict-transport-security']),
+    ...auditFrameOptions(headers['x-frame-options'], policies),
+    ...auditContentTypeOptions(headers['x-content-type-options']),
+    ...auditReferrerPolicy(headers['referrer-policy']),
+    ...auditPermissionsPolicy(headers['permissions-policy']),
+    ...auditCrossOriginPolicies(headers),
+    ...auditCookies(isHttps, headers['set-cookie']),
+  ];
+
+  const maxPenalties = new Map<string, number>();
+  for (const { header, severity } of findings) {
+    maxPenalties.set(header, Math.max(maxPenalties.get(header) ?? 0, SEVERITY_PENALTIES[severity]));
+  }
+
+  const score = Math.max(100 - Array.from(maxPenalties.values()).reduce((sum, penalty) => sum + penalty, 0), 0);
+  return { grade: getGrade(score, findings), score, findings };
+}
+
+function getGrade(score: number, findings: SecurityHeaderFinding[]): SecurityHeadersAudit['grade'] {
+  if (findings.every(({ severity }) => severity === 'info')) {
+    return 'A+';
+  }
+
+  if (score >= 90) {
+    return 'A';
+  }
+
+  if (score >= 80) {
+    return 'B';
+  }
+
+  if (score >= 70) {
+    return 'C';
+  }
+
+  return score >= 60 ? 'D' : 'F';
+}
+
+function auditContentSecurityPolicy(policies: ContentSecurityPolicy[], reportOnlyCsp?: string) {
+  const header = 'content-security-policy';
+  if (policies.length === 0) {
+    return [
+      reportOnlyCsp
+        ? { header, severity: 'medium' as const, message: 'Policy is only deployed in report-only mode.' }
+        : { header, severity: 'high' as const, message: 'Header is missing.' },
+    ];
+  }
+
+  // Multiple policies are enforced simultaneously, so the issue exists only if all policies allow it.
+  const allPoliciesAllow = (predicate: (policy: ContentSecurityPolicy) => boolean) => policies.every(predicate);
+  const findings: SecurityHeaderFinding[] = [];
+
+  const scriptSourcesAllow = (policy: ContentSecurityPolicy, isAllowed: (values: string[]) => boolean) => {
+    const values = getEffectiveDirectiveValues(policy, 'script-src');
+    return !values || isAllowed(values.map((value) => value.toLowerCase()));
+  };
+
+  if (
+    allPoliciesAllow((policy) =>
+      scriptSourcesAllow(
+        policy,
+        // `unsafe-inline` is ignored by browsers if nonces or hashes are present.
+        (values) =>
+          values.includes("'unsafe-inline'") && !values.some((value) => /^'(nonce|sha256|sha384|sha512)-/.test(value)),
+      ),
+    )
+  ) {
+    findings.push({ header, severity: 'medium', message: 'Inline scripts are allowed ("script-src").' });
+  }
+
+  if (allPoliciesAllow((policy) => scriptSourcesAllow(policy, (values) => values.includes("'unsafe-eval'")))) {
+    findings.push({ header, severity: 'medium', message: 'Dynamic code evaluation is allowed ("script-src").' });
+  }
+
+  if (
+    allPoliciesAllow((policy) =>
+      scriptSourcesAllow(policy, (values) => values.some((value) => ['*', 'http:', 'https:', 'data:'].includes(value))),
+    )
+  ) {
+    findings.push({ header, severity: 'medium', message: 'Scripts can be loaded from any origin ("script-src").' });
+  }
+
+  if (allPoliciesAllow((policy) => getEffectiveDirectiveValues(policy, 'object-src')?.join(' ') !== "'none'")) {
+    findings.push({ header, severity: 'low', message: 'Plugins are not disabled ("object-src").' });
+  }
+
+  if (allPoliciesAllow((policy) => !policy.has('base-uri'))) {
+    findings.push({ header, severity: 'low', message: 'Base URL is not restricted ("base-uri").' });
+  }
+
+  return findings;
+}
+
+function auditStrictTransportSecurity(isHttps: boolean, hsts?: string): SecurityHeaderFinding[] {
+  const header = 'strict-transport-security';
+  if (!isHttps) {
+    return [{ header, severity: 'high', message: 'Page is not served over HTTPS.' }];
+  }
+
+  if (!hsts) {
+    return [{ header, severity: 'high', message: 'Header is missing.' }];
+  }
+
+  const directives = hsts.split(';').map((directive) => directive.trim().toLowerCase());
+  const maxAge = directives.find((directive) => directive.startsWith('max-age='))?.slice('max-age='.length);
+  if (!maxAge || !/^\d+$/.test(maxAge.replace(/"/g, ''))) {
+    return [{ header, severity: 'medium', message: 'Header has no valid "max-age" directive.' }];
+  }
+
+  const findings: SecurityHeaderFinding[] = [];
+  if (Number(maxAge.replace(/"/g, '')) < MIN_HSTS_MAX_AGE_SEC) {
+    findings.push({
+      header,
+      severity: 'medium',
+      message: `"max-age" is less than the recommended ${MIN_HSTS_MAX_AGE_SEC} seconds.`,
+    });
+  }
+
+  if (!directives.includes('includesubdomains')) {
+    findings.push({ header, severity: 'low', message: 'Subdomains are not covered ("includeSubDomains").' });
+  }
+
+  return findings;
+}
+
+function auditFrameOptions(
+  frameOptions: string | undefined,
+  policies: ContentSecurityPolicy[],
+): SecurityHeaderFinding[] {
+  const header = 'x-frame-options';
+
+  // CSP `frame-ancestors` directive supersedes X-Frame-Options.
+  if (policies.some((policy) => policy.has('frame-ancestors'))) {
+    return [];
+  }
+
+  if (!frameOptions) {
+    return [
+      {
+        header,
+        severity: 'medium',
+        message: 'Page can be framed by any origin, neither the header nor "frame-ancestors" is set.',
+      },
+    ];
+  }
+
+  return ['deny', 'sameorigin'].includes(frameOptions.trim().toLowerCase())
+    ? []
+    : [{ header, severity: 'medium', message: `Header has unsupported value "${frameOptions}".` }];
+}
+
+function auditContentTypeOptions(contentTypeOptions?: string): SecurityHeaderFinding[] {
+  const header = 'x-content-type-options';
+  if (!contentTypeOptions) {
+    return [{ header, severity: 'medium', message: 'Header is missing.' }];
+  }
+
+  return contentTypeOptions.trim().toLowerCase() === 'nosniff'
+    ? []
+    : [{ header, severity: 'medium', message: `Header has unsupported value "${contentTypeOptions}".` }];
+}
+
+function auditReferrerPolicy(referrerPolicy?: string): SecurityHeaderFinding[] {
+  const header = 'referrer-policy';
+  if (!referrerPolicy) {
+    return [{ header, severity: 'low', message: 'Header is missing.' }];
+  }
+
+  // Browsers use the last policy they recognize.
+  const knownPolicies = [
+    'no-referrer',
+    'no-referrer-when-downgrade',
+    'origin',
+    'origin-when-cross-origin',
+    'same-origin',
+    'strict-origin',
+    'strict-origin-when-cross-origin',
+    'unsafe-url',
+  ];
+  const policy = referrerPolicy
+    .split(',')
+    .map((value) => value.trim().toLowerCase())
+    .filter((value) => knownPolicies.includes(value))
+    .pop();
+  if (!policy) {
+    return [{ header, severity: 'low', message: `Header has unsupported value "${referrerPolicy}".` }];
+  }
+
+  if (policy === 'unsafe-url') {
+    return [{ header, severity: 'medium', message: 'Full URL is sent to all origins ("unsafe-url").' }];
+  }
+
+  return policy === 'no-referrer-when-downgrade'
+    ? [{ header, severity: 'low', message: 'Full URL is sent to other origins ("no-referrer-when-downgrade").' }]
+    : [];
+}
+
+function auditPermissionsPolicy(permissionsPolicy?: string): SecurityHeaderFinding[] {
+  const header = 'permissions-policy';
+  if (!permissionsPolicy) {
+    return [{ header, severity: 'low', message: 'Header is missing.' }];
+  }
+
+  // Permissions-Policy is a structured header dictionary, e.g. `camera=(), geolocation=(self "https://a.com")`.
+  const invalidFeatures = permissionsPolicy
+    .split(',')
+    .map((feature) => feature.trim())
+    .filter((feature) => feature && !/^[a-z][a-z0-9-]*=(\*|self|\(.*\))$/i.test(feature));
+  return invalidFeatures.length > 0
+    ? [{ header, severity: 'low', message: `Header has invalid features: ${invalidFeatures.join(', ')}.` }]
+    : [];
+}
+
+function auditCrossOriginPolicies(headers: Record<string, string>): SecurityHeaderFinding[] {
+  const policies = [
+    {
+      header: 'cross-origin-opener-policy',
+      validValues: ['same-origin', 'same-origin-allow-popups', 'unsafe-none', 'noopener-allow-popups'],
+      unsafeValue: 'unsafe-none',
+      missingSeverity: 'low' as const,
+    },
+    {
+      header: 'cross-origin-embedder-policy',
+      validValues: ['require-corp', 'credentialless', 'unsafe-none'],
+      unsafeValue: 'unsafe-none',
+      missingSeverity: 'info' as const,
+    },
+    {
+      header: 'cross-origin-resource-policy',
+      validValues: ['same-site', 'same-origin', 'cross-origin'],
+      unsafeValue: 'cross-origin',
+      missingSeverity: 'info' as const,
+    },
+  ];
+
+  const findings: SecurityHeaderFinding[] = [];
+  for (const { header, validValues, unsafeValue, missingSeverity } of policies) {
+    const headerValue = headers[header];
+    if (!headerValue) {
+      findings.push({ header, severity: missingSeverity, message: 'Header is missing.' });
+      continue;
+    }
+
+    // Reporting endpoint can be specified as a parameter, e.g. `same-origin; report-to="coop"`.
+    const value = headerValue.split(';')[0].trim().toLowerCase();
+    if (!validValues.includes(value)) {
+      findings.push({ header, severity: 'low', message: `Header has unsupported value "${headerValue}".` });
+    } else if (value === unsafeValue) {
+      findings.push({ header, severity: missingSeverity, message: `Header value "${value}" provides no isolation.` });
+    }
+  }
+
+  return findings;
+}
+
+function auditCookies(isHttps: boolean, setCookie?: string): SecurityHeaderFinding[] {
+  const header = 'set-cookie';
+  const findings: SecurityHeaderFinding[] = [];
+  for (const cookie of setCookie?.split('\n') ?? []) {
+    const [nameValue, ...attributes] = cookie.split(';').map((part) => part.trim());
+    const name = nameValue.split('=')[0];
+    const attributeNames = new Set(attributes.map((attribute) => attribute.split('=')[0].trim().toLowerCase()));
+    const sameSite = attributes
+      .find((attribute) => attribute.toLowerCase().startsWith('samesite='))
+      ?.slice('samesite='.length)
+      .toLowerCase();
+
+    if (sameSite === 'none' && !attributeNames.has('secure')) {
+      findings.push({ header, severity: 'high', message: `Cookie "${name}" has "SameSite=None" without "Secure".` });
+    } else if (isHttps && !attributeNames.has('secure')) {
+      findings.push({ header, severity: 'medium', message: `Cookie "${name}" is missing "Secure" attribute.` });
+    }
+
+    if (!attributeNames.has('httponly')) {
+      findings.push({ header, severity: 'low', message: `Cookie "${name}" is missing "HttpOnly" attribute.` });
+    }
+
+    if (!sameSite) {
+      findings.push({ header, severity: 'low', message: `Cookie "${name}" is missing "SameSite" attribute.` });
+    }
+  }
+
+  return findings;
+}
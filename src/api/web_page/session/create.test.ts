@@ -0,0 +1,210 @@
+import * as assert from 'node:assert';
+import { test } from 'node:test';
+
+import type { Browser } from 'playwright/index.js';
+
+import { registerWebPageSessionCreateRoutes } from './create.js';
+import { createBrowserContextMock, createBrowserMock, createLocatorMock, createPageMock } from '../../../mocks.js';
+import { createMock } from '../../api_route_params.mocks.js';
+import { registerWebPageContentGetRoutes } from '../content/index.js';
+
+const STORAGE_STATE = {
+  cookies: [
+    {
+      name: 'session',
+      value: 'secret',
+      domain: 'secutils.dev',
+      path: '/',
+      expires: -1,
+      httpOnly: true,
+      secure: true,
+      sameSite: 'Lax',
+    },
+  ],
+  origins: [{ origin: 'https://secutils.dev', localStorage: [{ name: 'token', value: 'secret' }] }],
+};
+
+await test('[/api/web_page/session] can successfully create route', () => {
+  assert.doesNotThrow(() => registerWebPageSessionCreateRoutes(createMock()));
+});
+
+await test('[/api/web_page/session] can create session that can be reused', async (t) => {
+  t.mock.method(Date, 'now', () => 123000);
+
+  const pageMock = createPageMock();
+  const submitLocatorMock = createLocatorMock('button[type=submit]');
+  pageMock.locator.mock.mockImplementation((selector: string) =>
+    selector === submitLocatorMock.selector ? submitLocatorMock : createLocatorMock(selector),
+  );
+  const browserContextMock = createBrowserContextMock(pageMock);
+  browserContextMock.storageState.mock.mockImplementation(() => Promise.resolve(STORAGE_STATE));
+
+  const routeParams = createMock({ browser: createBrowserMock(browserContextMock) as unknown as Browser });
+  registerWebPageContentGetRoutes(routeParams);
+  const response = await registerWebPageSessionCreateRoutes(routeParams).inject({
+    method: 'POST',
+    url: '/api/web_page/session',
+    payload: {
+      url: 'https://secutils.dev/login',
+      delay: 0,
+      actions: [
+        { type: 'fill', selector: '#username', value: 'user' },
+        { type: 'fill', selector: '#password', value: 'password' },
+        { type: 'click', selector: 'button[type=submit]' },
+      ],
+    },
+  });
+
+  assert.strictEqual(response.statusCode, 200);
+  const { timestamp, url, sessionState } = JSON.parse(response.body) as {
+    timestamp: number;
+    url: string;
+    sessionState: string;
+  };
+  assert.strictEqual(timestamp, 123);
+  assert.strictEqual(url, 'https://secutils.dev/');
+  assert.strictEqual(submitLocatorMock.click.mock.callCount(), 1);
+
+  // Session state should be opaque.
+  assert.ok(!sessionState.includes('secret'));
+
+  // Session state can be used to restore the browser context, authenticated requests are never cached.
+  for (let i = 0; i < 2; i++) {
+    const contentResponse = await routeParams.server.inject({
+      method: 'POST',
+      url: '/api/web_page/content',
+      payload: { url: 'https://secutils.dev', delay: 0, authentication: { sessionState } },
+    });
+    assert.strictEqual(contentResponse.statusCode, 200);
+    assert.deepStrictEqual((JSON.parse(contentResponse.body) as { cache: unknown }).cache, { hit: false, ageSec: 0 });
+  }
+
+  assert.strictEqual(routeParams.acquireBrowserContext.mock.callCount(), 3);
+  assert.deepStrictEqual(routeParams.acquireBrowserContext.mock.calls[1].arguments, [
+    {
+      extraHTTPHeaders: undefined,
+      bypassCSP: false,
+      userAgent: routeParams.config.userAgent,
+      storageState: STORAGE_STATE,
+    },
+  ]);
+  assert.deepStrictEqual(await routeParams.cache.entries(), []);
+});
+
+await test('[/api/web_page/session] rejects malformed session state', async () => {
+  const routeParams = createMock();
+  const response = await registerWebPageContentGetRoutes(routeParams).inject({
+    method: 'POST',
+    url: '/api/web_page/content',
+    payload: { url: 'https://secutils.dev', delay: 0, authentication: { sessionState: 'v1.bm90LWpzb24' } },
+  });
+
+  assert.strictEqual(response.statusCode, 400);
+  assert.strictEqual(response.body, JSON.stringify({ message: 'Invalid authentication: Session state is malformed.' }));
+  assert.strictEqual(routeParams.acquireBrowserContext.mock.callCount(), 0);
+});
+
+await test('[/api/web_page/session] applies HTTP credentials and cookies', async () => {
+  const browserContextMock = createBrowserContextMock();
+  const routeParams = createMock({ browser: createBrowserMock(browserContextMock) as unknown as Browser });
+  const cookies = [{ name: 'session', value: 'secret', url: 'https://secutils.dev' }];
+  const response = await registerWebPageContentGetRoutes(routeParams).inject({
+    method: 'POST',
+    url: '/api/web_page/content',
+    payload: {
+      url: 'https://secutils.dev',
+      delay: 0,
+      authentication: { credentials: { username: 'user', password: 'secret' }, cookies },
+    },
+  });
+
+  assert.strictEqual(response.statusCode, 200);
+  assert.deepStrictEqual(routeParams.acquireBrowserContext.mock.calls[0].arguments, [
+    {
+      extraHTTPHeaders: undefined,
+      bypassCSP: false,
+      userAgent: routeParams.config.userAgent,
+      httpCredentials: { username: 'user', password: 'secret' },
+    },
+  ]);
+  assert.deepStrictEqual(browserContextMock.addCookies.mock.calls[0].arguments, [cookies]);
+});
+
+await test('[/api/web_page/session] applies client certificates', async () => {
+  const routeParams = createMock();
+  const route = registerWebPageContentGetRoutes(routeParams);
+  const fetchContent = (clientCertificates: unknown[], proxy?: unknown) =>
+    route.inject({
+      method: 'POST',
+      url: '/api/web_page/content',
+      payload: { url: 'https://secutils.dev', delay: 0, proxy, authentication: { clientCertificates } },
+    });
+
+  const pemCertificate = { origin: 'https://secutils.dev', cert: 'CERT', key: 'KEY', passphrase: 'secret' };
+  const pfxCertificate = { origin: 'https://api.secutils.dev', pfx: Buffer.from('PFX').toString('base64') };
+  const response = await fetchContent([pemCertificate, pfxCertificate]);
+
+  assert.strictEqual(response.statusCode, 200);
+  assert.deepStrictEqual(routeParams.acquireBrowserContext.mock.calls[0].arguments, [
+    {
+      extraHTTPHeaders: undefined,
+      bypassCSP: false,
+      userAgent: routeParams.config.userAgent,
+      clientCertificates: [
+        { origin: 'https://secutils.dev', cert: Buffer.from('CERT'), key: Buffer.from('KEY'), passphrase: 'secret' },
+        { origin: 'https://api.secutils.dev', pfx: Buffer.from('PFX') },
+      ],
+    },
+  ]);
+
+  // Either certificate and key, or PFX bundle are required, and client certificates can't be used with proxy.
+  for (const [clientCertificates, proxy, message] of [
+    [
+      [{ origin: 'https://secutils.dev', cert: 'CERT' }],
+      undefined,
+      'Invalid authentication: every client certificate should have either "cert" and "key", or "pfx".',
+    ],
+    [
+      [{ ...pfxCertificate, key: 'KEY' }],
+      undefined,
+      'Invalid authentication: every client certificate should have either "cert" and "key", or "pfx".',
+    ],
+    [
+      [pemCertificate],
+      { server: 'http://proxy.secutils.dev:3128' },
+      'Invalid authentication: client certificates are not supported with outbound proxy.',
+    ],
+  ] as const) {
+    const errorResponse = await fetchContent([...clientCertificates], proxy);
+    assert.strictEqual(errorResponse.statusCode, 400);
+    assert.strictEqual(errorResponse.body, JSON.stringify({ message }));
+  }
+  assert.strictEqual(routeParams.acquireBrowserContext.mock.callCount(), 1);
+});
+
+await test('[/api/web_page/session] does not capture diagnostic screenshots of authenticated pages', async () => {
+  const pageMock = createPageMock();
+  pageMock.goto.mock.mockImplementation(() => Promise.reject(new Error('net::ERR_CONNECTION_REFUSED')));
+  const browserContextMock = createBrowserContextMock(pageMock);
+  browserContextMock.pages.mock.mockImplementation(
+    () => [{ ...pageMock, isClosed: () => false, url: () => 'https://secutils.dev/' }] as never[],
+  );
+  const browserMock = createBrowserMock(browserContextMock);
+  browserMock.isConnected.mock.mockImplementation(() => true);
+
+  const route = registerWebPageContentGetRoutes(createMock({ browser: browserMock as unknown as Browser }));
+  const fetchContent = async (authentication?: unknown) => {
+    const response = await route.inject({
+      method: 'POST',
+      url: '/api/web_page/content',
+      payload: { url: 'https://secutils.dev', delay: 0, authentication },
+    });
+    assert.strictEqual(response.statusCode, 400);
+  };
+
+  await fetchContent({ cookies: [{ name: 'session', value: 'secret', url: 'https://secutils.dev' }] });
+  assert.strictEqual(pageMock.screenshot.mock.callCount(), 0);
+
+  await fetchContent();
+  assert.strictEqual(pageMock.screenshot.mock.callCount(), 1);
+});
@@ -0,0 +1,151 @@
+import type { FastifyBaseLogger } from 'fastify';
+import type { BrowserContext } from 'playwright';
+
+import type { ApiResult } from '../../api_result.js';
+import type { ApiRouteParams } from '../../api_route_params.js';
+import { Diagnostics } from '../../diagnostics.js';
+import type { WebPageAuthentication } from '../authentication.js';
+import { acquireAuthenticatedBrowserContext, AUTHENTICATION_SCHEMA, serializeSessionState } from '../authentication.js';
+import type { WebPageEmulation } from '../emulation.js';
+import { EMULATION_SCHEMA, getEmulationContextOptions } from '../emulation.js';
+import type { NavigationOptions } from '../navigation.js';
+import { loadPage, NAVIGATION_OPTIONS_SCHEMA_PROPERTIES } from '../navigation.js';
+import type { WebPageProxy } from '../proxy.js';
+import { PROXY_SCHEMA } from '../proxy.js';
+
+/**
+ * Defines type of the input parameters. Login flow is usually described with `actions`, e.g. filling in the login form
+ * and waiting for the redirect to the authenticated page.
+ */
+interface InputBodyParamsType extends NavigationOptions {
+  /**
+   * Optional list of HTTP headers that should be sent with the login flow requests.
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Optional authentication details to start the login flow with, e.g. to refresh the existing session state.
+   */
+  authentication?: WebPageAuthentication;
+
+  /**
+   * Optional outbound proxy to load the page through. If not specified, the server-wide default proxy is used, if any.
+   */
+  proxy?: WebPageProxy;
+
+  /**
+   * Optional device and environment emulation, e.g. device preset, viewport, locale or time zone.
+   */
+  emulation?: WebPageEmulation;
+}
+
+/**
+ * Session state that can be passed as `authentication.sessionState` to other endpoints.
+ */
+interface OutputBodyType {
+  timestamp: number;
+  /**
+   * URL of the page the login flow has ended at.
+   */
+  url: string;
+  /**
+   * Opaque session state, contains cookies and local storage of the browser context.
+   */
+  sessionState: string;
+}
+
+export function registerWebPageSessionCreateRoutes({ server, acquireBrowserContext, config }: ApiRouteParams) {
+  const log = server.log.child({ provider: 'web_page_session_create' });
+  return server.post<{ Body: InputBodyParamsType }>(
+    '/api/web_page/session',
+    {
+      schema: {
+        body: {
+          ...NAVIGATION_OPTIONS_SCHEMA_PROPERTIES,
+          headers: { type: 'object' },
+          authentication: AUTHENTICATION_SCHEMA,
+          proxy: PROXY_SCHEMA,
+          emulation: EMULATION_SCHEMA,
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              timestamp: { type: 'number' },
+              url: { type: 'string' },
+              sessionState: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const proxy = request.body.proxy ?? config.proxy;
+
+      // Session state is a secret, so it's never cached and never logged.
+      try {
+        const leaseResult = await acquireAuthenticatedBrowserContext(
+          acquireBrowserContext,
+          {
+            extraHTTPHeaders: request.body.headers,
+            bypassCSP: false,
+            userAgent: config.userAgent,
+            ...getEmulationContextOptions(request.body.emulation),
+            ...(proxy ? { proxy } : {}),
+          },
+          request.body.authentication,
+        );
+        if (leaseResult.type === 'client-error') {
+          return reply.code(400).send({ message: leaseResult.error });
+        }
+
+        const { context, release } = leaseResult.data;
+        let result: ApiResult<OutputBodyType>;
+        try {
+          result = await createSession(context, log, request.body);
+        } finally {
+          await release();
+        }
+
+        if (result.type === 'client-error') {
+          log.error(`Cannot create session for page "${request.body.url}" due to client error: ${result.error}`);
+          return reply.code(400).send({ message: result.error });
+        }
+
+        log.debug(`Successfully created session for page "${request.body.url}".`);
+        return result.data;
+      } catch (err) {
+        log.error(`Cannot create session for page "${request.body.url}": ${Diagnostics.errorMessage(err)}`);
+        return reply.code(500).send({
+          message: `Cannot create session for page "${request.body.url}". Check the server logs for more details.`,
+        });
+      }
+    },
+  );
+}
+
+async function createSession(
+  context: BrowserContext,
+  log: FastifyBaseLogger,
+  { url, waitSelector, actions, timeout, delay }: InputBodyParamsType,
+): Promise<ApiResult<OutputBodyType>> {
+  const page = await context.newPage();
+
+  const navigationResult = await loadPage(page, log, { url, waitSelector, actions, timeout, delay });
+  if (navigationResult.type === 'client-error') {
+    return navigationResult;
+  }
+
+  const timestamp = Math.floor(Date.now() / 1000);
+  const storageState = await context.storageState();
+  const finalUrl = page.url();
+
+  try {
+    await page.close();
+    log.debug(`Closed page "${url}".`);
+  } catch (err) {
+    log.error(`Failed to close page "${url}": ${Diagnostics.errorMessage(err)}`);
+  }
+
+  return { type: 'success', data: { timestamp, url: finalUrl, sessionState: serializeSessionState(storageState) } };
+}
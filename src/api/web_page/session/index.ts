@@ -0,0 +1 @@
+export { registerWebPageSessionCreateRoutes } from './create.js';
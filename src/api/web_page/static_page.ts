@@ -0,0 +1,215 @@
+import type { FastifyBaseLogger } from 'fastify';
+
+import type { ApiResult } from '../api_result.js';
+import { Diagnostics } from '../diagnostics.js';
+
+/**
+ * Defines how the web page is loaded: `browser` renders the page in a real browser, while `static` only fetches the
+ * document and its subresources over plain HTTP, without executing any scripts.
+ */
+export type WebPageMode = 'browser' | 'static';
+
+export const WEB_PAGE_MODE_SCHEMA = { type: 'string', enum: ['browser', 'static'] };
+
+/**
+ * Describes document fetched over plain HTTP.
+ */
+export interface StaticPage {
+  /**
+   * The final URL of the document, after all redirects.
+   */
+  url: string;
+  /**
+   * Lower-cased response headers, multiple values of the same header are joined with a comma.
+   */
+  headers: Record<string, string>;
+  /**
+   * Document HTML.
+   */
+  html: string;
+}
+
+/**
+ * Describes `script`, `style`, `link` or `base` element found in the static document.
+ */
+export interface StaticPageElement {
+  name: 'script' | 'style' | 'link' | 'base';
+  /**
+   * Element attributes with lower-cased names and decoded values.
+   */
+  attributes: Record<string, string>;
+  /**
+   * Raw text content of the `script` and `style` elements, empty for other elements.
+   */
+  content: string;
+}
+
+export interface StaticPageFetchOptions {
+  headers?: Record<string, string>;
+  userAgent?: string;
+  /**
+   * Signal to abort the request, e.g. when the page load timeout is reached.
+   */
+  signal: AbortSignal;
+}
+
+// Maximum size of the document or subresource body, larger bodies aren't loaded into memory.
+const MAX_BODY_SIZE_BYTES = 1024 * 1024 * 5;
+
+// Matches start of the comment (to skip elements inside it) or start of the element we're interested in. The rest of
+// the element is found with `indexOf`, since lazy regular expressions take quadratic time on unclosed elements.
+const ELEMENT_START_REGEX = /<!--|<(script|style|link|base)\b/gi;
+const RAW_TEXT_ELEMENT_END_REGEXES = { script: /<\/script\s*>/gi, style: /<\/style\s*>/gi };
+const ATTRIBUTE_REGEX = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+const NAMED_CHARACTER_REFERENCES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+/**
+ * Fetches the web page document over plain HTTP, returns client error if the document cannot be fetched.
+ */
+export async function fetchStaticPage(
+  log: FastifyBaseLogger,
+  url: string,
+  options: StaticPageFetchOptions,
+): Promise<ApiResult<StaticPage>> {
+  log.debug(`Fetching static page "${url}".`);
+  try {
+    const response = await fetch(url, { headers: createRequestHeaders(options), signal: options.signal });
+    const html = (await readResponseBody(response)).toString('utf8');
+    log.debug(`Static page "${url}" is fetched (status: ${response.status}, size: ${html.length}).`);
+    return {
+      type: 'success',
+      data: { url: response.url || url, headers: Object.fromEntries(response.headers.entries()), html },
+    };
+  } catch (err) {
+    const errorMessage = `Failed to load page "${url}": ${Diagnostics.errorMessage(err)}`;
+    log.error(errorMessage);
+    return { type: 'client-error', error: errorMessage };
+  }
+}
+
+/**
+ * Fetches raw body of the static page subresource (script or stylesheet) over plain HTTP. Returns `undefined` if
+ * resource cannot be fetched, the same way the browser just skips resources that failed to load.
+ */
+export async function fetchStaticPageResource(
+  log: FastifyBaseLogger,
+  url: string,
+  options: StaticPageFetchOptions,
+): Promise<Buffer | undefined> {
+  try {
+    const response = await fetch(url, { headers: createRequestHeaders(options), signal: options.signal });
+    if (!response.ok) {
+      log.warn(`Failed to fetch static page resource "${url}" (status: ${response.status}).`);
+      return;
+    }
+    return await readResponseBody(response);
+  } catch (err) {
+    log.warn(`Failed to fetch static page resource "${url}": ${Diagnostics.errorMessage(err)}`);
+  }
+}
+
+/**
+ * Finds `script`, `style`, `link` and `base` elements in the document HTML, in the document order. It's not a full HTML
+ * parser, but it handles everything that matters for these elements: comments, raw text content, and quoted, unquoted
+ * and boolean attributes.
+ */
+export function parseStaticPageElements(html: string): StaticPageElement[] {
+  const elements: StaticPageElement[] = [];
+  const elementStartRegex = new RegExp(ELEMENT_START_REGEX);
+  for (let match = elementStartRegex.exec(html); match; match = elementStartRegex.exec(html)) {
+    const [elementStart, rawName] = match;
+    const elementEndIndex = html.indexOf(rawName ? '>' : '-->', match.index + elementStart.length);
+    if (elementEndIndex < 0) {
+      break;
+    }
+
+    if (!rawName) {
+      elementStartRegex.lastIndex = elementEndIndex + 3;
+      continue;
+    }
+
+    const name = rawName.toLowerCase() as StaticPageElement['name'];
+    const attributes = parseAttributes(html.slice(match.index + elementStart.length, elementEndIndex));
+    if (name === 'link' || name === 'base') {
+      elements.push({ name, attributes, content: '' });
+      elementStartRegex.lastIndex = elementEndIndex + 1;
+      continue;
+    }
+
+    // Browser treats the rest of the document as the element content if the element isn't closed.
+    const contentEndRegex = new RegExp(RAW_TEXT_ELEMENT_END_REGEXES[name]);
+    contentEndRegex.lastIndex = elementEndIndex + 1;
+    const contentEndMatch = contentEndRegex.exec(html);
+    elements.push({
+      name,
+      attributes,
+      content: html.slice(elementEndIndex + 1, contentEndMatch ? contentEndMatch.index : html.length),
+    });
+    elementStartRegex.lastIndex = contentEndMatch ? contentEndRegex.lastIndex : html.length;
+  }
+
+  return elements;
+}
+
+function parseAttributes(rawAttributes: string) {
+  const attributes: Record<string, string> = {};
+  for (const [, name, doubleQuoted, singleQuoted, unquoted] of rawAttributes.matchAll(ATTRIBUTE_REGEX)) {
+    // Only the first occurrence of the attribute is used.
+    const attributeName = name.toLowerCase();
+    if (!(attributeName in attributes)) {
+      attributes[attributeName] = decodeCharacterReferences(doubleQuoted ?? singleQuoted ?? unquoted ?? '');
+    }
+  }
+
+  return attributes;
+}
+
+function decodeCharacterReferences(value: string) {
+  return value.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (reference: string, name: string) => {
+    if (name.startsWith('#')) {
+      const codePoint = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : reference;
+    }
+
+    return NAMED_CHARACTER_REFERENCES[name.toLowerCase()] ?? reference;
+  });
+}
+
+/**
+ * Reads response body, but fails as soon as it's known that the body exceeds the size limit: either from the
+ * `Content-Length` header or from the number of bytes received so far, since the header is optional.
+ */
+async function readResponseBody(response: Response) {
+  const contentLength = Number(response.headers.get('content-length'));
+  if (contentLength > MAX_BODY_SIZE_BYTES) {
+    await response.body?.cancel();
+    throw new Error(`Response body is too large (${contentLength} bytes, max: ${MAX_BODY_SIZE_BYTES} bytes).`);
+  }
+
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const chunks: Uint8Array[] = [];
+  let bodySize = 0;
+  const reader = response.body.getReader();
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    bodySize += result.value.length;
+    if (bodySize > MAX_BODY_SIZE_BYTES) {
+      await reader.cancel();
+      throw new Error(`Response body is too large (more than ${MAX_BODY_SIZE_BYTES} bytes).`);
+    }
+    chunks.push(result.value);
+  }
+
+  return Buffer.concat(chunks);
+}
+
+function createRequestHeaders({ headers, userAgent }: StaticPageFetchOptions) {
+  // Explicitly specified headers take precedence over the default user agent, as they do in the browser.
+  const requestHeaders = new Headers(headers);
+  if (userAgent && !requestHeaders.has('user-agent')) {
+    requestHeaders.set('user-agent', userAgent);
+  }
+  return requestHeaders;
+}
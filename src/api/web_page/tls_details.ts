@@ -0,0 +1,95 @@
+import type { CDPSession, Response } from 'playwright';
+import type { Protocol } from 'playwright-core/types/protocol.js';
+
+/**
+ * Describes TLS connection and certificate of the web page main document.
+ */
+export interface TlsDetails {
+  /**
+   * TLS protocol, e.g. `TLS 1.3`.
+   */
+  protocol?: string;
+  /**
+   * Common Name of the certificate issuer.
+   */
+  issuer?: string;
+  /**
+   * Common Name of the certificate subject.
+   */
+  subject?: string;
+  /**
+   * Subject Alternative Names of the certificate.
+   */
+  sanList: string[];
+  /**
+   * Unix timestamps (in seconds) when the certificate becomes valid and invalid.
+   */
+  validFrom?: number;
+  validTo?: number;
+  /**
+   * Number of full days left until the certificate expires, negative if it's already expired.
+   */
+  daysToExpiry?: number;
+  cipher?: string;
+  keyExchange?: string;
+}
+
+export const TLS_DETAILS_SCHEMA = {
+  type: 'object',
+  properties: {
+    protocol: { type: 'string' },
+    issuer: { type: 'string' },
+    subject: { type: 'string' },
+    sanList: { type: 'array', items: { type: 'string' } },
+    validFrom: { type: 'number' },
+    validTo: { type: 'number' },
+    daysToExpiry: { type: 'number' },
+    cipher: { type: 'string' },
+    keyExchange: { type: 'string' },
+  },
+};
+
+/**
+ * Collects TLS details of the documents loaded by the page. Playwright doesn't expose certificate SAN list and cipher,
+ * so they are retrieved via CDP.
+ */
+export class TlsDetailsCollector {
+  private readonly documentSecurityDetails = new Map<string, Protocol.Network.SecurityDetails>();
+  constructor(private readonly session: CDPSession) {}
+
+  /**
+   * Starts collecting security details, must be called before page navigation.
+   */
+  public async start() {
+    this.session.on('Network.responseReceived', (event) => {
+      if (event.type === 'Document' && event.response.securityDetails) {
+        this.documentSecurityDetails.set(event.response.url, event.response.securityDetails);
+      }
+    });
+    await this.session.send('Network.enable');
+  }
+
+  /**
+   * Returns TLS details for the specified document response, or `null` if it wasn't loaded over TLS.
+   */
+  public async collect(response: Response, timestamp: number): Promise<TlsDetails | null> {
+    const securityDetails = await response.securityDetails();
+    if (!securityDetails) {
+      return null;
+    }
+
+    const cdpSecurityDetails = this.documentSecurityDetails.get(response.url());
+    const { protocol, issuer, subjectName, validFrom, validTo } = securityDetails;
+    return {
+      protocol,
+      issuer,
+      subject: subjectName,
+      sanList: cdpSecurityDetails?.sanList ?? [],
+      validFrom,
+      validTo,
+      daysToExpiry: validTo !== undefined ? Math.floor((validTo - timestamp) / (24 * 60 * 60)) : undefined,
+      cipher: cdpSecurityDetails?.cipher,
+      keyExchange: cdpSecurityDetails?.keyExchange || undefined,
+    };
+  }
+}
@@ -0,0 +1,109 @@
+import * as assert from 'node:assert';
+import { test } from 'node:test';
+
+import { fastify } from 'fastify';
+import type { Browser } from 'playwright';
+
+import type { BrowserPoolOptions } from './browser_pool.js';
+import { BrowserPool } from './browser_pool.js';
+import { createBrowserMock } from './mocks.js';
+
+function createPool(options: Partial<BrowserPoolOptions> = {}) {
+  const browsers: Array<ReturnType<typeof createBrowserMock> & { close: () => Promise<void> }> = [];
+  const pool = new BrowserPool({
+    log: fastify({ logger: { level: 'warn' } }).log,
+    size: 2,
+    maxContextsPerBrowser: 1,
+    acquireTimeoutMs: 1000,
+    idleTTLMs: 1000,
+    launch: () => {
+      const browserMock = Object.assign(createBrowserMock(), { close: () => Promise.resolve() });
+      browserMock.isConnected.mock.mockImplementation(() => true);
+      browsers.push(browserMock);
+      return Promise.resolve(browserMock as unknown as Browser);
+    },
+    ...options,
+  });
+  return { pool, browsers };
+}
+
+await test('[browser_pool] launches browsers on demand up to the pool size', async () => {
+  const { pool, browsers } = createPool();
+
+  const leaseOne = await pool.acquireContext();
+  assert.strictEqual(browsers.length, 1);
+
+  const leaseTwo = await pool.acquireContext({ userAgent: 'secutils/1.0.0' });
+  assert.strictEqual(browsers.length, 2);
+  assert.deepEqual(browsers[1].newContext.mock.calls[0].arguments, [{ userAgent: 'secutils/1.0.0' }]);
+
+  await leaseOne.release();
+  await leaseTwo.release();
+
+  // Released slots should reuse already running browsers.
+  const leaseThree = await pool.acquireContext();
+  assert.strictEqual(browsers.length, 2);
+
+  await leaseThree.release();
+  await pool.stop();
+});
+
+await test('[browser_pool] queues requests when all browsers are at capacity', async () => {
+  const { pool } = createPool({ size: 1 });
+
+  const leaseOne = await pool.acquireContext();
+  const leaseTwoPromise = pool.acquireContext();
+
+  const contextMock = leaseOne.context as unknown as { close: { mock: { callCount: () => number } } };
+  await leaseOne.release();
+  await leaseOne.release();
+  assert.strictEqual(contextMock.close.mock.callCount(), 1);
+
+  const leaseTwo = await leaseTwoPromise;
+  await leaseTwo.release();
+  await pool.stop();
+});
+
+await test('[browser_pool] rejects queued requests after timeout', async () => {
+  const { pool } = createPool({ size: 1, acquireTimeoutMs: 10 });
+
+  const leaseOne = await pool.acquireContext();
+  await assert.rejects(pool.acquireContext(), {
+    message: 'Timed out waiting for a free browser context (10ms).',
+  });
+
+  await leaseOne.release();
+  await pool.stop();
+  await assert.rejects(pool.acquireContext(), { message: 'Browser pool is stopped.' });
+});
+
+await test('[browser_pool] stops idle browsers after TTL', async (t) => {
+  t.mock.timers.enable({ apis: ['setTimeout'] });
+
+  const { pool, browsers } = createPool({ size: 1 });
+
+  const leaseOne = await pool.acquireContext();
+  const closeMock = t.mock.method(browsers[0], 'close');
+  await leaseOne.release();
+
+  // Idle timer should be cancelled as soon as the browser is leased again.
+  t.mock.timers.tick(999);
+  const leaseTwo = await pool.acquireContext();
+  t.mock.timers.tick(1000);
+  assert.strictEqual(closeMock.mock.callCount(), 0);
+  assert.strictEqual(browsers.length, 1);
+
+  await leaseTwo.release();
+  t.mock.timers.tick(999);
+  assert.strictEqual(closeMock.mock.callCount(), 0);
+  t.mock.timers.tick(1);
+  assert.strictEqual(closeMock.mock.callCount(), 1);
+
+  // Stopped browser should be re-launched on demand.
+  const leaseThree = await pool.acquireContext();
+  assert.strictEqual(browsers.length, 2);
+
+  await leaseThree.release();
+  await pool.stop();
+  assert.strictEqual(closeMock.mock.callCount(), 1);
+});
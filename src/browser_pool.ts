@@ -0,0 +1,237 @@
+import type { FastifyBaseLogger } from 'fastify';
+import type { Browser, BrowserContext, BrowserContextOptions } from 'playwright';
+
+import { Diagnostics } from './api/diagnostics.js';
+
+/**
+ * Browser context leased from the pool. The lease must be released as soon as the context is no longer needed.
+ */
+export interface BrowserContextLease {
+  context: BrowserContext;
+  release: () => Promise<void>;
+}
+
+export interface BrowserPoolOptions {
+  log: FastifyBaseLogger;
+  /**
+   * Maximum number of browser processes the pool can run simultaneously.
+   */
+  size: number;
+  /**
+   * Maximum number of live contexts per browser process.
+   */
+  maxContextsPerBrowser: number;
+  /**
+   * Number of milliseconds to wait for a free context slot before giving up.
+   */
+  acquireTimeoutMs: number;
+  /**
+   * Number of milliseconds a browser process without live contexts can stay idle before it's stopped.
+   */
+  idleTTLMs: number;
+  /**
+   * Function that launches a new browser process.
+   */
+  launch: () => Promise<Browser>;
+}
+
+interface BrowserPoolSlot {
+  id: number;
+  browser?: Browser;
+  launching?: Promise<Browser>;
+  activeContexts: number;
+  idleTimer?: NodeJS.Timeout;
+}
+
+interface BrowserPoolWaiter {
+  resolve: (slot: BrowserPoolSlot) => void;
+  reject: (err: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+export class BrowserPool {
+  private readonly slots: BrowserPoolSlot[];
+  private readonly waiters: BrowserPoolWaiter[] = [];
+  private isStopped = false;
+
+  constructor(private readonly options: BrowserPoolOptions) {
+    this.slots = Array.from({ length: Math.max(options.size, 1) }, (_, id) => ({ id, activeContexts: 0 }));
+  }
+
+  /**
+   * Leases a new browser context from the least loaded browser in the pool, launching a new browser if needed. If all
+   * browsers are at capacity, waits until a context slot is released or the acquire timeout expires.
+   */
+  public async acquireContext(contextOptions?: BrowserContextOptions): Promise<BrowserContextLease> {
+    if (this.isStopped) {
+      throw new Error('Browser pool is stopped.');
+    }
+
+    const slot = this.reserveSlot() ?? (await this.waitForSlot());
+    let context: BrowserContext;
+    try {
+      context = await (await this.getSlotBrowser(slot)).newContext(contextOptions);
+    } catch (err) {
+      this.releaseSlot(slot);
+      throw err;
+    }
+
+    let isReleased = false;
+    return {
+      context,
+      release: async () => {
+        if (isReleased) {
+          return;
+        }
+
+        isReleased = true;
+        try {
+          await context.close();
+        } catch (err) {
+          this.options.log.error(
+            `Failed to close browser context (browser #${slot.id}): ${Diagnostics.errorMessage(err)}`,
+          );
+        } finally {
+          this.releaseSlot(slot);
+        }
+      },
+    };
+  }
+
+  /**
+   * Stops all browsers in the pool and rejects all pending context requests.
+   */
+  public async stop() {
+    this.isStopped = true;
+
+    for (const waiter of this.waiters.splice(0)) {
+      clearTimeout(waiter.timer);
+      waiter.reject(new Error('Browser pool is stopped.'));
+    }
+
+    await Promise.all(this.slots.map((slot) => this.stopSlotBrowser(slot)));
+  }
+
+  private reserveSlot() {
+    // Prefer browsers that are already running to avoid launching new processes unless needed.
+    let bestSlot: BrowserPoolSlot | undefined;
+    for (const slot of this.slots) {
+      if (slot.activeContexts >= this.options.maxContextsPerBrowser) {
+        continue;
+      }
+
+      const isRunning = !!(slot.browser || slot.launching);
+      const isBestRunning = !!(bestSlot?.browser || bestSlot?.launching);
+      if (
+        !bestSlot ||
+        (isRunning && !isBestRunning) ||
+        (isRunning === isBestRunning && slot.activeContexts < bestSlot.activeContexts)
+      ) {
+        bestSlot = slot;
+      }
+    }
+
+    if (bestSlot) {
+      this.occupySlot(bestSlot);
+    }
+
+    return bestSlot;
+  }
+
+  private waitForSlot() {
+    this.options.log.debug(`All browsers are at capacity, waiting for a free context slot...`);
+    return new Promise<BrowserPoolSlot>((resolve, reject) => {
+      const waiter: BrowserPoolWaiter = {
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          const waiterIndex = this.waiters.indexOf(waiter);
+          if (waiterIndex >= 0) {
+            this.waiters.splice(waiterIndex, 1);
+          }
+          reject(new Error(`Timed out waiting for a free browser context (${this.options.acquireTimeoutMs}ms).`));
+        }, this.options.acquireTimeoutMs),
+      };
+      this.waiters.push(waiter);
+    });
+  }
+
+  private occupySlot(slot: BrowserPoolSlot) {
+    slot.activeContexts++;
+    if (slot.idleTimer) {
+      clearTimeout(slot.idleTimer);
+      slot.idleTimer = undefined;
+    }
+  }
+
+  private releaseSlot(slot: BrowserPoolSlot) {
+    slot.activeContexts--;
+
+    // Hand over the freed slot to the next waiter, if any.
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      clearTimeout(waiter.timer);
+      this.occupySlot(slot);
+      waiter.resolve(slot);
+      return;
+    }
+
+    if (slot.activeContexts === 0 && !this.isStopped) {
+      slot.idleTimer = setTimeout(() => {
+        slot.idleTimer = undefined;
+        this.stopSlotBrowser(slot).catch((err: Error) => {
+          this.options.log.error(`Failed to stop browser #${slot.id}: ${err?.message}`);
+        });
+      }, this.options.idleTTLMs);
+    }
+  }
+
+  private async getSlotBrowser(slot: BrowserPoolSlot) {
+    if (slot.launching) {
+      this.options.log.info(`Requested browser #${slot.id} while it is still launching, waiting...`);
+      return slot.launching;
+    }
+
+    if (slot.browser?.isConnected()) {
+      return slot.browser;
+    }
+
+    return (slot.launching = (
+      slot.browser ? this.stopSlotBrowser(slot).then(() => this.options.launch()) : this.options.launch()
+    )
+      .then(
+        (newBrowser) => {
+          slot.browser = newBrowser;
+          return newBrowser;
+        },
+        (err) => {
+          slot.browser = undefined;
+          throw err;
+        },
+      )
+      .finally(() => {
+        slot.launching = undefined;
+      }));
+  }
+
+  private async stopSlotBrowser(slot: BrowserPoolSlot) {
+    if (slot.idleTimer) {
+      clearTimeout(slot.idleTimer);
+      slot.idleTimer = undefined;
+    }
+
+    const browser = slot.browser;
+    if (!browser) {
+      return;
+    }
+
+    try {
+      this.options.log.info(`Stopping browser #${slot.id}...`);
+      slot.browser = undefined;
+      await browser.close();
+      this.options.log.info(`Successfully stopped browser #${slot.id}.`);
+    } catch (err) {
+      this.options.log.error(`Failed to stop browser #${slot.id}: ${Diagnostics.errorMessage(err)}`);
+    }
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Describes a single cache entry.
+ */
+export interface CacheEntry<T = unknown> {
+  /**
+   * Key the entry is stored under.
+   */
+  key: string;
+
+  /**
+   * Cached value.
+   */
+  value: T;
+
+  /**
+   * Time when the entry was created, in ms since epoch.
+   */
+  createdAt: number;
+
+  /**
+   * Time when the entry expires, in ms since epoch. Entries without expiration time never expire.
+   */
+  expiresAt?: number;
+
+  /**
+   * Optional metadata describing what the entry was created for.
+   */
+  metadata?: CacheEntryMetadata;
+}
+
+/**
+ * Describes a single cache entry without its value, so that entries can be listed without reading their values.
+ */
+export interface CacheEntryDescriptor extends Omit<CacheEntry, 'value'> {
+  /**
+   * Size of the serialized entry value, in bytes.
+   */
+  size: number;
+}
+
+/**
+ * Describes what a cache entry was created for.
+ */
+export interface CacheEntryMetadata {
+  /**
+   * API route that produced the entry.
+   */
+  route?: string;
+
+  /**
+   * URL of the web page the entry was created for.
+   */
+  url?: string;
+}
+
+/**
+ * Common interface for all cache backends.
+ */
+export interface Cache {
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  set<T>(key: string, value: T, metadata?: CacheEntryMetadata): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  entries(): Promise<CacheEntry[]>;
+  list(): Promise<CacheEntryDescriptor[]>;
+}
+
+/**
+ * Returns size of the serialized cache entry value, in bytes.
+ */
+export function getCacheValueSize(value: unknown) {
+  return Buffer.byteLength(JSON.stringify(value) ?? '', 'utf8');
+}
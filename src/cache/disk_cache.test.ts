@@ -0,0 +1,172 @@
+import * as assert from 'node:assert';
+import { createHash } from 'node:crypto';
+import { mkdtemp, readdir, rm, utimes, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { test } from 'node:test';
+
+import { fastify } from 'fastify';
+
+import { DiskCache } from './disk_cache.js';
+
+await test('[cache/disk] can store, retrieve and delete entries', async (t) => {
+  t.mock.method(Date, 'now', () => 123000);
+
+  const dir = await mkdtemp(join(tmpdir(), 'secutils-web-scraper-'));
+  try {
+    const cache = new DiskCache({
+      log: fastify({ logger: { level: 'warn' } }).log,
+      dir: join(dir, 'cache'),
+      ttlSec: 10,
+    });
+    assert.strictEqual(await cache.get('some-key'), undefined);
+
+    await cache.set('some-key', { content: 'some-content' });
+    assert.deepEqual(await cache.get('some-key'), {
+      key: 'some-key',
+      value: { content: 'some-content' },
+      createdAt: 123000,
+      expiresAt: 133000,
+    });
+
+    // Entries should survive cache re-creation.
+    const anotherCache = new DiskCache({
+      log: fastify({ logger: { level: 'warn' } }).log,
+      dir: join(dir, 'cache'),
+      ttlSec: 10,
+    });
+    assert.deepEqual((await anotherCache.get('some-key'))?.value, { content: 'some-content' });
+
+    assert.strictEqual(await cache.delete('some-key'), true);
+    assert.strictEqual(await cache.delete('some-key'), false);
+    assert.strictEqual(await anotherCache.get('some-key'), undefined);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+await test('[cache/disk] does not return expired entries', async (t) => {
+  const dateNowMock = t.mock.method(Date, 'now', () => 123000);
+
+  const dir = await mkdtemp(join(tmpdir(), 'secutils-web-scraper-'));
+  try {
+    const cache = new DiskCache({ log: fastify({ logger: { level: 'warn' } }).log, dir, ttlSec: 10 });
+    await cache.set('some-key', 'some-value');
+
+    dateNowMock.mock.mockImplementation(() => 133000);
+    assert.strictEqual(await cache.get('some-key'), undefined);
+    assert.strictEqual(await cache.delete('some-key'), false);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+await test('[cache/disk] deletes expired entries that are never read again', async (t) => {
+  const dateNowMock = t.mock.method(Date, 'now', () => 123000);
+
+  const dir = await mkdtemp(join(tmpdir(), 'secutils-web-scraper-'));
+  try {
+    const cache = new DiskCache({ log: fastify({ logger: { level: 'warn' } }).log, dir, ttlSec: 10 });
+    await cache.set('key-one', 'value-one');
+    await cache.set('key-two', 'value-two');
+    assert.strictEqual((await readdir(dir)).length, 4);
+
+    // Listing should delete expired entries.
+    dateNowMock.mock.mockImplementation(() => 133000);
+    assert.deepEqual(await cache.entries(), []);
+    assert.deepEqual(await readdir(dir), []);
+
+    // Expired entries should be swept in the background when new entries are stored, even if they're never listed.
+    const sweepMock = t.mock.method(cache, 'sweep', () => Promise.resolve(0));
+    await cache.set('key-one', 'value-one');
+    dateNowMock.mock.mockImplementation(() => 138000);
+    await cache.set('key-two', 'value-two');
+    assert.strictEqual(sweepMock.mock.callCount(), 1);
+    dateNowMock.mock.mockImplementation(() => 143000);
+    await cache.set('key-three', 'value-three');
+    assert.strictEqual(sweepMock.mock.callCount(), 2);
+    sweepMock.mock.restore();
+
+    // Sweep relies on the modification time of the files and never reads them.
+    const keyThreeHash = createHash('sha256').update('key-three').digest('hex');
+    for (const fileName of await readdir(dir)) {
+      const modifiedAtSec = fileName.startsWith(keyThreeHash) ? 140 : 130;
+      await utimes(join(dir, fileName), modifiedAtSec, modifiedAtSec);
+    }
+    await writeFile(join(dir, 'interrupted.json.tmp'), '');
+    await utimes(join(dir, 'interrupted.json.tmp'), 100, 100);
+    assert.strictEqual(await cache.sweep(), 5);
+    assert.deepStrictEqual(await readdir(dir), [`${keyThreeHash}.json`, `${keyThreeHash}.meta`]);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+await test('[cache/disk] lists entries without reading their values', async (t) => {
+  const dateNowMock = t.mock.method(Date, 'now', () => 123000);
+
+  const dir = await mkdtemp(join(tmpdir(), 'secutils-web-scraper-'));
+  try {
+    const log = fastify({ logger: { level: 'warn' } }).log;
+    const logErrorMock = t.mock.method(log, 'error', () => {});
+    const cache = new DiskCache({ log, dir, ttlSec: 10 });
+    assert.deepEqual(await cache.list(), []);
+
+    await cache.set('key-one', { content: 'one' }, { route: '/api/web_page/content', url: 'https://a.dev' });
+    dateNowMock.mock.mockImplementation(() => 128000);
+    await cache.set('key-two', 'two');
+
+    // Values are never read, so corrupted entry files don't affect listing.
+    for (const fileName of await readdir(dir)) {
+      if (fileName.endsWith('.json')) {
+        await writeFile(join(dir, fileName), '{');
+      }
+    }
+
+    const descriptors = await cache.list();
+    assert.deepEqual(
+      descriptors.sort((descriptorA, descriptorB) => descriptorA.createdAt - descriptorB.createdAt),
+      [
+        {
+          key: 'key-one',
+          createdAt: 123000,
+          expiresAt: 133000,
+          metadata: { route: '/api/web_page/content', url: 'https://a.dev' },
+          size: 17,
+        },
+        { key: 'key-two', createdAt: 128000, expiresAt: 138000, size: 5 },
+      ],
+    );
+    assert.strictEqual(logErrorMock.mock.callCount(), 0);
+
+    // Listing should delete expired entries.
+    dateNowMock.mock.mockImplementation(() => 133000);
+    assert.deepEqual(
+      (await cache.list()).map((descriptor) => descriptor.key),
+      ['key-two'],
+    );
+    assert.strictEqual((await readdir(dir)).length, 2);
+
+    assert.strictEqual(await cache.delete('key-two'), true);
+    assert.deepEqual(await cache.list(), []);
+    assert.deepEqual(await readdir(dir), []);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+await test('[cache/disk] logs sweep errors instead of throwing', async (t) => {
+  const dir = await mkdtemp(join(tmpdir(), 'secutils-web-scraper-'));
+  try {
+    const log = fastify({ logger: { level: 'warn' } }).log;
+    const logErrorMock = t.mock.method(log, 'error', () => {});
+    // Cache directory path points to a file, so it cannot be read.
+    await writeFile(join(dir, 'cache'), '');
+    const cache = new DiskCache({ log, dir: join(dir, 'cache'), ttlSec: 10 });
+
+    assert.strictEqual(await cache.sweep(), 0);
+    assert.strictEqual(logErrorMock.mock.callCount(), 1);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,265 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, readFile, rename, rm, stat, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import type { FastifyBaseLogger } from 'fastify';
+
+import type { Cache, CacheEntry, CacheEntryDescriptor, CacheEntryMetadata } from './cache.js';
+import { getCacheValueSize } from './cache.js';
+import { Diagnostics } from '../api/diagnostics.js';
+
+interface DiskCacheOptions {
+  log: FastifyBaseLogger;
+  /**
+   * Directory to store cache entries in.
+   */
+  dir: string;
+  /**
+   * Number of seconds entries are kept in the cache, `0` means unlimited.
+   */
+  ttlSec: number;
+}
+
+/**
+ * On-disk cache backend, every entry is stored as a separate JSON file, so entries survive process restarts. Entry
+ * descriptor is stored in a separate file next to the entry, so that entries can be listed without reading values.
+ */
+export class DiskCache implements Cache {
+  private dirIsReady: Promise<unknown> | undefined;
+  // Time of the last sweep of the expired entries, in ms since epoch.
+  private lastSweepAt = 0;
+  private sweepInProgress: Promise<number> | undefined;
+  constructor(private readonly options: DiskCacheOptions) {}
+
+  public async get<T>(key: string) {
+    const entry = await this.readFile<CacheEntry<T>>(this.entryPath(key));
+    if (entry && entry.key !== key) {
+      return;
+    }
+
+    if (entry?.expiresAt && entry.expiresAt <= Date.now()) {
+      await this.delete(key);
+      return;
+    }
+
+    return entry;
+  }
+
+  public async set<T>(key: string, value: T, metadata?: CacheEntryMetadata) {
+    await this.ensureDir();
+
+    const createdAt = Date.now();
+    const entry: CacheEntry<T> = {
+      key,
+      value,
+      createdAt,
+      expiresAt: this.options.ttlSec > 0 ? createdAt + this.options.ttlSec * 1000 : undefined,
+      metadata,
+    };
+
+    const descriptor: CacheEntryDescriptor = {
+      key,
+      createdAt,
+      expiresAt: entry.expiresAt,
+      metadata,
+      size: getCacheValueSize(value),
+    };
+
+    // Descriptor is written after the entry, so that listed entries can always be read.
+    await this.writeFile(this.entryPath(key), JSON.stringify(entry), createdAt);
+    await this.writeFile(this.descriptorPath(key), JSON.stringify(descriptor), createdAt);
+
+    // Expired entries are deleted only when they are read, sweep the ones that aren't read anymore from time to time
+    // to keep disk usage bounded by the TTL. Sweep runs in the background, so that it doesn't slow down the request.
+    if (this.options.ttlSec > 0 && createdAt - this.lastSweepAt >= this.options.ttlSec * 1000) {
+      this.lastSweepAt = createdAt;
+      void this.sweep();
+    }
+  }
+
+  /**
+   * Deletes files of the expired entries and returns the number of deleted files. Entry files are written only once,
+   * so their modification time is used to tell whether they're expired without reading them. Never throws, errors are
+   * logged instead.
+   */
+  public sweep() {
+    if (!this.sweepInProgress) {
+      this.sweepInProgress = this.sweepExpiredFiles()
+        .catch((err) => {
+          this.options.log.error(`Failed to sweep expired cache entries: ${Diagnostics.errorMessage(err)}`);
+          return 0;
+        })
+        .finally(() => {
+          this.sweepInProgress = undefined;
+        });
+    }
+
+    return this.sweepInProgress;
+  }
+
+  public async delete(key: string) {
+    const deleted = await this.deleteEntryFile(this.entryPath(key));
+    await this.deleteEntryFile(this.descriptorPath(key));
+    return deleted;
+  }
+
+  /**
+   * Returns all entries that haven't expired yet, expired entries are deleted.
+   */
+  public async entries() {
+    let fileNames: string[];
+    try {
+      fileNames = await readdir(this.options.dir);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw err;
+      }
+      return [];
+    }
+
+    const now = Date.now();
+    const entries: CacheEntry[] = [];
+    for (const fileName of fileNames) {
+      if (!fileName.endsWith('.json')) {
+        continue;
+      }
+
+      const entry = await this.readFile<CacheEntry>(join(this.options.dir, fileName));
+      if (entry?.expiresAt && entry.expiresAt <= now) {
+        await this.delete(entry.key);
+      } else if (entry) {
+        entries.push(entry);
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Returns descriptors of all entries that haven't expired yet, expired entries are deleted. Only descriptor files are
+   * read, entry values are never loaded.
+   */
+  public async list() {
+    let fileNames: string[];
+    try {
+      fileNames = await readdir(this.options.dir);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw err;
+      }
+      return [];
+    }
+
+    const now = Date.now();
+    const descriptors: CacheEntryDescriptor[] = [];
+    for (const fileName of fileNames) {
+      if (!fileName.endsWith('.meta')) {
+        continue;
+      }
+
+      const descriptor = await this.readFile<CacheEntryDescriptor>(join(this.options.dir, fileName));
+      if (descriptor?.expiresAt && descriptor.expiresAt <= now) {
+        await this.delete(descriptor.key);
+      } else if (descriptor) {
+        descriptors.push(descriptor);
+      }
+    }
+
+    return descriptors;
+  }
+
+  private async sweepExpiredFiles() {
+    let fileNames: string[];
+    try {
+      fileNames = await readdir(this.options.dir);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw err;
+      }
+      return 0;
+    }
+
+    // Temporary files of the interrupted writes are swept as well.
+    const expiredBefore = Date.now() - this.options.ttlSec * 1000;
+    let deletedFiles = 0;
+    for (const fileName of fileNames) {
+      const filePath = join(this.options.dir, fileName);
+      try {
+        if ((await stat(filePath)).mtimeMs <= expiredBefore && (await this.deleteEntryFile(filePath))) {
+          deletedFiles++;
+        }
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw err;
+        }
+      }
+    }
+
+    if (deletedFiles > 0) {
+      this.options.log.debug(`Swept ${deletedFiles} expired cache entries.`);
+    }
+
+    return deletedFiles;
+  }
+
+  private async readFile<T>(entryPath: string) {
+    let rawEntry: string;
+    try {
+      rawEntry = await readFile(entryPath, 'utf8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.options.log.error(`Failed to read cache entry "${entryPath}": ${Diagnostics.errorMessage(err)}`);
+      }
+      return;
+    }
+
+    try {
+      return JSON.parse(rawEntry) as T;
+    } catch (err) {
+      this.options.log.error(`Cache entry "${entryPath}" is corrupted, ignoring: ${Diagnostics.errorMessage(err)}`);
+    }
+  }
+
+  private async writeFile(entryPath: string, content: string, createdAt: number) {
+    // Write to a temporary file first to never leave partially written files behind.
+    const tempEntryPath = `${entryPath}.${process.pid}.${createdAt}.tmp`;
+    await writeFile(tempEntryPath, content);
+    await rename(tempEntryPath, entryPath);
+  }
+
+  private async deleteEntryFile(entryPath: string) {
+    try {
+      await rm(entryPath);
+      return true;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw err;
+      }
+      return false;
+    }
+  }
+
+  private entryPath(key: string) {
+    return `${this.entryBasePath(key)}.json`;
+  }
+
+  private descriptorPath(key: string) {
+    return `${this.entryBasePath(key)}.meta`;
+  }
+
+  private entryBasePath(key: string) {
+    // Keys can contain characters that aren't safe to use in file names.
+    return join(this.options.dir, createHash('sha256').update(key).digest('hex'));
+  }
+
+  private ensureDir() {
+    if (!this.dirIsReady) {
+      this.dirIsReady = mkdir(this.options.dir, { recursive: true }).catch((err) => {
+        this.dirIsReady = undefined;
+        throw err;
+      });
+    }
+
+    return this.dirIsReady;
+  }
+}
@@ -0,0 +1,21 @@
+import type { FastifyBaseLogger } from 'fastify';
+
+import type { Cache } from './cache.js';
+import { DiskCache } from './disk_cache.js';
+import { MemoryCache } from './memory_cache.js';
+import type { Config } from '../config.js';
+
+export type { Cache, CacheEntry, CacheEntryDescriptor, CacheEntryMetadata } from './cache.js';
+export { getCacheValueSize } from './cache.js';
+export { DiskCache } from './disk_cache.js';
+export { MemoryCache } from './memory_cache.js';
+
+export function createCache(config: Config, log: FastifyBaseLogger): Cache {
+  if (config.cacheBackend === 'disk') {
+    log.info(`Using on-disk cache (directory: ${config.cacheDir}, TTL: ${config.cacheTTLSec}s).`);
+    return new DiskCache({ log, dir: config.cacheDir, ttlSec: config.cacheTTLSec });
+  }
+
+  log.info(`Using in-memory cache (TTL: ${config.cacheTTLSec}s).`);
+  return new MemoryCache({ ttlSec: config.cacheTTLSec });
+}
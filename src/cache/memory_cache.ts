@@ -0,0 +1,74 @@
+import NodeCache from 'node-cache';
+
+import type { Cache, CacheEntry, CacheEntryDescriptor, CacheEntryMetadata } from './cache.js';
+import { getCacheValueSize } from './cache.js';
+
+interface MemoryCacheOptions {
+  /**
+   * Number of seconds entries are kept in the cache, `0` means unlimited.
+   */
+  ttlSec: number;
+}
+
+/**
+ * Entry is stored together with the size of its value, so that it's not computed every time entries are listed.
+ */
+interface MemoryCacheItem<T = unknown> {
+  entry: CacheEntry<T>;
+  size: number;
+}
+
+/**
+ * In-memory cache backend, entries are lost when the process exits.
+ */
+export class MemoryCache implements Cache {
+  private readonly cache: NodeCache;
+  constructor(private readonly options: MemoryCacheOptions) {
+    this.cache = new NodeCache({ stdTTL: options.ttlSec });
+  }
+
+  public get<T>(key: string) {
+    return Promise.resolve(this.cache.get<MemoryCacheItem<T>>(key)?.entry);
+  }
+
+  public set<T>(key: string, value: T, metadata?: CacheEntryMetadata) {
+    const createdAt = Date.now();
+    this.cache.set<MemoryCacheItem<T>>(key, {
+      entry: {
+        key,
+        value,
+        createdAt,
+        expiresAt: this.options.ttlSec > 0 ? createdAt + this.options.ttlSec * 1000 : undefined,
+        metadata,
+      },
+      size: getCacheValueSize(value),
+    });
+    return Promise.resolve();
+  }
+
+  public delete(key: string) {
+    return Promise.resolve(this.cache.del(key) > 0);
+  }
+
+  public entries() {
+    return Promise.resolve(this.items().map(({ entry }) => entry));
+  }
+
+  public list() {
+    return Promise.resolve(
+      this.items().map(
+        ({ entry: { key, createdAt, expiresAt, metadata }, size }): CacheEntryDescriptor => ({
+          key,
+          createdAt,
+          expiresAt,
+          metadata,
+          size,
+        }),
+      ),
+    );
+  }
+
+  private items() {
+    return Object.values(this.cache.mget<MemoryCacheItem>(this.cache.keys()));
+  }
+}
@@ -1,13 +1,37 @@
+import { join } from 'node:path';
+
 import * as dotenv from 'dotenv';
 
 import pkg from '../package.json' assert { type: 'json' };
 
+/**
+ * Describes outbound proxy the browser should route requests through.
+ */
+export interface ProxyConfig {
+  /**
+   * Proxy server URL, e.g. `http://proxy:3128` or `socks5://proxy:1080`.
+   */
+  server: string;
+  /**
+   * Comma-separated list of domains that shouldn't be proxied, e.g. `.secutils.dev, localhost`.
+   */
+  bypass?: string;
+  username?: string;
+  password?: string;
+}
+
 export interface Config {
   version: string;
   port: number;
   cacheTTLSec: number;
+  cacheBackend: 'memory' | 'disk';
+  cacheDir: string;
   browserTTLSec: number;
+  browserPoolSize: number;
+  browserMaxContexts: number;
+  browserAcquireTimeoutSec: number;
   userAgent?: string;
+  proxy?: ProxyConfig;
 }
 
 export function configure(): Config {
@@ -17,7 +41,20 @@ export function configure(): Config {
     version: pkg.version,
     port: +(process.env.SECUTILS_WEB_SCRAPER_PORT ?? 0) || 7272,
     cacheTTLSec: +(process.env.SECUTILS_WEB_SCRAPER_CACHE_TTL_SEC ?? 0) || 20 * 60,
+    cacheBackend: process.env.SECUTILS_WEB_SCRAPER_CACHE_BACKEND === 'disk' ? 'disk' : 'memory',
+    cacheDir: process.env.SECUTILS_WEB_SCRAPER_CACHE_DIR || join(process.cwd(), '.cache'),
     browserTTLSec: +(process.env.SECUTILS_WEB_SCRAPER_BROWSER_TTL_SEC ?? 0) || 10 * 60,
+    browserPoolSize: +(process.env.SECUTILS_WEB_SCRAPER_BROWSER_POOL_SIZE ?? 0) || 1,
+    browserMaxContexts: +(process.env.SECUTILS_WEB_SCRAPER_BROWSER_MAX_CONTEXTS ?? 0) || 5,
+    browserAcquireTimeoutSec: +(process.env.SECUTILS_WEB_SCRAPER_BROWSER_ACQUIRE_TIMEOUT_SEC ?? 0) || 30,
     userAgent: process.env.SECUTILS_WEB_SCRAPER_USER_AGENT,
+    proxy: process.env.SECUTILS_WEB_SCRAPER_PROXY_SERVER
+      ? {
+          server: process.env.SECUTILS_WEB_SCRAPER_PROXY_SERVER,
+          bypass: process.env.SECUTILS_WEB_SCRAPER_PROXY_BYPASS || undefined,
+          username: process.env.SECUTILS_WEB_SCRAPER_PROXY_USERNAME || undefined,
+          password: process.env.SECUTILS_WEB_SCRAPER_PROXY_PASSWORD || undefined,
+        }
+      : undefined,
   };
 }
@@ -3,20 +3,16 @@ import * as process from 'process';
 import { fastifyCompress } from '@fastify/compress';
 import type { FastifyInstance } from 'fastify';
 import { fastify } from 'fastify';
-import NodeCache from 'node-cache';
-import type { Browser } from 'playwright';
 import { chromium } from 'playwright';
 
 import { Diagnostics } from './api/diagnostics.js';
 import { registerRoutes } from './api/index.js';
+import { BrowserPool } from './browser_pool.js';
+import { createCache } from './cache/index.js';
 import { configure } from './config.js';
 
 const config = configure();
 
-let browser: Browser | undefined;
-let browserShutdownTimer: NodeJS.Timeout | undefined;
-// Cache with 20 minutes TTL.
-const cache = new NodeCache({ stdTTL: config.cacheTTLSec });
 const server = fastify({
   logger:
     process.env.NODE_ENV === 'production'
@@ -25,9 +21,19 @@ const server = fastify({
           level: process.env.SECUTILS_WEB_SCRAPER_LOG_LEVEL ?? 'debug',
           transport: { target: 'pino-pretty', options: { translateTime: 'HH:MM:ss Z', ignore: 'pid,hostname' } },
         },
-})
-  .register(fastifyCompress)
-  .addHook('onClose', (instance) => stopBrowser(instance));
+}).register(fastifyCompress);
+
+const browserPool = new BrowserPool({
+  log: server.log,
+  size: config.browserPoolSize,
+  maxContextsPerBrowser: config.browserMaxContexts,
+  acquireTimeoutMs: config.browserAcquireTimeoutSec * 1000,
+  idleTTLMs: config.browserTTLSec * 1000,
+  launch: () => runBrowser(server),
+});
+server.addHook('onClose', () => browserPool.stop());
+
+const cache = createCache(config, server.log);
 
 async function runBrowser(serverInstance: FastifyInstance) {
   const headless = true;
@@ -50,66 +56,11 @@ async function runBrowser(serverInstance: FastifyInstance) {
   }
 }
 
-async function stopBrowser(serverInstance: FastifyInstance) {
-  if (!browser) {
-    return;
-  }
-
-  try {
-    serverInstance.log.info('Stopping browser...');
-    await browser.close();
-    browser = undefined;
-    serverInstance.log.info('Successfully stopped browser.');
-  } catch (err) {
-    serverInstance.log.error(`Failed to stop browser: ${Diagnostics.errorMessage(err)}`);
-  }
-}
-
-let browserIsLaunching: Promise<Browser> | undefined;
 registerRoutes({
   server,
   cache,
   config,
-  acquireBrowser: async () => {
-    if (browserIsLaunching) {
-      server.log.info('Requested browser while it is still launching, waiting...');
-      return browserIsLaunching;
-    }
-
-    if (browserShutdownTimer) {
-      clearTimeout(browserShutdownTimer);
-      browserShutdownTimer = undefined;
-    }
-
-    if (browser?.isConnected()) {
-      browserShutdownTimer = setTimeout(() => {
-        stopBrowser(server).catch((err: Error) => {
-          server.log.error(`Failed to stop browser: ${err?.message}`);
-        });
-      }, config.browserTTLSec * 1000);
-      return browser;
-    }
-
-    return (browserIsLaunching = (browser ? stopBrowser(server).then(() => runBrowser(server)) : runBrowser(server))
-      .then(
-        (newBrowser) => {
-          browser = newBrowser;
-          browserShutdownTimer = setTimeout(() => {
-            stopBrowser(server).catch((err: Error) => {
-              server.log.error(`Failed to stop browser: ${err?.message}`);
-            });
-          }, config.browserTTLSec * 1000);
-          return newBrowser;
-        },
-        (err) => {
-          browser = undefined;
-          throw err;
-        },
-      )
-      .finally(() => {
-        browserIsLaunching = undefined;
-      }));
-  },
+  acquireBrowserContext: (contextOptions) => browserPool.acquireContext(contextOptions),
 });
 
 server.listen({ port: config.port, host: '0.0.0.0' }, (err, address) => {
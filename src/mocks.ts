@@ -1,14 +1,20 @@
 import { mock } from 'node:test';
 
 import type { Protocol } from 'playwright-core/types/protocol.js';
+import { PNG } from 'pngjs';
 
 import type { SecutilsWindow } from './api/web_page/index.js';
 
 export function createBrowserMock(browserContextMock?: BrowserContextMock) {
-  return {
+  const browserMock = {
     isConnected: mock.fn(() => false),
-    newContext: mock.fn(() => Promise.resolve(browserContextMock ?? createBrowserContextMock())),
+    newContext: mock.fn(() => {
+      const contextMock = browserContextMock ?? createBrowserContextMock();
+      contextMock.browser.mock.mockImplementation(() => browserMock);
+      return Promise.resolve(contextMock);
+    }),
   };
+  return browserMock;
 }
 
 export type BrowserContextMock = ReturnType<typeof createBrowserContextMock>;
@@ -19,6 +25,11 @@ export function createBrowserContextMock(
   return {
     newCDPSession: mock.fn(() => Promise.resolve(cdpSessionMock ?? createCDPSessionMock())),
     newPage: mock.fn(() => Promise.resolve(pageMock ?? createPageMock())),
+    browser: mock.fn((): unknown => null),
+    pages: mock.fn(() => []),
+    cookies: mock.fn((): Promise<unknown[]> => Promise.resolve([])),
+    addCookies: mock.fn((): Promise<void> => Promise.resolve()),
+    storageState: mock.fn((): Promise<unknown> => Promise.resolve({ cookies: [], origins: [] })),
     close: mock.fn(),
   };
 }
@@ -26,7 +37,9 @@ export function createBrowserContextMock(
 export interface CDPResourceMock {
   url: string;
   resourceType: Protocol.Network.ResourceType;
-  body: string;
+  body: string | Buffer;
+  requestHeaders?: Record<string, string>;
+  responseHeaders?: Protocol.Fetch.HeaderEntry[];
 }
 
 export function createCDPSessionMock(resources: CDPResourceMock[] = []) {
@@ -52,7 +65,9 @@ export function createCDPSessionMock(resources: CDPResourceMock[] = []) {
           await requestPausedHandler({
             requestId: (index++).toString(),
             responseStatusCode: 200,
-            request: { url: resource.url, resourceType: resource.resourceType },
+            responseHeaders: resource.responseHeaders,
+            resourceType: resource.resourceType,
+            request: { url: resource.url, headers: resource.requestHeaders ?? {} },
           });
         }
       }
@@ -62,31 +77,143 @@ export function createCDPSessionMock(resources: CDPResourceMock[] = []) {
   };
 }
 
+export interface FrameMock {
+  url: () => string;
+  parentFrame: () => FrameMock | null;
+  childFrames: () => FrameMock[];
+  evaluateHandle: () => unknown;
+  evaluate: (fn: (args: unknown) => Promise<unknown>, args: unknown) => Promise<unknown>;
+}
+
+interface FrameMockOptions {
+  url?: string;
+  window?: WindowMock;
+  childFrames?: FrameMock[];
+}
+export function createFrameMock({
+  url = 'https://secutils.dev/',
+  window = createWindowMock(),
+  childFrames = [],
+}: FrameMockOptions = {}) {
+  const frame: FrameMock = {
+    url: () => url,
+    parentFrame: () => null,
+    childFrames: () => childFrames,
+    evaluateHandle: () => window,
+    evaluate: (fn, args) => fn(args),
+  };
+  for (const childFrame of childFrames) {
+    childFrame.parentFrame = () => frame;
+  }
+  return frame;
+}
+
+function flattenFrames(frame: FrameMock): FrameMock[] {
+  return [frame, ...frame.childFrames().flatMap(flattenFrames)];
+}
+
 interface PageMockOptions {
   window?: WindowMock;
+  childFrames?: FrameMock[];
   responses?: Array<ResponseMock>;
   content?: string;
+  screenshot?: Buffer;
+  pdf?: Buffer;
 }
-export function createPageMock({ window = createWindowMock(), responses = [], content = '' }: PageMockOptions = {}) {
-  return {
-    on: mock.fn((eventName: string, handler: (response: ResponseMock) => void) => {
-      if (eventName === 'response') {
+export function createPageMock({
+  window = createWindowMock(),
+  childFrames = [],
+  responses = [],
+  content = '',
+  screenshot = createImageMock(),
+  pdf = Buffer.from('%PDF-1.4'),
+}: PageMockOptions = {}) {
+  // Page and its responses reject any calls after the page is closed, the same way the browser does.
+  let isClosed = false;
+  const whenOpen =
+    <TArgs extends unknown[], TResult>(fn: (...args: TArgs) => TResult) =>
+    (...args: TArgs) =>
+      isClosed ? Promise.reject(new Error(TARGET_CLOSED_ERROR)) : fn(...args);
+
+  const pageMock = {
+    on: mock.fn((eventName: string, handler: (event: unknown) => void) => {
+      if (eventName === 'response' || eventName === 'request') {
         for (const response of responses) {
-          handler(response);
+          handler(eventName === 'response' ? response : response.request());
         }
       }
     }),
-    close: mock.fn(),
-    goto: mock.fn(() => Promise.resolve(createResponseMock({ url: 'https://secutils.dev', type: 'document' }))),
-    content: mock.fn(() => Promise.resolve(content)),
+    mainFrame: mock.fn(() => null),
+    frames: mock.fn(() => flattenFrames(createFrameMock({ window, childFrames }))),
+    url: mock.fn(() => 'https://secutils.dev/'),
+    close: mock.fn(async () => {
+      isClosed = true;
+      const navigationResponses = await Promise.all(pageMock.goto.mock.calls.map(({ result }) => result));
+      for (const response of [...responses, ...navigationResponses]) {
+        if (response) {
+          closeResponseMock(response);
+        }
+      }
+    }),
+    goto: mock.fn((): Promise<ResponseMock | null> => {
+      // The same mock can be used by several consequent requests, each of them navigates to the page first.
+      isClosed = false;
+      return Promise.resolve(createResponseMock({ url: 'https://secutils.dev', type: 'document' }));
+    }),
+    content: mock.fn(whenOpen(() => Promise.resolve(content))),
     addInitScript: mock.fn(),
+    exposeBinding: mock.fn(),
     waitForSelector: mock.fn(),
     route: mock.fn(),
-    evaluateHandle: mock.fn(() => window),
-    evaluate: mock.fn((fn: (args: unknown) => Promise<unknown>, args: unknown) => fn(args)),
+    evaluateHandle: mock.fn(whenOpen(() => window)),
+    evaluate: mock.fn(whenOpen((fn: (args: unknown) => Promise<unknown>, args: unknown) => fn(args))),
+    screenshot: mock.fn(whenOpen(() => Promise.resolve(screenshot))),
+    locator: mock.fn((selector: string) => createLocatorMock(selector, screenshot)),
+    keyboard: { press: mock.fn() },
+    waitForURL: mock.fn(),
+    waitForFunction: mock.fn(),
+    pdf: mock.fn(whenOpen(() => Promise.resolve(pdf))),
+  };
+  return pageMock;
+}
+
+export type LocatorMock = ReturnType<typeof createLocatorMock>;
+export function createLocatorMock(selector: string, screenshot = createImageMock()) {
+  return {
+    selector,
+    screenshot: mock.fn(() => Promise.resolve(screenshot)),
+    click: mock.fn((): Promise<void> => Promise.resolve()),
+    fill: mock.fn(),
+    selectOption: mock.fn(),
+    press: mock.fn(),
+    hover: mock.fn(),
+    scrollIntoViewIfNeeded: mock.fn(),
+    waitFor: mock.fn(),
   };
 }
 
+/**
+ * Creates PNG image with the specified size, pixels are filled with the `fill` function (white by default).
+ */
+export function createImageMock(
+  width = 1,
+  height = 1,
+  fill: (x: number, y: number) => [number, number, number] = () => [255, 255, 255],
+) {
+  const png = new PNG({ width, height });
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      const [r, g, b] = fill(x, y);
+      png.data[offset] = r;
+      png.data[offset + 1] = g;
+      png.data[offset + 2] = b;
+      png.data[offset + 3] = 255;
+    }
+  }
+  return PNG.sync.write(png);
+}
+
 export type WindowMock = ReturnType<typeof createWindowMock>;
 export function createWindowMock(
   { __secutils }: Pick<SecutilsWindow, '__secutils'> = {},
@@ -103,20 +230,24 @@ export function createWindowMock(
 
 export interface ResponseMockOptions {
   url: string;
-  type: 'script' | 'stylesheet' | 'document';
+  type: 'script' | 'stylesheet' | 'document' | 'image';
   body?: unknown;
+  headers?: Record<string, string>;
+  frame?: FrameMock;
 }
 
 export type ResponseMock = ReturnType<typeof createResponseMock>;
-export function createResponseMock({ url, body, type }: ResponseMockOptions) {
+export function createResponseMock({ url, body, type, headers = {}, frame }: ResponseMockOptions) {
   return {
     url: () => url,
     request: () => ({
+      url: () => url,
+      frame: () => frame ?? null,
       resourceType: () => type,
       isNavigationRequest: () => false,
       method: () => 'GET',
     }),
-    body: () => {
+    body: mock.fn(() => {
       return Promise.resolve(
         Buffer.isBuffer(body)
           ? body
@@ -124,7 +255,17 @@ export function createResponseMock({ url, body, type }: ResponseMockOptions) {
             ? Buffer.from(typeof body === 'string' ? body : JSON.stringify(body))
             : body,
       );
-    },
-    allHeaders: mock.fn(() => Promise.resolve({})),
+    }),
+    headerValue: mock.fn((name: string) => Promise.resolve(headers[name.toLowerCase()] ?? null)),
+    allHeaders: mock.fn(() => Promise.resolve(headers)),
+    securityDetails: mock.fn((): Promise<unknown> => Promise.resolve(null)),
   };
 }
+
+function closeResponseMock(response: ResponseMock) {
+  for (const method of [response.body, response.headerValue, response.allHeaders, response.securityDetails]) {
+    method.mock.mockImplementation(() => Promise.reject(new Error(TARGET_CLOSED_ERROR)));
+  }
+}
+
+const TARGET_CLOSED_ERROR = 'Target page, context or browser has been closed';
@@ -1,3 +1,13 @@
 import './api/web_page/content/get.test.js';
 import './api/web_page/resources/list.test.js';
 import './api/status/get.test.js';
+import './browser_pool.test.js';
+import './cache/disk_cache.test.js';
+import './api/cache/list.test.js';
+import './api/cache/get.test.js';
+import './api/cache/purge.test.js';
+import './api/tlsh/diff.test.js';
+import './api/web_page/screenshot/get.test.js';
+import './api/web_page/pdf/get.test.js';
+import './api/web_page/har/get.test.js';
+import './api/web_page/session/create.test.js';
@@ -0,0 +1,75 @@
+import jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+
+export type ImageFormat = 'png' | 'jpeg';
+
+/**
+ * Decoded image with RGBA pixel data (4 bytes per pixel, row by row).
+ */
+export interface DecodedImage {
+  width: number;
+  height: number;
+  data: Buffer;
+}
+
+export function decodeImage(image: Buffer): DecodedImage {
+  if (image.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    const { width, height, data } = PNG.sync.read(image);
+    return { width, height, data };
+  }
+
+  if (image[0] === 0xff && image[1] === 0xd8) {
+    const { width, height, data } = jpeg.decode(image, { useTArray: false, formatAsRGBA: true });
+    return { width, height, data };
+  }
+
+  throw new Error('Unsupported image format, only PNG and JPEG images are supported.');
+}
+
+/**
+ * Reads image dimensions from the PNG or JPEG header without decoding the image, which allows rejecting images that
+ * would take too much memory to decode.
+ */
+export function readImageSize(image: Buffer): { width: number; height: number } {
+  if (image.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    // The first chunk of the PNG image is always `IHDR`, which starts with the image width and height.
+    if (image.length < 24 || image.toString('latin1', 12, 16) !== 'IHDR') {
+      throw new Error('PNG image header is not valid.');
+    }
+    return { width: image.readUInt32BE(16), height: image.readUInt32BE(20) };
+  }
+
+  if (image[0] === 0xff && image[1] === 0xd8) {
+    // Image dimensions are defined in the "start of frame" segment that follows other segments with known lengths.
+    let offset = 2;
+    while (offset + 9 <= image.length) {
+      if (image[offset] !== 0xff) {
+        break;
+      }
+
+      const marker = image[offset + 1];
+      if (marker === 0xff) {
+        offset++;
+        continue;
+      }
+
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: image.readUInt16BE(offset + 7), height: image.readUInt16BE(offset + 5) };
+      }
+
+      offset += 2 + image.readUInt16BE(offset + 2);
+    }
+
+    throw new Error('JPEG image header is not valid.');
+  }
+
+  throw new Error('Unsupported image format, only PNG and JPEG images are supported.');
+}
+
+export function encodePng({ width, height, data }: DecodedImage) {
+  const png = new PNG({ width, height });
+  data.copy(png.data);
+  return PNG.sync.write(png);
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
@@ -0,0 +1,192 @@
+import type { DecodedImage } from './image.js';
+
+// Size of the square cells changed pixels are grouped into to detect changed regions.
+const REGION_CELL_SIZE = 8;
+// Maximum number of changed regions to report, the largest regions are reported first.
+const MAX_REGIONS = 50;
+
+/**
+ * Describes rectangular image region, in pixels.
+ */
+export interface ImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageDiff {
+  /**
+   * Number of pixels that differ between images.
+   */
+  changedPixels: number;
+
+  /**
+   * Ratio of the changed pixels to all pixels, between 0 and 1.
+   */
+  changedRatio: number;
+
+  /**
+   * Bounding boxes of the changed regions.
+   */
+  regions: ImageRegion[];
+
+  /**
+   * Current image with changed pixels highlighted, if requested.
+   */
+  diffImage?: DecodedImage;
+}
+
+interface ImageDiffOptions {
+  /**
+   * Maximum per-channel color difference at which pixels are still considered the same, between 0 and 1.
+   */
+  threshold: number;
+
+  /**
+   * Whether to render an image with the changed pixels highlighted.
+   */
+  includeDiffImage: boolean;
+}
+
+/**
+ * Compares images pixel by pixel. Images of different size are compared within the largest bounds, and pixels that
+ * only exist in one of the images are considered changed.
+ */
+export function diffImages(previous: DecodedImage, current: DecodedImage, options: ImageDiffOptions): ImageDiff {
+  const width = Math.max(previous.width, current.width);
+  const height = Math.max(previous.height, current.height);
+  const maxChannelDiff = Math.round(options.threshold * 255);
+
+  const columns = Math.ceil(width / REGION_CELL_SIZE);
+  const rows = Math.ceil(height / REGION_CELL_SIZE);
+  // For every cell keep the bounding box of the changed pixels within it: [minX, minY, maxX, maxY].
+  const cells = new Array<[number, number, number, number] | undefined>(columns * rows);
+
+  const diffImage = options.includeDiffImage ? { width, height, data: Buffer.alloc(width * height * 4) } : undefined;
+
+  let changedPixels = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const previousOffset = getPixelOffset(previous, x, y);
+      const currentOffset = getPixelOffset(current, x, y);
+      const isChanged =
+        previousOffset < 0 ||
+        currentOffset < 0 ||
+        isPixelChanged(previous.data, previousOffset, current.data, currentOffset, maxChannelDiff);
+
+      if (diffImage) {
+        const offset = (y * width + x) * 4;
+        if (isChanged) {
+          diffImage.data[offset] = 255;
+        } else {
+          // Render unchanged pixels as a faded grayscale copy of the current image to make changes stand out.
+          const r = current.data[currentOffset];
+          const g = current.data[currentOffset + 1];
+          const b = current.data[currentOffset + 2];
+          const luminance = Math.round(255 - (255 - (0.299 * r + 0.587 * g + 0.114 * b)) * 0.3);
+          diffImage.data[offset] = luminance;
+          diffImage.data[offset + 1] = luminance;
+          diffImage.data[offset + 2] = luminance;
+        }
+        diffImage.data[offset + 3] = 255;
+      }
+
+      if (isChanged) {
+        changedPixels++;
+
+        const cellIndex = Math.floor(y / REGION_CELL_SIZE) * columns + Math.floor(x / REGION_CELL_SIZE);
+        const cell = cells[cellIndex];
+        if (cell) {
+          cell[0] = Math.min(cell[0], x);
+          cell[1] = Math.min(cell[1], y);
+          cell[2] = Math.max(cell[2], x);
+          cell[3] = Math.max(cell[3], y);
+        } else {
+          cells[cellIndex] = [x, y, x, y];
+        }
+      }
+    }
+  }
+
+  return {
+    changedPixels,
+    changedRatio: width * height > 0 ? changedPixels / (width * height) : 0,
+    regions: findChangedRegions(cells, columns, rows),
+    diffImage,
+  };
+}
+
+/**
+ * Returns offset of the pixel RGBA data, or `-1` if the pixel is outside of the image.
+ */
+function getPixelOffset({ width, height }: DecodedImage, x: number, y: number) {
+  return x < width && y < height ? (y * width + x) * 4 : -1;
+}
+
+function isPixelChanged(
+  previousData: Buffer,
+  previousOffset: number,
+  currentData: Buffer,
+  currentOffset: number,
+  maxChannelDiff: number,
+) {
+  for (let channel = 0; channel < 4; channel++) {
+    if (Math.abs(previousData[previousOffset + channel] - currentData[currentOffset + channel]) > maxChannelDiff) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+function findChangedRegions(
+  cells: Array<[number, number, number, number] | undefined>,
+  columns: number,
+  rows: number,
+): ImageRegion[] {
+  // Adjacent (including diagonally) changed cells form a single region.
+  const visited = new Uint8Array(cells.length);
+  const regions: ImageRegion[] = [];
+  for (let index = 0; index < cells.length; index++) {
+    if (!cells[index] || visited[index]) {
+      continue;
+    }
+
+    let [minX, minY, maxX, maxY] = cells[index]!;
+    const stack = [index];
+    visited[index] = 1;
+    while (stack.length > 0) {
+      const cellIndex = stack.pop()!;
+      const cell = cells[cellIndex]!;
+      minX = Math.min(minX, cell[0]);
+      minY = Math.min(minY, cell[1]);
+      maxX = Math.max(maxX, cell[2]);
+      maxY = Math.max(maxY, cell[3]);
+
+      const column = cellIndex % columns;
+      const row = Math.floor(cellIndex / columns);
+      for (let rowOffset = -1; rowOffset <= 1; rowOffset++) {
+        for (let columnOffset = -1; columnOffset <= 1; columnOffset++) {
+          const neighborRow = row + rowOffset;
+          const neighborColumn = column + columnOffset;
+          if (neighborRow < 0 || neighborRow >= rows || neighborColumn < 0 || neighborColumn >= columns) {
+            continue;
+          }
+
+          const neighborIndex = neighborRow * columns + neighborColumn;
+          if (cells[neighborIndex] && !visited[neighborIndex]) {
+            visited[neighborIndex] = 1;
+            stack.push(neighborIndex);
+          }
+        }
+      }
+    }
+
+    regions.push({ x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 });
+  }
+
+  return regions
+    .sort((regionA, regionB) => regionB.width * regionB.height - regionA.width * regionA.height)
+    .slice(0, MAX_REGIONS);
+}
@@ -1,2 +1,8 @@
 export { Tlsh } from './tlsh.js';
 export { createObjectHash } from './object_hash.js';
+export { SingleFlight } from './single_flight.js';
+export type { DecodedImage, ImageFormat } from './image.js';
+export { decodeImage, encodePng, readImageSize } from './image.js';
+export type { ImageDiff, ImageRegion } from './image_diff.js';
+export { diffImages } from './image_diff.js';
+export { createPerceptualHash, perceptualHashDistance } from './perceptual_hash.js';
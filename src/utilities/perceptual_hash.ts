@@ -0,0 +1,99 @@
+import type { DecodedImage } from './image.js';
+
+// Size of the downscaled image the DCT is calculated for.
+const SAMPLE_SIZE = 32;
+// Size of the low-frequency DCT block that forms the hash (8x8 = 64 bits).
+const HASH_SIZE = 8;
+
+/**
+ * Calculates 64-bit DCT-based perceptual hash (pHash) of the image as a 16 characters long hex string. Visually similar
+ * images produce hashes with a small Hamming distance, even if their pixels differ slightly.
+ */
+export function createPerceptualHash(image: DecodedImage) {
+  if (image.width === 0 || image.height === 0) {
+    throw new Error('Cannot calculate perceptual hash for an empty image.');
+  }
+
+  const pixels = toGrayscaleSample(image);
+
+  // Only low frequencies are needed, so there is no point in calculating the full DCT.
+  const coefficients: number[] = [];
+  for (let u = 0; u < HASH_SIZE; u++) {
+    for (let v = 0; v < HASH_SIZE; v++) {
+      let sum = 0;
+      for (let y = 0; y < SAMPLE_SIZE; y++) {
+        for (let x = 0; x < SAMPLE_SIZE; x++) {
+          sum +=
+            pixels[y * SAMPLE_SIZE + x] *
+            Math.cos(((2 * x + 1) * v * Math.PI) / (2 * SAMPLE_SIZE)) *
+            Math.cos(((2 * y + 1) * u * Math.PI) / (2 * SAMPLE_SIZE));
+        }
+      }
+      coefficients.push(sum);
+    }
+  }
+
+  // DC coefficient describes the average brightness only and would skew the median.
+  const sortedCoefficients = coefficients.slice(1).sort((a, b) => a - b);
+  const median =
+    (sortedCoefficients[Math.floor((sortedCoefficients.length - 1) / 2)] +
+      sortedCoefficients[Math.ceil((sortedCoefficients.length - 1) / 2)]) /
+    2;
+
+  let hash = '';
+  for (let i = 0; i < coefficients.length; i += 4) {
+    let nibble = 0;
+    for (let j = 0; j < 4; j++) {
+      nibble = (nibble << 1) | (coefficients[i + j] > median ? 1 : 0);
+    }
+    hash += nibble.toString(16);
+  }
+
+  return hash;
+}
+
+/**
+ * Calculates the Hamming distance between two perceptual hashes, `0` means that images are visually identical.
+ */
+export function perceptualHashDistance(left: string, right: string) {
+  if (!/^[0-9a-f]{16}$/i.test(left) || !/^[0-9a-f]{16}$/i.test(right)) {
+    throw new Error('Perceptual hash should be a 16 characters long hex string.');
+  }
+
+  let distance = 0;
+  for (let i = 0; i < left.length; i++) {
+    let bits = parseInt(left[i], 16) ^ parseInt(right[i], 16);
+    while (bits) {
+      distance += bits & 1;
+      bits >>= 1;
+    }
+  }
+
+  return distance;
+}
+
+function toGrayscaleSample({ width, height, data }: DecodedImage) {
+  const sample = new Float64Array(SAMPLE_SIZE * SAMPLE_SIZE);
+  for (let sampleY = 0; sampleY < SAMPLE_SIZE; sampleY++) {
+    const y0 = Math.floor((sampleY * height) / SAMPLE_SIZE);
+    const y1 = Math.max(y0 + 1, Math.floor(((sampleY + 1) * height) / SAMPLE_SIZE));
+    for (let sampleX = 0; sampleX < SAMPLE_SIZE; sampleX++) {
+      const x0 = Math.floor((sampleX * width) / SAMPLE_SIZE);
+      const x1 = Math.max(x0 + 1, Math.floor(((sampleX + 1) * width) / SAMPLE_SIZE));
+
+      // Average luminance of all pixels that fall into the sample cell, transparent pixels are blended with white.
+      let sum = 0;
+      for (let y = y0; y < Math.min(y1, height); y++) {
+        for (let x = x0; x < Math.min(x1, width); x++) {
+          const offset = (y * width + x) * 4;
+          const alpha = data[offset + 3] / 255;
+          const luminance = 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+          sum += luminance * alpha + 255 * (1 - alpha);
+        }
+      }
+      sample[sampleY * SAMPLE_SIZE + sampleX] = sum / ((Math.min(y1, height) - y0) * (Math.min(x1, width) - x0));
+    }
+  }
+
+  return sample;
+}
@@ -0,0 +1,25 @@
+/**
+ * Coalesces concurrent calls that share the same key, so that only one of them does the actual work and all callers
+ * receive the same result or the same error.
+ */
+export class SingleFlight<T> {
+  private readonly inFlight = new Map<string, Promise<T>>();
+
+  public has(key: string) {
+    return this.inFlight.has(key);
+  }
+
+  public run(key: string, fn: () => Promise<T>): Promise<T> {
+    const existingCall = this.inFlight.get(key);
+    if (existingCall) {
+      return existingCall;
+    }
+
+    const call = fn().finally(() => {
+      this.inFlight.delete(key);
+    });
+    this.inFlight.set(key, call);
+
+    return call;
+  }
+}
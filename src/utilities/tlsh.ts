@@ -77,6 +77,10 @@ const BUCKETS = 256;
 // 128 * 2 bits = 32 bytes
 const CODE_SIZE = 32;
 const EFF_BUCKETS = 128;
+// 2 * (checksum + Lvalue + Q + code) hex characters.
+const TLSH_STRING_LEN = 2 * (TLSH_CHECKSUM_LEN + 2 + CODE_SIZE);
+const RANGE_LVALUE = 256;
+const RANGE_QRATIO = 16;
 
 const V_TABLE = new Uint8Array([
   1, 87, 49, 12, 176, 178, 102, 166, 121, 193, 6, 84, 249, 230, 44, 163, 14, 197, 213, 181, 161, 85, 218, 80, 64, 239,
@@ -176,6 +180,42 @@ function to_hex(data: Uint8Array, len: number) {
   return s;
 }
 
+function from_hex(str: string) {
+  const data = new Uint8Array(str.length / 2);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = parseInt(str.substring(i * 2, i * 2 + 2), 16);
+  }
+
+  return data;
+}
+
+function mod_diff(x: number, y: number, R: number) {
+  let dl = 0;
+  let dr = 0;
+  if (y > x) {
+    dl = y - x;
+    dr = x + R - y;
+  } else {
+    dl = x - y;
+    dr = y + R - x;
+  }
+
+  return dl > dr ? dr : dl;
+}
+
+function h_distance(len: number, x: Uint8Array, y: Uint8Array) {
+  let diff = 0;
+  for (let i = 0; i < len; i++) {
+    // Compare every 2-bit pair of the bytes, the maximum difference is penalized stronger.
+    for (let j = 0; j < 4; j++) {
+      const d = Math.abs(((x[i] >> (j * 2)) & 0x03) - ((y[i] >> (j * 2)) & 0x03));
+      diff += d === 3 ? 6 : d;
+    }
+  }
+
+  return diff;
+}
+
 function SWAP_UINT(buf: Buffer, left: number, right: number) {
   const int_tmp = buf.bucket_copy[left];
   buf.bucket_copy[left] = buf.bucket_copy[right];
@@ -418,6 +458,77 @@ export class Tlsh {
     }
   }
 
+  fromTlshStr(str: string) {
+    if (str.length !== TLSH_STRING_LEN) {
+      throw new Error(`Invalid TLSH string length: ${str.length} is not equal to ${TLSH_STRING_LEN}`);
+    }
+
+    if (!/^[0-9A-Fa-f]+$/.test(str)) {
+      throw new Error(`Invalid TLSH string: ${str} contains non-hex characters`);
+    }
+
+    const data = from_hex(str);
+
+    // Reconstruct checksum, Q ratios and Lvalue.
+    for (let k = 0; k < TLSH_CHECKSUM_LEN; k++) {
+      this.checksum[k] = swap_byte(data[k]);
+    }
+    this.Lvalue = swap_byte(data[TLSH_CHECKSUM_LEN]);
+    this.Q = swap_byte(data[TLSH_CHECKSUM_LEN + 1]);
+
+    for (let i = 0; i < CODE_SIZE; i++) {
+      this.tmp_code[i] = data[TLSH_CHECKSUM_LEN + 2 + CODE_SIZE - 1 - i];
+    }
+    this.lsh_code_valid = true;
+  }
+
+  totalDiff(other: Tlsh, len_diff = true) {
+    if (!this.lsh_code_valid || !other.lsh_code_valid) {
+      throw new Error('ERROR IN PROCESSING');
+    }
+
+    if (this === other) {
+      return 0;
+    }
+
+    let diff = 0;
+    if (len_diff) {
+      const ldiff = mod_diff(this.Lvalue, other.Lvalue, RANGE_LVALUE);
+      if (ldiff === 0) {
+        diff = 0;
+      } else if (ldiff === 1) {
+        diff = 1;
+      } else {
+        diff += ldiff * 12;
+      }
+    }
+
+    const q1diff = mod_diff(this.Q & 0x0f, other.Q & 0x0f, RANGE_QRATIO);
+    if (q1diff <= 1) {
+      diff += q1diff;
+    } else {
+      diff += (q1diff - 1) * 12;
+    }
+
+    const q2diff = mod_diff((this.Q & 0xf0) >> 4, (other.Q & 0xf0) >> 4, RANGE_QRATIO);
+    if (q2diff <= 1) {
+      diff += q2diff;
+    } else {
+      diff += (q2diff - 1) * 12;
+    }
+
+    for (let k = 0; k < TLSH_CHECKSUM_LEN; k++) {
+      if (this.checksum[k] !== other.checksum[k]) {
+        diff++;
+        break;
+      }
+    }
+
+    diff += h_distance(CODE_SIZE, this.tmp_code, other.tmp_code);
+
+    return diff;
+  }
+
   hash() {
     if (!this.lsh_code_valid) {
       throw new Error('ERROR IN PROCESSING');